@@ -6,6 +6,8 @@ import { useState, useRef } from "react"
 import { Folder, File, Upload, X, Grid, List, Search, Plus, Trash2, Edit } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { useStudio } from "@/contexts/studio-context"
+import { getSpriteFrameCount } from "@/lib/saaam-runtime"
 
 // Define asset types
 type AssetType = "sprite" | "sound" | "room"
@@ -30,7 +32,29 @@ interface AssetManagerProps {
   theme: "dark" | "light"
 }
 
+// Read a sound's real length once its metadata has loaded
+function readAudioDuration(url: string): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const audio = new Audio()
+    audio.onloadedmetadata = () => resolve(Number.isFinite(audio.duration) ? audio.duration : undefined)
+    audio.onerror = () => resolve(undefined)
+    audio.src = url
+  })
+}
+
+// Read an image's real size once it has loaded
+function readImageDimensions(url: string): Promise<{ width: number; height: number } | undefined> {
+  return new Promise((resolve) => {
+    const image = new Image()
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight })
+    image.onerror = () => resolve(undefined)
+    image.src = url
+  })
+}
+
 export default function AssetManager({ assetType, onClose, onSelectAsset, theme }: AssetManagerProps) {
+  const { addAsset, deleteAsset } = useStudio()
+
   // Sample assets for each type
   const [assets, setAssets] = useState<Asset[]>(() => {
     if (assetType === "sprite") {
@@ -161,19 +185,23 @@ export default function AssetManager({ assetType, onClose, onSelectAsset, theme
 
     setIsUploading(true)
 
-    // Simulate upload delay
-    setTimeout(() => {
-      // Create new assets from the files
-      const newAssets = Array.from(files).map((file) => {
-        const id = `asset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-        const fileExtension = file.name.split(".").pop() || ""
+    // Create new assets from the files
+    Promise.all(
+      Array.from(files).map(async (file) => {
+        const url = URL.createObjectURL(file)
+
+        // Sprites and sounds are registered with the studio so running scripts can use them
+        const id =
+          assetType === "sprite" || assetType === "sound"
+            ? addAsset(file.name, assetType, url)
+            : `asset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
         // Create appropriate asset based on type
         const asset: Asset = {
           id,
           name: file.name,
           type: assetType,
-          url: URL.createObjectURL(file),
+          url,
           dateAdded: new Date(),
           tags: [],
           size: Math.round(file.size / 1024), // Convert bytes to KB
@@ -181,19 +209,17 @@ export default function AssetManager({ assetType, onClose, onSelectAsset, theme
 
         // Add type-specific properties
         if (assetType === "sprite") {
-          asset.thumbnail = URL.createObjectURL(file)
-          // We would normally get dimensions from the image, but we'll use placeholders
-          asset.dimensions = { width: 64, height: 64 }
+          asset.thumbnail = url
+          asset.dimensions = await readImageDimensions(url)
         } else if (assetType === "sound") {
-          // We would normally get duration from the audio, but we'll use a placeholder
-          asset.duration = 2.0
+          asset.duration = await readAudioDuration(url)
         } else if (assetType === "room") {
           asset.thumbnail = "/placeholder.svg?height=160&width=320"
         }
 
         return asset
-      })
-
+      }),
+    ).then((newAssets) => {
       // Add new assets to the list
       setAssets((prevAssets) => [...prevAssets, ...newAssets])
       setIsUploading(false)
@@ -202,11 +228,12 @@ export default function AssetManager({ assetType, onClose, onSelectAsset, theme
       if (fileInputRef.current) {
         fileInputRef.current.value = ""
       }
-    }, 1500)
+    })
   }
 
   // Handle asset deletion
   const handleDeleteAsset = (assetId: string) => {
+    deleteAsset(assetId)
     setAssets((prevAssets) => prevAssets.filter((asset) => asset.id !== assetId))
     if (selectedAsset?.id === assetId) {
       setSelectedAsset(null)
@@ -512,6 +539,14 @@ export default function AssetManager({ assetType, onClose, onSelectAsset, theme
                         </span>
                       </div>
                     )}
+                    {selectedAsset.type === "sprite" && (
+                      <div className="flex justify-between mb-1">
+                        <span className="text-gray-500">Frames:</span>
+                        <span title='Name a file like "player_strip4.png" to split it into 4 frames'>
+                          {getSpriteFrameCount(selectedAsset.name)}
+                        </span>
+                      </div>
+                    )}
                     {selectedAsset.duration && (
                       <div className="flex justify-between mb-1">
                         <span className="text-gray-500">Duration:</span>
@@ -112,6 +112,7 @@ export default function CopilotCodeAnalyzer({ onSuggest }: CopilotCodeAnalyzerPr
                           {issue.line && (
                             <div className="text-gray-400 mt-1">
                               Line {issue.line}
+                              {issue.column && `, Col ${issue.column}`}
                               <Button
                                 variant="link"
                                 size="sm"
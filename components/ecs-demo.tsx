@@ -6,9 +6,212 @@ import {
   TransformComponent,
   SpriteRendererComponent,
   RigidbodyComponent,
+  ColliderComponent,
   PhysicsSystem,
+  CollisionSystem,
   RenderingSystem,
+  Broadphase,
+  BruteForceBroadphase,
+  GridBroadphase,
+  SweepAndPruneBroadphase,
+  serializeWorld,
+  parseWorld,
 } from "@/lib/component-pool"
+import ECSInspector from "./ecs-inspector"
+
+// Broadphases the demo can switch between and compares in the benchmark
+const BROADPHASES: Array<{ name: string; create: () => Broadphase }> = [
+  { name: "Uniform grid", create: () => new GridBroadphase(64) },
+  { name: "Sweep and prune", create: () => new SweepAndPruneBroadphase() },
+  { name: "Brute force", create: () => new BruteForceBroadphase() },
+]
+
+// Entity counts of the benchmark, and frames measured at each
+const BENCHMARK_COUNTS = [100, 250, 500, 1000, 2000, 4000]
+const BENCHMARK_FRAMES = 30
+
+// Milliseconds per frame after which a broadphase is not run with more entities
+const BENCHMARK_BUDGET = 50
+
+// Scenes the demo can load: free-floating random entities, or bodies that fall, bounce and stack
+type Scene = "random" | "physics"
+
+// Gravity of the physics scene, in pixels per second squared
+const PHYSICS_GRAVITY = 500
+
+// Longest step the demo simulates, so a frame after the tab was hidden does not tunnel bodies through the ground
+const MAX_DELTA_TIME = 1 / 30
+
+type BenchmarkRow = {
+  count: number
+  // Milliseconds per frame by broadphase name; null when skipped
+  times: Record<string, number | null>
+}
+
+// Average time of a world update with only collisions to do, for a number of moving entities
+const benchmarkBroadphase = (broadphase: Broadphase, count: number) => {
+  const world = new World()
+  world.registerSystem(new CollisionSystem(world, broadphase))
+  world.initialize()
+
+  const bodies: Array<{ transform: TransformComponent; vx: number; vy: number }> = []
+  for (let i = 0; i < count; i++) {
+    const entityId = world.createEntity()
+    const size = Math.random() * 16 + 8
+    const transform = world.addComponent(entityId, TransformComponent, {
+      position: { x: Math.random() * 800, y: Math.random() * 600, z: 0 },
+    })
+    world.addComponent(entityId, ColliderComponent, { width: size, height: size })
+    bodies.push({ transform, vx: (Math.random() - 0.5) * 200, vy: (Math.random() - 0.5) * 200 })
+  }
+
+  let total = 0
+  // The first frames warm up the broadphase and the JIT
+  for (let frame = -5; frame < BENCHMARK_FRAMES; frame++) {
+    for (const body of bodies) {
+      body.transform.position.x = (body.transform.position.x + body.vx / 60 + 800) % 800
+      body.transform.position.y = (body.transform.position.y + body.vy / 60 + 600) % 600
+    }
+
+    const start = performance.now()
+    world.update(1 / 60)
+    if (frame >= 0) total += performance.now() - start
+  }
+
+  world.dispose()
+  return total / BENCHMARK_FRAMES
+}
+
+// Vertices of a regular polygon around its center, pointing up
+const regularPolygon = (sides: number, radius: number) =>
+  Array.from({ length: sides }, (_, i) => {
+    const angle = (i / sides) * Math.PI * 2 - Math.PI / 2
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius }
+  })
+
+type BodyOptions = {
+  x: number
+  y: number
+  shape: "box" | "circle" | "polygon"
+  width?: number
+  height?: number
+  radius?: number
+  vertices?: Array<{ x: number; y: number }>
+  rotation?: number
+  bodyType?: "dynamic" | "kinematic" | "static"
+  restitution?: number
+  friction?: number
+  color: { r: number; g: number; b: number; a: number }
+}
+
+// Create an entity whose sprite draws the same shape as its collider
+const createBody = (world: World, options: BodyOptions) => {
+  const entityId = world.createEntity()
+  const width = options.shape === "box" ? options.width || 40 : (options.radius || 20) * 2
+
+  world.addComponent(entityId, TransformComponent, {
+    position: { x: options.x, y: options.y, z: 0 },
+    rotation: { x: 0, y: 0, z: options.rotation || 0 },
+  })
+  world.addComponent(entityId, SpriteRendererComponent, {
+    width,
+    height: options.shape === "box" ? options.height || 40 : width,
+    color: options.color,
+    sprite: options.shape === "box" ? null : { shape: options.shape, vertices: options.vertices },
+  })
+  world.addComponent(entityId, RigidbodyComponent, {
+    bodyType: options.bodyType || "dynamic",
+    restitution: options.restitution ?? 0.2,
+    friction: options.friction ?? 0.5,
+  })
+  world.addComponent(entityId, ColliderComponent, {
+    type: options.shape,
+    width,
+    height: options.shape === "box" ? options.height || 40 : width,
+    radius: options.radius || 20,
+    vertices: options.vertices || [],
+  })
+
+  return entityId
+}
+
+// Drop a random circle, triangle, hexagon or box from the top of the physics scene
+const createRandomBody = (world: World) => {
+  const color = { r: Math.random() * 0.5 + 0.5, g: Math.random() * 0.5 + 0.5, b: Math.random() * 0.5 + 0.5, a: 1 }
+  const x = Math.random() * 600 + 100
+  const y = Math.random() * 100 + 40
+  const size = Math.random() * 10 + 12
+  const kind = Math.floor(Math.random() * 4)
+
+  if (kind === 0) {
+    return createBody(world, { x, y, shape: "circle", radius: size, restitution: 0.7, color })
+  }
+  if (kind === 3) {
+    return createBody(world, { x, y, shape: "box", width: size * 2, height: size * 2, color })
+  }
+  return createBody(world, {
+    x,
+    y,
+    shape: "polygon",
+    radius: size,
+    vertices: regularPolygon(kind === 1 ? 3 : 6, size),
+    rotation: Math.random() * Math.PI,
+    color,
+  })
+}
+
+// Static ground and walls, a stack and a pyramid of boxes, a ramp, and a few bouncing shapes
+const createPhysicsScene = (world: World) => {
+  const wall = { r: 0.4, g: 0.4, b: 0.45, a: 1 }
+  createBody(world, { x: 400, y: 580, shape: "box", width: 800, height: 40, bodyType: "static", color: wall })
+  createBody(world, { x: 10, y: 280, shape: "box", width: 20, height: 560, bodyType: "static", color: wall })
+  createBody(world, { x: 790, y: 280, shape: "box", width: 20, height: 560, bodyType: "static", color: wall })
+  createBody(world, {
+    x: 380,
+    y: 260,
+    shape: "box",
+    width: 160,
+    height: 12,
+    rotation: 0.5,
+    bodyType: "static",
+    color: wall,
+  })
+
+  // Boxes start a pixel apart so they settle instead of being pushed out of each other
+  const crate = { r: 0.8, g: 0.55, b: 0.25, a: 1 }
+  for (let i = 0; i < 6; i++) {
+    createBody(world, { x: 120, y: 539 - i * 41, shape: "box", color: crate })
+  }
+  for (let row = 0; row < 4; row++) {
+    for (let i = 0; i < 4 - row; i++) {
+      createBody(world, { x: 560 + (i - (3 - row) / 2) * 42, y: 539 - row * 41, shape: "box", color: crate })
+    }
+  }
+
+  const ball = { r: 0.3, g: 0.7, b: 1, a: 1 }
+  createBody(world, { x: 330, y: 80, shape: "circle", radius: 15, restitution: 0.8, color: ball })
+  createBody(world, { x: 250, y: 150, shape: "circle", radius: 20, restitution: 0.6, color: ball })
+  createBody(world, { x: 560, y: 40, shape: "circle", radius: 12, restitution: 0.9, color: ball })
+
+  const polygon = { r: 0.5, g: 0.9, b: 0.4, a: 1 }
+  createBody(world, {
+    x: 700,
+    y: 100,
+    shape: "polygon",
+    radius: 20,
+    vertices: regularPolygon(3, 20),
+    color: polygon,
+  })
+  createBody(world, {
+    x: 440,
+    y: 60,
+    shape: "polygon",
+    radius: 18,
+    vertices: regularPolygon(6, 18),
+    rotation: 0.3,
+    color: polygon,
+  })
+}
 
 export default function ECSDemo() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -16,6 +219,13 @@ export default function ECSDemo() {
   const [isRunning, setIsRunning] = useState(false)
   const [entityCount, setEntityCount] = useState(0)
   const [fps, setFps] = useState(0)
+  const [scene, setScene] = useState<Scene>("random")
+  const [broadphaseName, setBroadphaseName] = useState(BROADPHASES[0].name)
+  const [collisionStats, setCollisionStats] = useState({ colliders: 0, candidates: 0, collisions: 0 })
+  const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkRow[]>([])
+  const [benchmarking, setBenchmarking] = useState(false)
+  const [selectedEntity, setSelectedEntity] = useState<number | null>(null)
+  const [savedWorld, setSavedWorld] = useState<string | null>(null)
 
   // Initialize ECS world
   useEffect(() => {
@@ -26,11 +236,15 @@ export default function ECSDemo() {
     world.registerComponent(TransformComponent)
     world.registerComponent(SpriteRendererComponent)
     world.registerComponent(RigidbodyComponent)
+    world.registerComponent(ColliderComponent)
 
     // Register systems
     const physicsSystem = new PhysicsSystem(world)
     world.registerSystem(physicsSystem)
 
+    const collisionSystem = new CollisionSystem(world, BROADPHASES[0].create())
+    world.registerSystem(collisionSystem)
+
     const renderingSystem = new RenderingSystem(world)
     world.registerSystem(renderingSystem)
 
@@ -71,7 +285,24 @@ export default function ECSDemo() {
         ctx.translate(x, y)
         ctx.rotate(rotation)
         ctx.fillStyle = `rgba(${color.r * 255}, ${color.g * 255}, ${color.b * 255}, ${color.a})`
-        ctx.fillRect(-width / 2, -height / 2, width, height)
+        if (sprite?.shape === "circle") {
+          ctx.beginPath()
+          ctx.arc(0, 0, width / 2, 0, Math.PI * 2)
+          ctx.fill()
+          // A spoke, so rolling and sliding can be told apart
+          ctx.strokeStyle = "rgba(0, 0, 0, 0.4)"
+          ctx.beginPath()
+          ctx.moveTo(0, 0)
+          ctx.lineTo(width / 2, 0)
+          ctx.stroke()
+        } else if (sprite?.shape === "polygon") {
+          ctx.beginPath()
+          sprite.vertices.forEach((vertex: { x: number; y: number }) => ctx.lineTo(vertex.x, vertex.y))
+          ctx.closePath()
+          ctx.fill()
+        } else {
+          ctx.fillRect(-width / 2, -height / 2, width, height)
+        }
         ctx.restore()
       },
       flushBatch: () => {
@@ -84,14 +315,37 @@ export default function ECSDemo() {
     if (renderingSystem) {
       renderingSystem.setRenderer(renderer)
     }
+  }, [canvasRef.current, worldRef.current])
 
-    // Create some entities
-    for (let i = 0; i < 10; i++) {
-      createRandomEntity(world)
+  // Replace the entities of the world with the selected scene
+  useEffect(() => {
+    const world = worldRef.current
+    if (!world) return
+
+    world.clear()
+    setSelectedEntity(null)
+    const physicsSystem = world.systems.find((s) => s instanceof PhysicsSystem) as PhysicsSystem
+    if (scene === "physics") {
+      physicsSystem.gravity = { x: 0, y: PHYSICS_GRAVITY }
+      createPhysicsScene(world)
+    } else {
+      physicsSystem.gravity = { x: 0, y: 9.8 }
+      for (let i = 0; i < 10; i++) {
+        createRandomEntity(world)
+      }
     }
 
-    setEntityCount(10)
-  }, [canvasRef.current, worldRef.current])
+    setEntityCount(world.entityManager.entities.size)
+  }, [scene])
+
+  // Use the selected broadphase in the running world
+  useEffect(() => {
+    const collisionSystem = worldRef.current?.systems.find((s) => s instanceof CollisionSystem) as CollisionSystem
+    const broadphase = BROADPHASES.find((b) => b.name === broadphaseName)
+    if (collisionSystem && broadphase) {
+      collisionSystem.setBroadphase(broadphase.create())
+    }
+  }, [broadphaseName])
 
   // Animation loop
   useEffect(() => {
@@ -104,13 +358,17 @@ export default function ECSDemo() {
     const animate = (time: number) => {
       if (!worldRef.current) return
 
-      const deltaTime = (time - lastTime) / 1000
+      const deltaTime = Math.min((time - lastTime) / 1000, MAX_DELTA_TIME)
       lastTime = time
 
       // Update FPS counter
       frameCount++
       if (time - lastFpsUpdate > 1000) {
         setFps(Math.round((frameCount * 1000) / (time - lastFpsUpdate)))
+        const collisionSystem = worldRef.current.systems.find((s) => s instanceof CollisionSystem) as CollisionSystem
+        if (collisionSystem) {
+          setCollisionStats({ ...collisionSystem.stats })
+        }
         frameCount = 0
         lastFpsUpdate = time
       }
@@ -171,6 +429,13 @@ export default function ECSDemo() {
       },
     })
 
+    // Add collider component matching the sprite
+    const transform = world.getComponent(entityId, TransformComponent)!
+    world.addComponent(entityId, ColliderComponent, {
+      width: 40 * transform.scale.x,
+      height: 40 * transform.scale.y,
+    })
+
     return entityId
   }
 
@@ -179,17 +444,113 @@ export default function ECSDemo() {
     if (!worldRef.current) return
 
     for (let i = 0; i < 10; i++) {
-      createRandomEntity(worldRef.current)
+      if (scene === "physics") {
+        createRandomBody(worldRef.current)
+      } else {
+        createRandomEntity(worldRef.current)
+      }
     }
 
     setEntityCount((prev) => prev + 10)
   }
 
+  // Select the topmost entity whose sprite is under the pointer
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const world = worldRef.current
+    const canvas = canvasRef.current
+    if (!world || !canvas) return
+
+    const rect = canvas.getBoundingClientRect()
+    const x = ((e.clientX - rect.left) * canvas.width) / rect.width
+    const y = ((e.clientY - rect.top) * canvas.height) / rect.height
+
+    let picked: number | null = null
+    const sprites = world.entityManager.getComponentMap(SpriteRendererComponent)
+    for (const [entityId, transform] of world.entityManager.getComponentMap(TransformComponent)) {
+      const sprite = sprites.get(entityId)
+      if (!sprite) continue
+
+      // Into the sprite's unrotated frame
+      const cos = Math.cos(-transform.rotation.z)
+      const sin = Math.sin(-transform.rotation.z)
+      const dx = x - transform.position.x
+      const dy = y - transform.position.y
+      const localX = dx * cos - dy * sin
+      const localY = dx * sin + dy * cos
+      if (
+        Math.abs(localX) <= (sprite.width * transform.scale.x) / 2 &&
+        Math.abs(localY) <= (sprite.height * transform.scale.y) / 2
+      ) {
+        picked = entityId
+      }
+    }
+
+    setSelectedEntity(picked)
+  }
+
+  // Keep the schema fields of every entity
+  const handleSaveWorld = () => {
+    if (!worldRef.current) return
+    setSavedWorld(serializeWorld(worldRef.current))
+  }
+
+  // Replace the world's entities with the saved ones
+  const handleLoadWorld = () => {
+    const world = worldRef.current
+    if (!world || !savedWorld) return
+
+    world.clear()
+    world.deserialize(parseWorld(savedWorld))
+
+    // Sprites are not saved (they can be images), so draw the collider's shape again
+    const colliders = world.entityManager.getComponentMap(ColliderComponent)
+    for (const [entityId, sprite] of world.entityManager.getComponentMap(SpriteRendererComponent)) {
+      const collider = colliders.get(entityId)
+      if (collider && collider.type !== "box") {
+        sprite.sprite = { shape: collider.type, vertices: collider.vertices }
+      }
+    }
+
+    setSelectedEntity(null)
+    setEntityCount(world.entityManager.entities.size)
+  }
+
   // Toggle simulation
   const toggleSimulation = () => {
     setIsRunning((prev) => !prev)
   }
 
+  // Time every broadphase at growing entity counts, in worlds of their own
+  const runBenchmark = async () => {
+    setIsRunning(false)
+    setBenchmarking(true)
+
+    const rows: BenchmarkRow[] = []
+    const tooSlow = new Set<string>()
+    for (const count of BENCHMARK_COUNTS) {
+      const row: BenchmarkRow = { count, times: {} }
+      rows.push(row)
+
+      for (const broadphase of BROADPHASES) {
+        if (tooSlow.has(broadphase.name)) {
+          row.times[broadphase.name] = null
+          continue
+        }
+
+        // Let the page show the results so far before the next run blocks it
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        const time = benchmarkBroadphase(broadphase.create(), count)
+        row.times[broadphase.name] = time
+        if (time > BENCHMARK_BUDGET) {
+          tooSlow.add(broadphase.name)
+        }
+        setBenchmarkResults(rows.map((r) => ({ ...r, times: { ...r.times } })))
+      }
+    }
+
+    setBenchmarking(false)
+  }
+
   return (
     <div className="w-full h-full flex flex-col bg-gray-900 text-white p-4">
       <h1 className="text-2xl font-bold text-yellow-400 mb-4">Entity Component System Demo</h1>
@@ -205,21 +566,123 @@ export default function ECSDemo() {
         <button className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded" onClick={handleAddEntities}>
           Add 10 Entities
         </button>
+
+        <select
+          className="px-2 py-2 bg-gray-800 border border-gray-700 rounded"
+          value={scene}
+          onChange={(e) => setScene(e.target.value as Scene)}
+        >
+          <option value="random">Random entities</option>
+          <option value="physics">Physics scene</option>
+        </select>
+
+        <select
+          className="px-2 py-2 bg-gray-800 border border-gray-700 rounded"
+          value={broadphaseName}
+          onChange={(e) => setBroadphaseName(e.target.value)}
+        >
+          {BROADPHASES.map((broadphase) => (
+            <option key={broadphase.name} value={broadphase.name}>
+              {broadphase.name}
+            </option>
+          ))}
+        </select>
+
+        <button className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded" onClick={handleSaveWorld}>
+          Save World
+        </button>
+
+        <button
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+          onClick={handleLoadWorld}
+          disabled={!savedWorld}
+        >
+          Load World
+        </button>
+
+        <button
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded disabled:opacity-50"
+          onClick={runBenchmark}
+          disabled={benchmarking}
+        >
+          {benchmarking ? "Benchmarking..." : "Benchmark Broadphases"}
+        </button>
       </div>
 
       <div className="flex space-x-4 mb-4 text-sm">
         <div>Entities: {entityCount}</div>
         <div>FPS: {fps}</div>
+        <div>Candidate pairs: {collisionStats.candidates}</div>
+        <div>Collisions: {collisionStats.collisions}</div>
       </div>
 
-      <div className="flex-1 bg-black flex items-center justify-center">
-        <canvas ref={canvasRef} width={800} height={600} className="border border-gray-700" />
+      {benchmarkResults.length > 0 && (
+        <table className="mb-4 text-sm">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="pr-6 text-left font-normal">Entities</th>
+              {BROADPHASES.map((broadphase) => (
+                <th key={broadphase.name} className="pr-6 text-right font-normal">
+                  {broadphase.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {benchmarkResults.map((row) => {
+              const measured = Object.values(row.times).filter((time): time is number => time !== null)
+              const fastest = Math.min(...measured)
+              return (
+                <tr key={row.count}>
+                  <td className="pr-6">{row.count}</td>
+                  {BROADPHASES.map((broadphase) => {
+                    const time = row.times[broadphase.name]
+                    return (
+                      <td
+                        key={broadphase.name}
+                        className={`pr-6 text-right font-mono ${time === fastest ? "text-green-400" : ""}`}
+                      >
+                        {time === undefined ? "..." : time === null ? "skipped" : `${time.toFixed(2)} ms/frame`}
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex-1 flex space-x-4 min-h-0">
+        <div className="flex-1 bg-black flex items-center justify-center">
+          <canvas
+            ref={canvasRef}
+            width={800}
+            height={600}
+            className="border border-gray-700"
+            onClick={handleCanvasClick}
+          />
+        </div>
+
+        <ECSInspector world={worldRef.current} selectedEntity={selectedEntity} onSelectEntity={setSelectedEntity} />
       </div>
 
       <div className="mt-4 text-sm text-gray-400">
         <p>This demo shows the Entity Component System architecture in action.</p>
-        <p>Each entity has Transform, SpriteRenderer, and Rigidbody components.</p>
+        <p>Each entity has Transform, SpriteRenderer, Rigidbody, and Collider components.</p>
         <p>The Physics system updates positions based on velocities, and the Rendering system draws the entities.</p>
+        <p>
+          In the physics scene, bodies are boxes, circles and convex polygons: the Physics system pushes them apart
+          along the contacts the Collision system finds, so they bounce, slide with friction and stack on static ground.
+        </p>
+        <p>
+          Click an entity or pick it from the list to edit its components in the inspector; its fields come from each
+          component&apos;s schema, which also decides what Save World keeps.
+        </p>
+        <p>
+          The Collision system finds overlapping colliders with the selected broadphase; the benchmark times each
+          broadphase at growing entity counts and skips the ones that exceed {BENCHMARK_BUDGET} ms per frame.
+        </p>
       </div>
     </div>
   )
@@ -0,0 +1,268 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { World, getComponentName, validateComponentData } from "@/lib/component-pool"
+import type { Color, ComponentType, FieldSchema, Vector2 } from "@/lib/component-pool"
+
+// How often the inspector shows the values systems wrote, in milliseconds
+const REFRESH_INTERVAL = 200
+
+type ECSInspectorProps = {
+  world: World | null
+  selectedEntity: number | null
+  onSelectEntity: (entityId: number | null) => void
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000)
+
+const toHex = (color: Color) =>
+  "#" +
+  [color.r, color.g, color.b]
+    .map((channel) =>
+      Math.round(channel * 255)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")
+
+const fromHex = (hex: string, alpha: number): Color => ({
+  r: parseInt(hex.slice(1, 3), 16) / 255,
+  g: parseInt(hex.slice(3, 5), 16) / 255,
+  b: parseInt(hex.slice(5, 7), 16) / 255,
+  a: alpha,
+})
+
+// Number field that keeps what is typed while it has focus, so "-" or "0." can be typed on the way to a number
+function NumberInput({
+  value,
+  onChange,
+  step = "any",
+}: {
+  value: number
+  onChange: (value: number) => void
+  step?: number | "any"
+}) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <input
+      type="number"
+      step={step}
+      className="w-full min-w-0 px-1 py-0.5 bg-gray-900 border border-gray-700 rounded font-mono text-xs"
+      value={draft ?? formatNumber(value)}
+      onFocus={() => setDraft(formatNumber(value))}
+      onBlur={() => setDraft(null)}
+      onChange={(e) => {
+        setDraft(e.target.value)
+        const parsed = parseFloat(e.target.value)
+        if (Number.isFinite(parsed)) {
+          onChange(parsed)
+        }
+      }}
+    />
+  )
+}
+
+function VectorInput({
+  value,
+  axes,
+  onChange,
+}: {
+  value: Record<string, number>
+  axes: string[]
+  onChange: (value: any) => void
+}) {
+  return (
+    <div className="flex space-x-1">
+      {axes.map((axis) => (
+        <label key={axis} className="flex items-center space-x-1 flex-1 min-w-0">
+          <span className="text-gray-500">{axis}</span>
+          <NumberInput value={value[axis]} onChange={(n) => onChange({ ...value, [axis]: n })} />
+        </label>
+      ))}
+    </div>
+  )
+}
+
+// Editor for one field, picked by the field's type in the schema
+function FieldEditor({
+  field,
+  value,
+  world,
+  onChange,
+}: {
+  field: FieldSchema
+  value: any
+  world: World
+  onChange: (value: any) => void
+}) {
+  switch (field.type) {
+    case "number":
+      return <NumberInput value={value} step={field.integer ? 1 : "any"} onChange={onChange} />
+    case "boolean":
+      return <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} />
+    case "string":
+      return (
+        <input
+          className="w-full px-1 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )
+    case "vec2":
+      return <VectorInput value={value} axes={["x", "y"]} onChange={onChange} />
+    case "vec3":
+      return <VectorInput value={value} axes={["x", "y", "z"]} onChange={onChange} />
+    case "color":
+      return (
+        <div className="flex items-center space-x-1">
+          <input type="color" value={toHex(value)} onChange={(e) => onChange(fromHex(e.target.value, value.a))} />
+          <span className="text-gray-500">a</span>
+          <NumberInput value={value.a} step={0.05} onChange={(a) => onChange({ ...value, a })} />
+        </div>
+      )
+    case "entity":
+      return (
+        <select
+          className="w-full px-1 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs"
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value))}
+        >
+          <option value={0}>None</option>
+          {[...world.entityManager.entities.values()].map((entity) => (
+            <option key={entity.id} value={entity.id}>
+              {entity.name}
+            </option>
+          ))}
+        </select>
+      )
+    case "enum":
+      return (
+        <select
+          className="w-full px-1 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          {field.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )
+    case "points":
+      return (
+        <div className="space-y-1">
+          {(value as Vector2[]).map((point, i) => (
+            <VectorInput
+              key={i}
+              value={point}
+              axes={["x", "y"]}
+              onChange={(changed) => onChange(value.map((other: Vector2, j: number) => (j === i ? changed : other)))}
+            />
+          ))}
+          <div className="flex space-x-1">
+            <button
+              className="px-2 bg-gray-700 hover:bg-gray-600 rounded"
+              onClick={() => onChange([...value, { x: 0, y: 0 }])}
+            >
+              +
+            </button>
+            <button
+              className="px-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+              onClick={() => onChange(value.slice(0, -1))}
+              disabled={value.length === 0}
+            >
+              −
+            </button>
+          </div>
+        </div>
+      )
+  }
+}
+
+// Entity list and the schema fields of the selected entity's components, editable while the world runs
+export default function ECSInspector({ world, selectedEntity, onSelectEntity }: ECSInspectorProps) {
+  const [, setRevision] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const timer = setInterval(() => setRevision((revision) => revision + 1), REFRESH_INTERVAL)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    setError(null)
+  }, [selectedEntity])
+
+  if (!world) return null
+
+  const entities = [...world.entityManager.entities.values()]
+  const components =
+    selectedEntity !== null && world.entityManager.entityExists(selectedEntity)
+      ? world.entityManager.getComponents(selectedEntity).filter((component) => component.constructor.schema)
+      : []
+
+  // Write a field if the schema accepts the value, and let queries with a changed filter see it
+  const setField = (component: any, key: string, value: any) => {
+    const componentType = component.constructor as ComponentType
+    const errors = validateComponentData(componentType, { [key]: value })
+    if (errors.length > 0) {
+      setError(`${getComponentName(componentType)}: ${errors.join(", ")}`)
+      return
+    }
+
+    component[key] = value
+    world.markChanged(component)
+    setError(null)
+    setRevision((revision) => revision + 1)
+  }
+
+  return (
+    <div className="w-72 flex flex-col bg-gray-800 border border-gray-700 rounded text-xs overflow-hidden">
+      <div className="px-2 py-1 font-bold text-gray-300 border-b border-gray-700">Entities ({entities.length})</div>
+      <div className="h-40 overflow-y-auto border-b border-gray-700">
+        {entities.map((entity) => (
+          <button
+            key={entity.id}
+            className={`block w-full px-2 py-0.5 text-left truncate ${
+              entity.id === selectedEntity ? "bg-blue-700" : "hover:bg-gray-700"
+            }`}
+            onClick={() => onSelectEntity(entity.id)}
+          >
+            {entity.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-3">
+        {selectedEntity === null && <div className="text-gray-500">Select an entity to edit its components</div>}
+        {error && <div className="text-red-400">{error}</div>}
+        {components.map((component) => {
+          const componentType = component.constructor as ComponentType
+          const name = getComponentName(componentType)
+          return (
+            <div key={name}>
+              <div className="font-bold text-yellow-400 mb-1">{name}</div>
+              <div className="space-y-1">
+                {Object.entries(componentType.schema!).map(([key, field]) => (
+                  <div key={key} className="grid grid-cols-[5.5rem_1fr] items-start gap-1">
+                    <span className="text-gray-400 truncate pt-0.5" title={key}>
+                      {key}
+                    </span>
+                    <FieldEditor
+                      field={field}
+                      value={component[key]}
+                      world={world}
+                      onChange={(value) => setField(component, key, value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
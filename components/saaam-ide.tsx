@@ -1,12 +1,11 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, type ReactElement } from "react"
 import {
   Play,
   Square,
   Bug,
   BarChart,
-  RefreshCw,
   Sun,
   Moon,
   Users,
@@ -15,27 +14,70 @@ import {
   Code,
   BotIcon as Robot,
   BookOpen,
+  Zap,
+  Download,
+  Redo,
+  ArrowDownToLine,
+  ArrowUpFromLine,
 } from "lucide-react"
-import { SaaamCompiler } from "@/lib/saaam-compiler"
-import { SaaamInterpreter } from "@/lib/saaam-interpreter"
+import { SaaamCompiler, type SaaamCompileResult } from "@/lib/saaam-compiler"
+import type { SaaamDebugCommand, SaaamDebugPause } from "@/lib/saaam-debugger"
+import {
+  serializeProfile,
+  type SaaamProfile,
+  type SaaamProfileFrame,
+  type SaaamProfileSpan,
+} from "@/lib/saaam-profiler"
+import { SaaamSandboxedRuntime } from "@/lib/saaam-sandboxed-runtime"
+import {
+  formatSourceLocation,
+  getSourceOffset,
+  linkSaaamFiles,
+  toScriptLine,
+  toSourceLocation,
+  type SaaamSourceLocation,
+  type SaaamSourceMap,
+} from "@/lib/saaam-source-map"
 import { sampleSaaamCode } from "@/lib/sample-code"
+import { useStudio } from "@/contexts/studio-context"
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import CopilotPanel from "./copilot-panel"
 import AssetManager from "./asset-manager"
+import VirtualDpad from "./virtual-dpad"
 
 // Import the new systems
 import { dragAndDropIntegration } from "@/lib/drag-and-drop-integration"
 import { aiSystem } from "@/lib/ai-system"
 
+// File a project starts from; the other files are linked in before it
+const ENTRY_FILE = "main.saaam"
+
+// Colors for profiler charts
+const PROFILE_COLORS = ["#4C9AFF", "#FF5630", "#36B37E", "#FFAB00", "#6554C0", "#8993A4"]
+
+// Frame time ranges of the profiler's histogram, in milliseconds
+const FRAME_TIME_BUCKETS = [
+  { label: "< 2", min: 0, max: 2 },
+  { label: "2-4", min: 2, max: 4 },
+  { label: "4-8", min: 4, max: 8 },
+  { label: "8-16.7", min: 8, max: 16.7 },
+  { label: "16.7-33", min: 16.7, max: 33.3 },
+  { label: "> 33", min: 33.3, max: Infinity },
+]
+
 // Main IDE component
 const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isMobile?: boolean }) => {
+  const { assets } = useStudio()
   const [code, setCode] = useState(initialCode || sampleSaaamCode)
   const [activeTab, setActiveTab] = useState("editor")
   const [output, setOutput] = useState("")
   const [running, setRunning] = useState(false)
-  const [consoleOutput, setConsoleOutput] = useState<Array<{ type: string; message: string }>>([])
+  // Messages with a location (errors, pauses) jump to it when clicked
+  const [consoleOutput, setConsoleOutput] = useState<
+    Array<{ type: string; message: string; location?: SaaamSourceLocation }>
+  >([])
   const [visualMode, setVisualMode] = useState("game")
   const [showCoroutineVisualizer, setShowCoroutineVisualizer] = useState(false)
 
@@ -46,15 +88,22 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
 
   // New state for enhanced features
   const [debugMode, setDebugMode] = useState(false)
-  const [breakpoints, setBreakpoints] = useState<number[]>([])
-  const [currentBreakpoint, setCurrentBreakpoint] = useState<number | null>(null)
+  // Saving while the game runs hot-reloads the script, keeping its objects and persistent values
+  const [liveCoding, setLiveCoding] = useState(false)
+  const [breakpoints, setBreakpoints] = useState<Array<{ file: string; line: number }>>([])
+  const [currentBreakpoint, setCurrentBreakpoint] = useState<SaaamSourceLocation | null>(null)
+  // Where the script is paused in the debugger; stepping needs a cross-origin isolated page
+  const [debugPause, setDebugPause] = useState<SaaamDebugPause | null>(null)
+  const [canStep, setCanStep] = useState(false)
+  const [selectedFrame, setSelectedFrame] = useState(0)
   const [executionSpeed, setExecutionSpeed] = useState(1.0) // 1.0 = normal speed
-  const [profilerData, setProfilerData] = useState<any>(null)
+  const [profilerData, setProfilerData] = useState<SaaamProfile | null>(null)
   const [showProfiler, setShowProfiler] = useState(false)
+  // Frame shown in the flame chart; the slowest captured one when null
+  const [selectedProfileFrame, setSelectedProfileFrame] = useState<number | null>(null)
   const [aiSuggestionActive, setAiSuggestionActive] = useState(false)
   const [coroutineState, setCoroutineState] = useState<any>(null)
   const [executionTime, setExecutionTime] = useState(0)
-  const [memoryUsage, setMemoryUsage] = useState(0)
   const [variableInspector, setVariableInspector] = useState<any[]>([])
   const [selectedVariable, setSelectedVariable] = useState<string | null>(null)
   const [theme, setTheme] = useState("dark")
@@ -77,6 +126,8 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
     },
   ])
   const [currentFile, setCurrentFile] = useState("main.saaam")
+  // Where the editor should put its cursor once it shows the file
+  const [jumpTarget, setJumpTarget] = useState<SaaamSourceLocation | null>(null)
   const [tabs, setTabs] = useState([{ name: "main.saaam", active: true }])
   const [multiplayerOpen, setMultiplayerOpen] = useState(false)
   const [fontSize, setFontSize] = useState(16)
@@ -91,8 +142,11 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const editorRef = useRef<HTMLTextAreaElement>(null)
+  const gutterRef = useRef<HTMLDivElement>(null)
   const compilerRef = useRef<SaaamCompiler | null>(null)
-  const interpreterRef = useRef<SaaamInterpreter | null>(null)
+  const runtimeRef = useRef<SaaamSandboxedRuntime | null>(null)
+  // Where each file is in the running script, to map debugger lines to the files
+  const sourceMapRef = useRef<SaaamSourceMap | null>(null)
 
   // Initialize systems
   useEffect(() => {
@@ -131,55 +185,62 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
     }
   }, [])
 
-  // Initialize compiler and interpreter
+  // Initialize compiler and sandboxed runtime
   useEffect(() => {
     compilerRef.current = new SaaamCompiler()
-
-    if (typeof window !== "undefined") {
-      // Create a global SAAAM object for the interpreter to use
-      ;(window as any).SAAAM = {
-        keyboardCheck: (keyCode: number) => interpreterRef.current?.keyboardCheck(keyCode) || false,
-        keyboardCheckPressed: (keyCode: number) => interpreterRef.current?.keyboardCheckPressed(keyCode) || false,
-        drawSprite: (spriteIndex: number, imageIndex: number, x: number, y: number) =>
-          interpreterRef.current?.drawSprite(spriteIndex, imageIndex, x, y),
-        drawRectangle: (x: number, y: number, width: number, height: number, color: string) =>
-          interpreterRef.current?.drawRectangle(x, y, width, height, color),
-        drawCircle: (x: number, y: number, radius: number, color: string) =>
-          interpreterRef.current?.drawCircle(x, y, radius, color),
-        drawLine: (x1: number, y1: number, x2: number, y2: number, color: string) =>
-          interpreterRef.current?.drawLine(x1, y1, x2, y2, color),
-        drawText: (text: string, x: number, y: number, color: string) =>
-          interpreterRef.current?.drawText(text, x, y, color),
-        registerCreate: (func: Function) => interpreterRef.current?.registerCreate(func),
-        registerStep: (func: Function) => interpreterRef.current?.registerStep(func),
-        registerDraw: (func: Function) => interpreterRef.current?.registerDraw(func),
-        vk: {
-          left: 37,
-          up: 38,
-          right: 39,
-          down: 40,
-          space: 32,
-          a: 65,
-          s: 83,
-          d: 68,
-          w: 87,
-        },
-        // Add drag and drop functions
-        dragDrop: window.SAAAM?.dragDrop || {},
-      }
-
-      interpreterRef.current = new SaaamInterpreter((window as any).SAAAM)
-      interpreterRef.current.initialize()
-      interpreterRef.current.compiler = compilerRef.current
-    }
+    runtimeRef.current = new SaaamSandboxedRuntime()
+      .onError((error, trace) => addMessage(`> ${error}`, "error", trace[0]))
+      .onLog((log) => addMessage(`> ${log}`, "info"))
+      .onStop(() => setRunning(false))
+      .onPause((pause, canStep) => {
+        setDebugPause(pause)
+        setCanStep(canStep)
+        const location = pause && toEditorLocation(pause.line)
+        setCurrentBreakpoint(location)
+        inspectFrame(pause, 0)
+        if (pause) {
+          addMessage(
+            `> Paused at ${describeScriptLine(pause.line)} (${pause.reason})`,
+            "warning",
+            location ?? undefined,
+          )
+        }
+      })
 
     return () => {
-      if (interpreterRef.current) {
-        interpreterRef.current.stopGame()
+      if (runtimeRef.current) {
+        runtimeRef.current.destroy()
       }
     }
   }, [])
 
+  // Send sprite and sound assets to the runtime; they are decoded before the next script starts
+  useEffect(() => {
+    runtimeRef.current
+      ?.setSprites(
+        assets
+          .filter((asset) => asset.type === "sprite")
+          .map((asset) => ({ id: asset.id, name: asset.name, url: asset.url, frameCount: asset.frames })),
+      )
+      .setSounds(
+        assets
+          .filter((asset) => asset.type === "sound")
+          .map((asset) => ({ id: asset.id, name: asset.name, url: asset.url })),
+      )
+  }, [assets])
+
+  // Breakpoints apply while debugging mode is on; turning it on or off takes effect on the next run. They are
+  // set on lines of the files, so they follow the files to wherever they are in the running script
+  const applyBreakpoints = () => {
+    const map = sourceMapRef.current
+    const lines = map ? breakpoints.map((breakpoint) => toScriptLine(map, breakpoint.file, breakpoint.line)) : []
+    runtimeRef.current?.setBreakpoints(debugMode ? lines.filter((line): line is number => line !== null) : null)
+  }
+
+  useEffect(() => {
+    applyBreakpoints()
+  }, [debugMode, breakpoints])
+
   // AI Analysis effect
   useEffect(() => {
     if (aiEnabled && code) {
@@ -218,7 +279,7 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
     }
   }, [initialCode])
 
-  // Add this useEffect after the existing useEffect that initializes the compiler and interpreter
+  // Add this useEffect after the existing useEffect that initializes the compiler and runtime
   useEffect(() => {
     // This effect ensures the canvas is properly initialized when in game view
     if (activeTab === "game" && canvasRef.current) {
@@ -228,12 +289,12 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
         canvasRef.current.height = 600
       }
 
-      // If we're already running, make sure the game is properly started
-      if (running && interpreterRef.current && !interpreterRef.current.isGameRunning()) {
-        interpreterRef.current.startGame(canvasRef.current)
-      }
+      // The canvas is re-mounted on every switch to the game view; show the running game on it
+      runtimeRef.current?.attachCanvas(canvasRef.current)
+    } else {
+      runtimeRef.current?.detachCanvas()
     }
-  }, [activeTab, running])
+  }, [activeTab, running, showProfiler])
 
   // Update sidebar visibility based on mobile state
   useEffect(() => {
@@ -296,10 +357,35 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
     setActiveTab("editor")
   }
 
+  // The project's files as they are in the editor, to link into one script
+  const getProjectSources = () =>
+    files.map((file) => ({ name: file.name, code: file.name === currentFile ? code : file.content }))
+
+  // Text of a line of a project file
+  const getLineText = (file: string, line: number) =>
+    getProjectSources()
+      .find((source) => source.name === file)
+      ?.code.split("\n")
+      [line - 1]?.trim() ?? ""
+
+  // Report a compile result's warnings and errors in the console, at their place in the project's files
+  const reportDiagnostics = (result: SaaamCompileResult, map: SaaamSourceMap) => {
+    for (const diagnostic of result.diagnostics) {
+      const { line, column } = diagnostic.range.start
+      const location = toSourceLocation(map, line, column)
+      const where = location ? formatSourceLocation(location) : `Line ${line}`
+      if (diagnostic.severity === "error") {
+        addMessage(`> ${where}: ${diagnostic.message}`, "error", location ?? undefined)
+      } else if (diagnostic.severity === "warning") {
+        addMessage(`> Warning: ${where}: ${diagnostic.message}`, "warning", location ?? undefined)
+      }
+    }
+  }
+
   // Function to handle running code
   // Modify the runCode function to ensure the canvas is available
   const runCode = () => {
-    if (!compilerRef.current || !interpreterRef.current) {
+    if (!compilerRef.current || !runtimeRef.current) {
       addMessage("Engine not initialized", "error")
       return
     }
@@ -308,7 +394,7 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
     setActiveTab("game")
 
     // Use setTimeout to ensure the canvas is rendered before accessing it
-    setTimeout(() => {
+    setTimeout(async () => {
       if (!canvasRef.current) {
         addMessage("Canvas not available. Please try again.", "error")
         return
@@ -324,28 +410,33 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
         setExecutionTime((prevTime) => prevTime + 0.1)
       }, 100)
 
-      // Simulate memory usage
-      const memoryInterval = setInterval(() => {
-        setMemoryUsage(Math.floor(Math.random() * 50) + 150) // Random between 150-200 MB
-      }, 1000)
-
       try {
         // Compile the code
         const compiler = compilerRef.current
-        const interpreter = interpreterRef.current
+        const runtime = runtimeRef.current
+
+        if (!compiler || !runtime) {
+          throw new Error("Engine not initialized")
+        }
 
-        // Load and compile the script
-        const scriptId = "main_script"
-        const success = interpreter.loadScript(code, scriptId)
+        // Link the project's files into one script, then parse and check it before loading it
+        const { code: script, map } = linkSaaamFiles(getProjectSources(), ENTRY_FILE)
+        const compileResult = compiler.compile(script)
+        reportDiagnostics(compileResult, map)
 
-        if (!success) {
+        if (!compileResult.success) {
           throw new Error("Failed to compile script")
         }
 
         addMessage("> Code compiled successfully!", "success")
 
-        // Execute the script
-        const executed = interpreter.executeScript(scriptId)
+        // Execute the script in the sandbox worker
+        if (canvasRef.current) {
+          runtime.attachCanvas(canvasRef.current)
+        }
+        sourceMapRef.current = map
+        applyBreakpoints()
+        const executed = await runtime.executeCode(script, null, map)
 
         if (!executed) {
           throw new Error("Failed to execute script")
@@ -355,24 +446,8 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
 
         // Start the game
         if (canvasRef.current) {
-          interpreter.startGame(canvasRef.current)
+          runtime.start()
           addMessage("> Game started", "success")
-
-          // Create variable inspector data
-          setVariableInspector([
-            { name: "player_health", value: 100, type: "number", scope: "global" },
-            { name: "GRAVITY", value: 0.5, type: "number", scope: "global", isConstant: true },
-            { name: "position", value: { x: 100, y: 100 }, type: "vec2", scope: "this" },
-            { name: "speed", value: 5, type: "number", scope: "this" },
-            { name: "frame", value: 0, type: "number", scope: "this" },
-            { name: "frame_count", value: 4, type: "number", scope: "this" },
-            { name: "animation_speed", value: 0.1, type: "number", scope: "this" },
-          ])
-
-          // Simulate profiler data collection
-          setTimeout(() => {
-            generateProfilerData()
-          }, 3000)
         } else {
           throw new Error("Canvas not available")
         }
@@ -384,48 +459,196 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
         ])
         setRunning(false)
         clearInterval(executionTimer)
-        clearInterval(memoryInterval)
       }
     }, 100) // Short delay to ensure canvas is rendered
   }
 
   // Stop the running code
   const stopCode = () => {
-    if (interpreterRef.current) {
-      interpreterRef.current.stopGame()
+    if (runtimeRef.current) {
+      runtimeRef.current.stop()
     }
 
     setRunning(false)
     setConsoleOutput((prev) => [...prev, { type: "info", message: "> Execution stopped by user" }])
   }
 
-  // Function to generate profiler data
-  const generateProfilerData = () => {
-    setProfilerData({
-      functions: [
-        { name: "step", executionTime: 0.4, calls: 60, percentage: 32 },
-        { name: "draw", executionTime: 0.3, calls: 60, percentage: 24 },
-        { name: "patrol_area", executionTime: 0.2, calls: 6, percentage: 16 },
-        { name: "wait", executionTime: 0.15, calls: 2, percentage: 12 },
-        { name: "create", executionTime: 0.1, calls: 1, percentage: 8 },
-        { name: "Others", executionTime: 0.1, calls: 20, percentage: 8 },
-      ],
-      memory: [
-        { category: "Game Objects", bytes: 54000, percentage: 32 },
-        { category: "Textures", bytes: 48000, percentage: 28 },
-        { category: "Audio", bytes: 34000, percentage: 20 },
-        { category: "Scripts", bytes: 17000, percentage: 10 },
-        { category: "Others", bytes: 17000, percentage: 10 },
-      ],
-      frames: Array(60)
-        .fill(0)
-        .map(() => 16 + Math.random() * 4), // Frame times around 16-20ms
-    })
+  const hasBreakpoint = (file: string, line: number) =>
+    breakpoints.some((breakpoint) => breakpoint.file === file && breakpoint.line === line)
+
+  // Toggle a breakpoint on a line of a file
+  const toggleBreakpoint = (file: string, line: number) => {
+    setBreakpoints((previous) =>
+      previous.some((breakpoint) => breakpoint.file === file && breakpoint.line === line)
+        ? previous.filter((breakpoint) => breakpoint.file !== file || breakpoint.line !== line)
+        : [...previous, { file, line }].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line),
+    )
+  }
+
+  // File position of a line of the running script
+  const toEditorLocation = (line: number) =>
+    sourceMapRef.current ? toSourceLocation(sourceMapRef.current, line) : null
+
+  // "file:line" of a line of the running script, for the debugger views
+  const describeScriptLine = (line: number) => {
+    const location = toEditorLocation(line)
+    return location ? `${location.file}:${location.line}` : `line ${line}`
+  }
+
+  // Open a file in the editor with the cursor at a location, e.g. of an error
+  const jumpToLocation = (location: SaaamSourceLocation) => {
+    setActiveTab("editor")
+    if (location.file !== currentFile && files.some((file) => file.name === location.file)) openFile(location.file)
+    setJumpTarget(location)
+  }
+
+  // The editor only shows the file after the tab and file switched, so move its cursor once it does
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!jumpTarget || activeTab !== "editor" || jumpTarget.file !== currentFile || !editor) return
+
+    const offset = getSourceOffset(code, jumpTarget.line, jumpTarget.column)
+    editor.focus()
+    editor.setSelectionRange(offset, offset)
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 16
+    editor.scrollTop = Math.max(0, (jumpTarget.line - 1) * lineHeight - editor.clientHeight / 2)
+    setJumpTarget(null)
+  }, [jumpTarget, activeTab, currentFile, code])
+
+  // Line of the editor's cursor
+  const getCursorLine = () => {
+    const position = editorRef.current?.selectionStart ?? 0
+    return code.slice(0, position).split("\n").length
+  }
+
+  // Show the locals of a call stack frame (only the paused one has them) and the globals in the inspector
+  const inspectFrame = (pause: SaaamDebugPause | null, index: number) => {
+    setSelectedFrame(index)
+    if (!pause) {
+      setVariableInspector([])
+      return
+    }
+
+    const locals = pause.callStack[index]?.locals ?? []
+    setVariableInspector([
+      ...locals.map((variable) => ({ ...variable, scope: "local", isConstant: variable.kind === "const" })),
+      ...pause.globals.map((variable) => ({ ...variable, scope: "global", isConstant: variable.kind === "const" })),
+    ])
   }
 
+  // Let the paused script go on
+  const debugCommand = (command: SaaamDebugCommand) => {
+    runtimeRef.current?.debugCommand(command)
+  }
+
+  // Swap the edited code into the running game without restarting it
+  const reloadCode = async () => {
+    if (!compilerRef.current || !runtimeRef.current || !running) return
+
+    const { code: script, map } = linkSaaamFiles(getProjectSources(), ENTRY_FILE)
+    const compileResult = compilerRef.current.compile(script)
+    if (!compileResult.success) {
+      reportDiagnostics(compileResult, map)
+      addMessage("> Hot reload skipped: the script does not compile", "warning")
+      return
+    }
+
+    if (await runtimeRef.current.hotReload(script, map)) {
+      sourceMapRef.current = map
+      applyBreakpoints()
+      addMessage("> Reloaded the running game", "success")
+    }
+  }
+
+  // Ctrl+S saves; with live coding on it also reloads the running game
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key !== "s") return
+      e.preventDefault()
+      if (liveCoding && running) reloadCode()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [code, liveCoding, running])
+
+  // Profile while the profiler or the debug overlay is shown
+  const profiling = showProfiler || debugMode
+  useEffect(() => {
+    runtimeRef.current?.setProfiling(profiling)
+    setSelectedProfileFrame(null)
+  }, [profiling])
+
+  // Fetch the capture once a second while the game runs
+  useEffect(() => {
+    if (!profiling || !running) return
+
+    const poll = setInterval(async () => {
+      const profile = await runtimeRef.current?.getProfile()
+      if (profile) setProfilerData(profile)
+    }, 1000)
+    return () => clearInterval(poll)
+  }, [profiling, running])
+
+  // Save the current capture as a JSON file
+  const exportProfile = async () => {
+    const profile = (await runtimeRef.current?.getProfile()) ?? profilerData
+    if (!profile) return
+
+    const blob = new Blob([serializeProfile(profile)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "saaam-profile.json"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // Flame chart bars for the spans of a frame, one row per call depth
+  const renderFlameSpans = (spans: SaaamProfileSpan[], frameDuration: number, depth = 0, path = ""): ReactElement[] =>
+    spans.flatMap((span, i) => [
+      <div
+        key={`${path}${i}`}
+        className="absolute h-4 overflow-hidden whitespace-nowrap text-[10px] leading-4 px-1 text-white border-r border-gray-900"
+        style={{
+          left: `${(span.start / frameDuration) * 100}%`,
+          width: `${Math.max((span.duration / frameDuration) * 100, 0.2)}%`,
+          top: depth * 18,
+          backgroundColor: PROFILE_COLORS[span.name.length % PROFILE_COLORS.length],
+        }}
+        title={`${span.name}: ${span.duration.toFixed(3)}ms, ${span.calls} call${span.calls === 1 ? "" : "s"}`}
+      >
+        {span.name}
+      </div>,
+      ...renderFlameSpans(span.children, frameDuration, depth + 1, `${path}${i}.`),
+    ])
+
+  const spanDepth = (spans: SaaamProfileSpan[]): number =>
+    spans.reduce((deepest, span) => Math.max(deepest, 1 + spanDepth(span.children)), 0)
+
+  // Summaries of the capture for the profiler view
+  const profileFrames = profilerData?.frames ?? []
+  const profileSelfTime = profilerData?.functions.reduce((total, func) => total + func.selfTime, 0) ?? 0
+  const slowestFrame = profileFrames.reduce<SaaamProfileFrame | null>(
+    (slowest, frame) => (!slowest || frame.duration > slowest.duration ? frame : slowest),
+    null,
+  )
+  const flameFrame = profileFrames.find((frame) => frame.frame === selectedProfileFrame) ?? slowestFrame
+  const frameTimeHistogram = FRAME_TIME_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: profileFrames.filter((frame) => frame.duration >= bucket.min && frame.duration < bucket.max).length,
+  }))
+  const lastProfileFrame = profileFrames[profileFrames.length - 1]
+
   // Add a message to the console
-  const addMessage = (text: string, type: "info" | "success" | "error" | "warning" = "info") => {
-    setConsoleOutput((prev) => [...prev, { type, message: text }])
+  const addMessage = (
+    text: string,
+    type: "info" | "success" | "error" | "warning" = "info",
+    location?: SaaamSourceLocation,
+  ) => {
+    setConsoleOutput((prev) => [...prev, { type, message: text, location }])
   }
 
   // AI suggestion handlers
@@ -467,34 +690,10 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
     setAiSuggestions((prev) => prev.filter((s) => s !== suggestion))
   }
 
-  // Simple code validation
+  // Code validation through the shared SAAAM parser
   const validateCode = (code: string) => {
-    const errors: string[] = []
-    const lines = code.split("\n")
-
-    // Check for basic syntax errors (very simplified)
-    lines.forEach((line, i) => {
-      // Check for missing semicolons on statements
-      if (
-        line.trim() &&
-        !line.trim().startsWith("//") &&
-        !line.includes("{") &&
-        !line.includes("}") &&
-        !line.endsWith(";") &&
-        !line.trim().endsWith(")")
-      ) {
-        errors.push(`Line ${i + 1}: Missing semicolon`)
-      }
-
-      // Check for mismatched parentheses
-      const openCount = (line.match(/\(/g) || []).length
-      const closeCount = (line.match(/\)/g) || []).length
-      if (openCount !== closeCount) {
-        errors.push(`Line ${i + 1}: Mismatched parentheses`)
-      }
-    })
-
-    return errors
+    if (!compilerRef.current) return []
+    return compilerRef.current.compile(code).errors || []
   }
 
   // Add a function to load example code
@@ -562,7 +761,25 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
                   <Bug size={14} /> <span className="hidden sm:inline ml-1">Debug</span>
                 </Button>
               </TooltipTrigger>
-              <TooltipContent>Toggle debugging mode</TooltipContent>
+              <TooltipContent>Toggle debugging mode: breakpoints stop the game while it is on</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLiveCoding(!liveCoding)}
+                  className={`flex items-center ${liveCoding ? "bg-yellow-600 hover:bg-yellow-700" : "bg-blue-600 hover:bg-blue-700"}`}
+                >
+                  <Zap size={14} /> <span className="hidden sm:inline ml-1">Live</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {liveCoding ? "Live coding on: Ctrl+S reloads the running game" : "Turn on live coding"}
+              </TooltipContent>
             </Tooltip>
           </TooltipProvider>
 
@@ -599,16 +816,37 @@ const EnhancedSaaamIDE = ({ initialCode, isMobile }: { initialCode?: string; isM
             </Tooltip>
           </TooltipProvider>
 
-          {!isMobile && currentBreakpoint !== null && (
-            <Button
-              variant="outline"
-              size="sm"
-              className="px-3 py-1 rounded flex items-center space-x-1 bg-yellow-500 hover:bg-yellow-600"
-              onClick={() => {}}
-            >
-              <RefreshCw size={14} /> <span>Step</span>
-            </Button>
-          )}
+          {!isMobile &&
+            debugPause &&
+            (
+              [
+                { command: "continue", label: "Continue", icon: <Play size={14} /> },
+                { command: "stepOver", label: "Step Over", icon: <Redo size={14} /> },
+                { command: "stepInto", label: "Step Into", icon: <ArrowDownToLine size={14} /> },
+                { command: "stepOut", label: "Step Out", icon: <ArrowUpFromLine size={14} /> },
+              ] as const
+            ).map(({ command, label, icon }) => (
+              <TooltipProvider key={command}>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="px-3 py-1 rounded flex items-center space-x-1 bg-yellow-500 hover:bg-yellow-600"
+                      disabled={command !== "continue" && !canStep}
+                      onClick={() => debugCommand(command)}
+                    >
+                      {icon} <span className="hidden lg:inline">{label}</span>
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {command === "continue" || canStep
+                      ? label
+                      : "Stepping needs a cross-origin isolated page; the game was paused after the frame instead"}
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            ))}
 
           <TooltipProvider>
             <Tooltip>
@@ -784,12 +1022,36 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                 />
               </div>
             ) : activeTab === "editor" ? (
-              <div className={`h-full overflow-auto ${theme === "dark" ? "bg-gray-900" : "bg-white"} p-2 relative`}>
+              <div
+                className={`h-full overflow-auto ${theme === "dark" ? "bg-gray-900" : "bg-white"} p-2 relative flex`}
+              >
+                {/* Line numbers; click one to toggle a breakpoint */}
+                <div
+                  ref={gutterRef}
+                  className="h-full overflow-hidden select-none font-mono text-xs leading-snug py-2 text-right"
+                >
+                  {code.split("\n").map((_, index) => (
+                    <div
+                      key={index}
+                      onClick={() => toggleBreakpoint(currentFile, index + 1)}
+                      className={`flex items-center justify-end space-x-1 pl-1 pr-2 cursor-pointer ${currentBreakpoint?.file === currentFile && currentBreakpoint.line === index + 1 ? "bg-yellow-900 bg-opacity-50 text-yellow-300" : "text-gray-500 hover:text-gray-300"}`}
+                    >
+                      <span
+                        className={`w-2 h-2 rounded-full ${hasBreakpoint(currentFile, index + 1) ? "bg-red-500" : ""}`}
+                      />
+                      <span>{index + 1}</span>
+                    </div>
+                  ))}
+                </div>
                 <textarea
                   ref={editorRef}
-                  className={`w-full h-full ${theme === "dark" ? "bg-gray-900 text-gray-100" : "bg-white text-gray-900"} font-mono text-xs leading-snug p-2 resize-none focus:outline-none`}
+                  className={`flex-1 h-full ${theme === "dark" ? "bg-gray-900 text-gray-100" : "bg-white text-gray-900"} font-mono text-xs leading-snug p-2 resize-none focus:outline-none`}
                   value={code}
                   onChange={(e) => updateFileContent(e.target.value)}
+                  onScroll={(e) => {
+                    if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop
+                  }}
+                  wrap="off"
                   spellCheck="false"
                 ></textarea>
 
@@ -861,40 +1123,55 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                   <div className="w-full h-full p-4 bg-gray-900 overflow-auto">
                     <div className="text-white text-center text-lg font-bold mb-4">Performance Profiler</div>
 
+                    <div className="flex justify-center items-center space-x-4 mb-4 text-sm text-gray-400">
+                      <span>
+                        {profileFrames.length > 0
+                          ? `${profileFrames.length} frames captured`
+                          : running
+                            ? "Capturing..."
+                            : "Run the game to capture a profile"}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={exportProfile}
+                        disabled={!profilerData}
+                        className="flex items-center bg-pink-600 hover:bg-pink-700 text-white"
+                      >
+                        <Download size={14} /> <span className="ml-1">Export JSON</span>
+                      </Button>
+                    </div>
+
                     {profilerData && (
                       <div className="space-y-6">
                         {/* Function performance breakdown */}
                         <div className="bg-gray-800 p-4 rounded-lg">
-                          <h3 className="text-yellow-400 font-bold mb-2">Function Execution Time</h3>
+                          <h3 className="text-yellow-400 font-bold mb-2">Function Execution Time (self)</h3>
                           <div className="h-6 bg-gray-700 rounded-full overflow-hidden mb-2">
-                            {profilerData.functions.map((func, i) => (
+                            {profilerData.functions.slice(0, 6).map((func, i) => (
                               <div
-                                key={i}
+                                key={func.name}
                                 className="h-full float-left"
                                 style={{
-                                  width: `${func.percentage}%`,
-                                  backgroundColor: ["#4C9AFF", "#FF5630", "#36B37E", "#FFAB00", "#6554C0", "#8993A4"][
-                                    i % 6
-                                  ],
+                                  width: `${profileSelfTime > 0 ? (func.selfTime / profileSelfTime) * 100 : 0}%`,
+                                  backgroundColor: PROFILE_COLORS[i % PROFILE_COLORS.length],
                                 }}
                               ></div>
                             ))}
                           </div>
                           <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                            {profilerData.functions.map((func, i) => (
-                              <div key={i} className="flex items-center">
+                            {profilerData.functions.slice(0, 6).map((func, i) => (
+                              <div key={func.name} className="flex items-center">
                                 <div
                                   className="w-3 h-3 rounded-full mr-2"
-                                  style={{
-                                    backgroundColor: ["#4C9AFF", "#FF5630", "#36B37E", "#FFAB00", "#6554C0", "#8993A4"][
-                                      i % 6
-                                    ],
-                                  }}
+                                  style={{ backgroundColor: PROFILE_COLORS[i % PROFILE_COLORS.length] }}
                                 ></div>
                                 <div>
                                   <div className="text-white text-sm">{func.name}</div>
                                   <div className="text-gray-400 text-xs">
-                                    {func.percentage}% ({func.executionTime.toFixed(1)}ms)
+                                    {profileSelfTime > 0 ? Math.round((func.selfTime / profileSelfTime) * 100) : 0}% (
+                                    {func.selfTime.toFixed(1)}ms self, {func.totalTime.toFixed(1)}ms total, {func.calls}{" "}
+                                    calls)
                                   </div>
                                 </div>
                               </div>
@@ -902,77 +1179,89 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                           </div>
                         </div>
 
-                        {/* Memory usage breakdown */}
-                        <div className="bg-gray-800 p-4 rounded-lg">
-                          <h3 className="text-yellow-400 font-bold mb-2">Memory Usage</h3>
-                          <div className="h-6 bg-gray-700 rounded-full overflow-hidden mb-2">
-                            {profilerData.memory.map((mem, i) => (
-                              <div
-                                key={i}
-                                className="h-full float-left"
-                                style={{
-                                  width: `${mem.percentage}%`,
-                                  backgroundColor: ["#36B37E", "#FFAB00", "#4C9AFF", "#6554C0", "#FF5630", "#8993A4"][
-                                    i % 6
-                                  ],
-                                }}
-                              ></div>
-                            ))}
-                          </div>
-                          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                            {profilerData.memory.map((mem, i) => (
-                              <div key={i} className="flex items-center">
-                                <div
-                                  className="w-3 h-3 rounded-full mr-2"
-                                  style={{
-                                    backgroundColor: ["#36B37E", "#FFAB00", "#4C9AFF", "#6554C0", "#FF5630", "#8993A4"][
-                                      i % 6
-                                    ],
-                                  }}
-                                ></div>
-                                <div>
-                                  <div className="text-white text-sm">{mem.category}</div>
-                                  <div className="text-gray-400 text-xs">
-                                    {(mem.bytes / 1024).toFixed(1)} KB ({mem.percentage}%)
-                                  </div>
-                                </div>
+                        {/* Flame chart of one frame */}
+                        {flameFrame && (
+                          <div className="bg-gray-800 p-4 rounded-lg">
+                            <h3 className="text-yellow-400 font-bold mb-2">
+                              Frame {flameFrame.frame} ({flameFrame.duration.toFixed(2)} ms
+                              {flameFrame === slowestFrame ? ", slowest captured" : ""})
+                            </h3>
+                            <div
+                              className="relative w-full bg-gray-900 rounded overflow-hidden"
+                              style={{ height: Math.max(1, spanDepth(flameFrame.spans)) * 18 }}
+                            >
+                              {renderFlameSpans(flameFrame.spans, flameFrame.duration || 1)}
+                            </div>
+                            <div className="flex justify-between text-gray-400 text-xs mt-2">
+                              <div>
+                                {flameFrame.steps} step{flameFrame.steps === 1 ? "" : "s"}, {flameFrame.drawCalls} draw
+                                calls, {flameFrame.objects} objects
                               </div>
-                            ))}
+                              <div>Click a frame below to show it</div>
+                            </div>
                           </div>
-                        </div>
+                        )}
 
                         {/* Frame time graph */}
                         <div className="bg-gray-800 p-4 rounded-lg">
                           <h3 className="text-yellow-400 font-bold mb-2">Frame Times (ms)</h3>
                           <div className="h-32 flex items-end space-x-1 overflow-x-auto">
-                            {profilerData.frames.map((frameTime, i) => (
+                            {profileFrames.slice(-60).map((frame) => (
                               <div
-                                key={i}
-                                className="w-2 bg-blue-500 flex-shrink-0"
+                                key={frame.frame}
+                                className={`w-2 flex-shrink-0 cursor-pointer ${frame === flameFrame ? "opacity-100" : "opacity-70 hover:opacity-100"}`}
                                 style={{
-                                  height: `${Math.min(100, frameTime * 5)}%`,
-                                  backgroundColor: frameTime > 16.7 ? "#FF5630" : "#36B37E",
+                                  height: `${Math.min(100, frame.duration * 5)}%`,
+                                  backgroundColor: frame.duration > 16.7 ? "#FF5630" : "#36B37E",
                                 }}
+                                title={`Frame ${frame.frame}: ${frame.duration.toFixed(2)}ms`}
+                                onClick={() => setSelectedProfileFrame(frame.frame)}
                               ></div>
                             ))}
                           </div>
                           <div className="flex justify-between text-gray-400 text-xs mt-1">
-                            <div>0 Frame</div>
-                            <div>30</div>
-                            <div>60 Frame</div>
+                            <div>{Math.min(60, profileFrames.length)} frames ago</div>
+                            <div>Now</div>
                           </div>
-                          <div className="mt-2 text-center text-sm">
-                            <span className="text-white">Average: </span>
-                            <span className="text-green-400">
-                              {(profilerData.frames.reduce((a, b) => a + b, 0) / profilerData.frames.length).toFixed(2)}{" "}
-                              ms
-                            </span>
-                            <span className="text-white ml-4">FPS: </span>
-                            <span className="text-green-400">
-                              {Math.round(
-                                1000 / (profilerData.frames.reduce((a, b) => a + b, 0) / profilerData.frames.length),
-                              )}
-                            </span>
+                          {profileFrames.length > 0 && (
+                            <div className="mt-2 text-center text-sm">
+                              <span className="text-white">Average: </span>
+                              <span className="text-green-400">
+                                {(
+                                  profileFrames.reduce((total, frame) => total + frame.duration, 0) /
+                                  profileFrames.length
+                                ).toFixed(2)}{" "}
+                                ms
+                              </span>
+                              <span className="text-white ml-4">FPS: </span>
+                              <span className="text-green-400">{Math.round(runtimeRef.current?.getFps() ?? 0)}</span>
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Frame time histogram */}
+                        <div className="bg-gray-800 p-4 rounded-lg">
+                          <h3 className="text-yellow-400 font-bold mb-2">Frame Time Histogram (ms)</h3>
+                          <div className="h-24 flex items-end space-x-2">
+                            {frameTimeHistogram.map((bucket) => (
+                              <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full">
+                                <div className="text-gray-400 text-xs">{bucket.count}</div>
+                                <div
+                                  className="w-full"
+                                  style={{
+                                    height: `${profileFrames.length > 0 ? (bucket.count / profileFrames.length) * 100 : 0}%`,
+                                    backgroundColor: bucket.min >= 16.7 ? "#FF5630" : "#36B37E",
+                                  }}
+                                ></div>
+                              </div>
+                            ))}
+                          </div>
+                          <div className="flex space-x-2 text-gray-400 text-xs mt-1">
+                            {frameTimeHistogram.map((bucket) => (
+                              <div key={bucket.label} className="flex-1 text-center">
+                                {bucket.label}
+                              </div>
+                            ))}
                           </div>
                         </div>
                       </div>
@@ -995,12 +1284,17 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                         }}
                       />
 
-                      {!running && (
+                      {(!running || debugPause) && (
                         <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
-                          {currentBreakpoint !== null ? (
+                          {debugPause ? (
                             <div className="text-center">
-                              <div className="text-xl text-yellow-400">Paused at Breakpoint</div>
-                              <div className="text-sm text-gray-400 mt-2">Press "Step" to continue</div>
+                              <div className="text-xl text-yellow-400">
+                                {debugPause.reason === "breakpoint" ? "Paused at Breakpoint" : "Paused"} (
+                                {describeScriptLine(debugPause.line)})
+                              </div>
+                              <div className="text-sm text-gray-400 mt-2">
+                                {canStep ? 'Press "Continue" or step' : 'Press "Continue" to go on'}
+                              </div>
                             </div>
                           ) : (
                             <div className="text-center">
@@ -1011,12 +1305,21 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                         </div>
                       )}
 
+                      {/* On-screen controls for touch devices */}
+                      {isMobile && running && (
+                        <VirtualDpad
+                          onKey={(keyCode, down) =>
+                            runtimeRef.current?.injectInput({ type: down ? "keydown" : "keyup", keyCode })
+                          }
+                        />
+                      )}
+
                       {/* Debug overlay */}
                       {debugMode && running && (
                         <div className="absolute top-0 left-0 bg-black bg-opacity-70 text-white p-2 text-xs font-mono">
-                          <div>FPS: {Math.round(1000 / (16 + Math.random() * 2))}</div>
-                          <div>Objects: 3</div>
-                          <div>Memory: {memoryUsage} MB</div>
+                          <div>FPS: {Math.round(runtimeRef.current?.getFps() ?? 0)}</div>
+                          <div>Objects: {lastProfileFrame?.objects ?? "-"}</div>
+                          <div>Draw calls: {lastProfileFrame?.drawCalls ?? "-"}</div>
                           <div>Execution: {executionTime.toFixed(1)}s</div>
                           {aiAnalysis && <div>AI Confidence: {Math.round(aiAnalysis.confidence * 100)}%</div>}
                         </div>
@@ -1105,7 +1408,9 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
               {consoleOutput.map((entry, index) => (
                 <div
                   key={index}
-                  className={`${
+                  onClick={entry.location ? () => jumpToLocation(entry.location!) : undefined}
+                  title={entry.location ? `Go to ${formatSourceLocation(entry.location)}` : undefined}
+                  className={`${entry.location ? "cursor-pointer hover:underline " : ""}${
                     entry.type === "error"
                       ? "text-red-400"
                       : entry.type === "success"
@@ -1193,23 +1498,59 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                         </div>
                         <button
                           className={`text-xs ${theme === "dark" ? "text-gray-400 hover:text-white" : "text-gray-600 hover:text-gray-900"}`}
+                          onClick={() => {
+                            const line = getCursorLine()
+                            if (!hasBreakpoint(currentFile, line)) toggleBreakpoint(currentFile, line)
+                          }}
                         >
                           + Add
                         </button>
                       </div>
                       <div className={`${theme === "dark" ? "bg-gray-900" : "bg-white"} rounded p-2 text-sm`}>
-                        <div
-                          className={`flex justify-between items-center p-1 ${currentBreakpoint === 42 ? "bg-yellow-900 bg-opacity-50" : theme === "dark" ? "hover:bg-gray-700" : "hover:bg-gray-300"} rounded`}
-                        >
-                          <span className="text-xs">Line 42 (Move right)</span>
-                          <button className="text-red-400 hover:text-red-300 text-xs">×</button>
-                        </div>
-                        <div
-                          className={`flex justify-between items-center p-1 ${currentBreakpoint === 51 ? "bg-yellow-900 bg-opacity-50" : theme === "dark" ? "hover:bg-gray-700" : "hover:bg-gray-300"} rounded`}
-                        >
-                          <span className="text-xs">Line 51 (Move left)</span>
-                          <button className="text-red-400 hover:text-red-300 text-xs">×</button>
-                        </div>
+                        {breakpoints.length === 0 && (
+                          <div className="text-xs text-gray-500 p-1">Click a line number in the editor to add one</div>
+                        )}
+                        {breakpoints.map(({ file, line }) => (
+                          <div
+                            key={`${file}:${line}`}
+                            className={`flex justify-between items-center p-1 ${currentBreakpoint?.file === file && currentBreakpoint.line === line ? "bg-yellow-900 bg-opacity-50" : theme === "dark" ? "hover:bg-gray-700" : "hover:bg-gray-300"} rounded`}
+                          >
+                            <span
+                              className="text-xs truncate cursor-pointer"
+                              onClick={() => jumpToLocation({ file, line, column: 1 })}
+                            >
+                              {file}:{line} ({getLineText(file, line).slice(0, 30) || "empty"})
+                            </span>
+                            <button
+                              className="text-red-400 hover:text-red-300 text-xs"
+                              onClick={() => toggleBreakpoint(file, line)}
+                            >
+                              ×
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {debugPause && (
+                    <div className="mb-4">
+                      <div
+                        className={`text-sm font-semibold ${theme === "dark" ? "text-gray-400" : "text-gray-600"} mb-2`}
+                      >
+                        CALL STACK
+                      </div>
+                      <div className={`${theme === "dark" ? "bg-gray-900" : "bg-white"} rounded p-2 text-sm`}>
+                        {debugPause.callStack.map((frame, i) => (
+                          <div
+                            key={i}
+                            className={`flex justify-between items-center p-1 cursor-pointer ${selectedFrame === i ? "bg-yellow-900 bg-opacity-50" : theme === "dark" ? "hover:bg-gray-700" : "hover:bg-gray-300"} rounded`}
+                            onClick={() => inspectFrame(debugPause, i)}
+                          >
+                            <span className="text-xs">{frame.name}</span>
+                            <span className="text-xs text-gray-400">{describeScriptLine(frame.line)}</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   )}
@@ -1223,13 +1564,20 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                       className={`${theme === "dark" ? "bg-gray-700" : "bg-gray-300"} px-2 py-1 text-sm font-medium flex justify-between items-center`}
                     >
                       <span>Runtime Values</span>
-                      <button
-                        className={`text-xs ${theme === "dark" ? "text-gray-300 hover:text-white" : "text-gray-600 hover:text-gray-900"}`}
-                      >
-                        Refresh
-                      </button>
                     </div>
                     <div className="max-h-64 overflow-y-auto">
+                      {variableInspector.length === 0 && (
+                        <div className="p-2 text-xs text-gray-500">
+                          {debugPause
+                            ? "No variables in this frame"
+                            : "Turn on debugging mode and stop at a breakpoint to see the script's variables"}
+                        </div>
+                      )}
+                      {debugPause && debugPause.callStack[selectedFrame]?.locals === null && (
+                        <div className="p-2 text-xs text-gray-500">
+                          Locals are only known for the frame the script is paused in
+                        </div>
+                      )}
                       {variableInspector.map((variable, i) => (
                         <div
                           key={i}
@@ -1243,21 +1591,11 @@ const ${asset.name.split(".")[0]} = SAAAM.load${asset.type.charAt(0).toUpperCase
                             <span className="text-xs text-gray-400">{variable.type}</span>
                           </div>
                           <div className="mt-1">
-                            {typeof variable.value === "object" ? (
-                              variable.type === "vec2" ? (
-                                <span className={`text-sm ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
-                                  ({variable.value.x.toFixed(1)}, {variable.value.y.toFixed(1)})
-                                </span>
-                              ) : (
-                                <span className={`text-sm ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
-                                  {JSON.stringify(variable.value)}
-                                </span>
-                              )
-                            ) : (
-                              <span className={`text-sm ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}>
-                                {String(variable.value)}
-                              </span>
-                            )}
+                            <span
+                              className={`text-sm break-all ${theme === "dark" ? "text-gray-300" : "text-gray-700"}`}
+                            >
+                              {variable.value}
+                            </span>
                           </div>
                           <div className="text-xs text-gray-500 mt-1">Scope: {variable.scope}</div>
                         </div>
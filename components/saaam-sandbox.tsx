@@ -4,7 +4,18 @@ import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { SaaamRuntime } from "@/lib/saaam-runtime"
+import { SaaamSandboxedRuntime } from "@/lib/saaam-sandboxed-runtime"
+import { parseReplay, serializeReplay, type SaaamReplay } from "@/lib/saaam-replay"
+import {
+  formatInputBinding,
+  parseInputBinding,
+  type SaaamInputBinding,
+  type SaaamInputBindings,
+  type SaaamReplayStatus,
+  type SaaamTimelineInfo,
+} from "@/lib/saaam-runtime"
+import { SaaamCompiler, type SaaamCompileResult } from "@/lib/saaam-compiler"
+import { getSourceOffset, type SaaamSourceLocation } from "@/lib/saaam-source-map"
 import {
   Play,
   Pause,
@@ -20,12 +31,23 @@ import {
   FileText,
   Maximize2,
   Minimize2,
+  Zap,
   ZapOff,
   BookOpen,
   Cpu,
   Gauge,
+  Gamepad2,
+  RotateCcw,
+  Smartphone,
+  SkipBack,
+  SkipForward,
+  Film,
+  FileDown,
+  FastForward,
 } from "lucide-react"
 import { useStudio } from "@/contexts/studio-context"
+import { useMobile } from "@/hooks/use-mobile"
+import VirtualDpad from "@/components/virtual-dpad"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -36,6 +58,7 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
 
 interface SaaamSandboxProps {
   initialCode?: string
@@ -56,12 +79,27 @@ const CODE_TEMPLATES = {
 // Local storage key
 const STORAGE_KEY = "saaam-sandbox-code"
 
+// An error in the logs tab; clicking one with a location puts the cursor there
+type SandboxError = {
+  message: string
+  location: SaaamSourceLocation | null
+}
+
+// Errors of a compile result, each at the position it was found at
+const getCompileErrors = (result: SaaamCompileResult): SandboxError[] =>
+  result.diagnostics
+    .filter((diagnostic) => diagnostic.severity === "error")
+    .map((diagnostic, index) => ({
+      message: result.errors?.[index] ?? diagnostic.message,
+      location: { file: "main.saaam", line: diagnostic.range.start.line, column: diagnostic.range.start.column },
+    }))
+
 export default function SaaamSandbox({
   initialCode = '// SAAAM Game Code\n\nSAAAM.registerCreate(create);\nSAAAM.registerStep(step);\nSAAAM.registerDraw(draw);\n\nlet player = {\n  x: 400,\n  y: 300,\n  width: 40,\n  height: 40,\n  speed: 200,\n  color: "#4488FF"\n};\n\nfunction create() {\n  console.log("Game created!");\n}\n\nfunction step(deltaTime) {\n  // Handle player input\n  if (SAAAM.keyboardCheck(SAAAM.vk.left)) {\n    player.x -= player.speed * deltaTime;\n  }\n  if (SAAAM.keyboardCheck(SAAAM.vk.right)) {\n    player.x += player.speed * deltaTime;\n  }\n  if (SAAAM.keyboardCheck(SAAAM.vk.up)) {\n    player.y -= player.speed * deltaTime;\n  }\n  if (SAAAM.keyboardCheck(SAAAM.vk.down)) {\n    player.y += player.speed * deltaTime;\n  }\n  \n  // Keep player within screen bounds\n  if (player.x < 0) player.x = 0;\n  if (player.x + player.width > 800) player.x = 800 - player.width;\n  if (player.y < 0) player.y = 0;\n  if (player.y + player.height > 600) player.y = 600 - player.height;\n}\n\nfunction draw(ctx) {\n  // Clear the screen\n  SAAAM.drawRectangle(0, 0, 800, 600, "#222222");\n  \n  // Draw the player\n  SAAAM.drawRectangle(player.x, player.y, player.width, player.height, player.color);\n}',
   width = 800,
   height = 600,
 }: SaaamSandboxProps) {
-  const { updateFile, getActiveFile } = useStudio()
+  const { updateFile, getActiveFile, projectSettings, updateProjectSettings, assets } = useStudio()
 
   // Try to load saved code from localStorage
   const getSavedCode = () => {
@@ -75,15 +113,26 @@ export default function SaaamSandbox({
   const [isPaused, setIsPaused] = useState(false)
   const [debugMode, setDebugMode] = useState(false)
   const [logs, setLogs] = useState<string[]>([])
-  const [errors, setErrors] = useState<string[]>([])
+  const [errors, setErrors] = useState<SandboxError[]>([])
   const [activeTab, setActiveTab] = useState("code")
+  // Where the editor should put its cursor once the code tab is showing
+  const [jumpTarget, setJumpTarget] = useState<SaaamSourceLocation | null>(null)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [fps, setFps] = useState(0)
   const [showFps, setShowFps] = useState(false)
   const [autoSaveEnabled, setAutoSaveEnabled] = useState(true)
+  // Saving while the game runs hot-reloads the script instead of leaving it for the next run
+  const [liveCoding, setLiveCoding] = useState(false)
+  const [definedActions, setDefinedActions] = useState<SaaamInputBindings>({})
+  const [timeline, setTimeline] = useState<SaaamTimelineInfo>({ length: 0, position: -1 })
+  // Progress of the replay being played back (kept after it ends, so divergence stays visible)
+  const [replayStatus, setReplayStatus] = useState<SaaamReplayStatus | null>(null)
+  const isMobile = useMobile()
+  const [showDpad, setShowDpad] = useState<boolean | null>(null)
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const runtimeRef = useRef<SaaamRuntime | null>(null)
+  const runtimeRef = useRef<SaaamSandboxedRuntime | null>(null)
+  const compilerRef = useRef<SaaamCompiler | null>(null)
   const editorRef = useRef<HTMLTextAreaElement>(null)
   const fullscreenContainerRef = useRef<HTMLDivElement>(null)
   const fpsIntervalRef = useRef<NodeJS.Timeout | null>(null)
@@ -99,20 +148,25 @@ export default function SaaamSandbox({
   useEffect(() => {
     if (!canvasRef.current) return
 
-    const runtime = new SaaamRuntime()
+    const runtime = new SaaamSandboxedRuntime()
       .initialize(canvasRef.current)
-      .onError((error) => {
-        setErrors((prev) => [...prev, error])
+      .onError((error, trace) => {
+        setErrors((prev) => [...prev, { message: error, location: trace[0] ?? null }])
       })
       .onLog((log) => {
         setLogs((prev) => [...prev, log])
       })
+      .onStop(() => {
+        setIsRunning(false)
+        setIsPaused(false)
+      })
 
     runtimeRef.current = runtime
+    compilerRef.current = new SaaamCompiler()
 
     return () => {
       if (runtimeRef.current) {
-        runtimeRef.current.stop()
+        runtimeRef.current.destroy()
       }
       if (fpsIntervalRef.current) {
         clearInterval(fpsIntervalRef.current)
@@ -120,6 +174,40 @@ export default function SaaamSandbox({
     }
   }, [])
 
+  // Keep the runtime's timestep mode in sync with the project settings
+  useEffect(() => {
+    if (!runtimeRef.current) return
+
+    runtimeRef.current.setOptions({
+      fixedTimestep: projectSettings.fixedTimestep,
+      tickRate: projectSettings.tickRate,
+      maxCatchUpSteps: projectSettings.maxCatchUpSteps,
+      inputBindings: projectSettings.inputBindings,
+      gamepadDeadZone: projectSettings.gamepadDeadZone,
+    })
+  }, [
+    projectSettings.fixedTimestep,
+    projectSettings.tickRate,
+    projectSettings.maxCatchUpSteps,
+    projectSettings.inputBindings,
+    projectSettings.gamepadDeadZone,
+  ])
+
+  // Send sprite and sound assets to the runtime; they are decoded before the next script starts
+  useEffect(() => {
+    runtimeRef.current
+      ?.setSprites(
+        assets
+          .filter((asset) => asset.type === "sprite")
+          .map((asset) => ({ id: asset.id, name: asset.name, url: asset.url, frameCount: asset.frames })),
+      )
+      .setSounds(
+        assets
+          .filter((asset) => asset.type === "sound")
+          .map((asset) => ({ id: asset.id, name: asset.name, url: asset.url })),
+      )
+  }, [assets])
+
   // Set up keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -160,7 +248,7 @@ export default function SaaamSandbox({
     return () => {
       window.removeEventListener("keydown", handleKeyDown)
     }
-  }, [isRunning])
+  }, [isRunning, code, liveCoding])
 
   // FPS counter
   useEffect(() => {
@@ -188,28 +276,102 @@ export default function SaaamSandbox({
     }
   }, [showFps, isRunning, isPaused])
 
-  // Run the code
-  const runCode = () => {
+  // Follow the recorded steps while paused, for the rewind bar
+  useEffect(() => {
+    if (!isRunning || !isPaused) return
+
+    const timelineInterval = setInterval(() => {
+      if (runtimeRef.current) {
+        setTimeline(runtimeRef.current.getTimeline())
+      }
+    }, 200)
+
+    return () => clearInterval(timelineInterval)
+  }, [isRunning, isPaused])
+
+  // Follow replay playback; the game pauses itself on the last recorded step
+  useEffect(() => {
+    if (!isRunning || !replayStatus?.playing) return
+
+    const replayInterval = setInterval(() => {
+      const status = runtimeRef.current?.getReplayStatus()
+      if (!status) return
+
+      setReplayStatus(status)
+      if (!status.playing) setIsPaused(true)
+    }, 200)
+
+    return () => clearInterval(replayInterval)
+  }, [isRunning, replayStatus?.playing])
+
+  // Run the code, optionally playing a replay back instead of taking live input
+  const runCode = async (replay: SaaamReplay | null = null) => {
     if (!runtimeRef.current) return
+    setReplayStatus(null)
 
     // Clear previous logs and errors
     setLogs([])
     setErrors([])
     runtimeRef.current.clearLogsAndErrors()
 
+    // Check the syntax before running anything
+    if (compilerRef.current) {
+      const compileResult = compilerRef.current.compile(code)
+      setLogs((compileResult.warnings || []).map((warning) => `[WARN] ${warning}`))
+      if (!compileResult.success) {
+        setErrors(getCompileErrors(compileResult))
+        setActiveTab("logs")
+        setIsRunning(false)
+        setIsPaused(false)
+        return
+      }
+    }
+
     // Execute the code
-    const success = runtimeRef.current.executeCode(code)
+    const success = await runtimeRef.current.executeCode(code, replay)
+    setDefinedActions(runtimeRef.current.getDefinedActions())
 
     if (success) {
       runtimeRef.current.start()
       setIsRunning(true)
       setIsPaused(false)
+      if (replay) {
+        setReplayStatus({
+          playing: true,
+          tick: 0,
+          length: replay.length,
+          speed: 1,
+          scriptChanged: false,
+          divergedAt: null,
+        })
+      }
     } else {
       setIsRunning(false)
       setIsPaused(false)
     }
   }
 
+  // Swap the edited code into the running game, keeping its objects and persistent values
+  const reloadCode = async () => {
+    if (!runtimeRef.current || !isRunning) return
+
+    if (compilerRef.current) {
+      const compileResult = compilerRef.current.compile(code)
+      if (!compileResult.success) {
+        setErrors((prev) => [...prev, ...getCompileErrors(compileResult)])
+        setActiveTab("logs")
+        return
+      }
+    }
+
+    if (await runtimeRef.current.hotReload(code)) {
+      setDefinedActions(runtimeRef.current.getDefinedActions())
+      setLogs((prev) => [...prev, "[INFO] Reloaded the running game"])
+    } else {
+      setActiveTab("logs")
+    }
+  }
+
   // Stop the code
   const stopCode = () => {
     if (!runtimeRef.current) return
@@ -227,6 +389,14 @@ export default function SaaamSandbox({
     setIsPaused(!isPaused)
   }
 
+  // Show a recorded step of the paused game; resuming continues from it
+  const rewindTo = (position: number) => {
+    if (!runtimeRef.current || !isPaused || position < 0 || position >= timeline.length) return
+
+    runtimeRef.current.rewindTo(position)
+    setTimeline({ ...timeline, position })
+  }
+
   // Toggle debug mode
   const toggleDebugMode = () => {
     if (!runtimeRef.current) return
@@ -235,7 +405,7 @@ export default function SaaamSandbox({
     setDebugMode(newDebugMode)
 
     if (runtimeRef.current) {
-      runtimeRef.current.sandboxEnv.SAAAM.setDebugMode(newDebugMode)
+      runtimeRef.current.setDebugMode(newDebugMode)
     }
   }
 
@@ -249,12 +419,42 @@ export default function SaaamSandbox({
     setShowFps(!showFps)
   }
 
+  // The virtual d-pad is shown on phones unless the user turned it off
+  const dpadVisible = showDpad ?? isMobile
+
+  // Feed virtual d-pad buttons into the same key state the keyboard drives
+  const handleDpadKey = (keyCode: number, down: boolean) => {
+    runtimeRef.current?.injectInput({ type: down ? "keydown" : "keyup", keyCode })
+  }
+
+  // Show the code tab with the cursor at a location, e.g. of an error
+  const jumpToLocation = (location: SaaamSourceLocation) => {
+    setJumpTarget(location)
+    setActiveTab("code")
+  }
+
+  // The editor only exists while the code tab is showing, so move its cursor once it is there
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!jumpTarget || activeTab !== "code" || !editor) return
+
+    const offset = getSourceOffset(code, jumpTarget.line, jumpTarget.column)
+    editor.focus()
+    editor.setSelectionRange(offset, offset)
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 20
+    editor.scrollTop = Math.max(0, (jumpTarget.line - 1) * lineHeight - editor.clientHeight / 2)
+    setJumpTarget(null)
+  }, [jumpTarget, activeTab, code])
+
   // Save code to active file
   const saveToActiveFile = () => {
     const activeFile = getActiveFile()
     if (activeFile) {
       updateFile(activeFile.id, code)
     }
+    if (liveCoding && isRunning) {
+      reloadCode()
+    }
   }
 
   // Download code as a file
@@ -286,7 +486,7 @@ export default function SaaamSandbox({
         setCode(content)
 
         // Add a small delay to ensure the code state is updated before running
-        setTimeout(() => {
+        setTimeout(async () => {
           // Stop any currently running code first
           if (isRunning && runtimeRef.current) {
             runtimeRef.current.stop()
@@ -297,7 +497,8 @@ export default function SaaamSandbox({
             setLogs([])
             setErrors([])
             runtimeRef.current.clearLogsAndErrors()
-            const success = runtimeRef.current.executeCode(content)
+            const success = await runtimeRef.current.executeCode(content)
+            setDefinedActions(runtimeRef.current.getDefinedActions())
             if (success) {
               runtimeRef.current.start()
               setIsRunning(true)
@@ -312,6 +513,61 @@ export default function SaaamSandbox({
     input.click()
   }
 
+  // Download the input recorded since the game started, to attach to a bug report
+  const downloadReplay = async () => {
+    const replay = await runtimeRef.current?.getReplay()
+    if (!replay) return
+
+    const blob = new Blob([serializeReplay(replay)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "saaam-replay.json"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // Restart the game and play a replay file back against the current code
+  const uploadReplay = () => {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = ".json"
+
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        try {
+          runCode(parseReplay(e.target?.result as string))
+        } catch (error) {
+          setErrors([
+            {
+              message: `Failed to load replay: ${error instanceof Error ? error.message : String(error)}`,
+              location: null,
+            },
+          ])
+          setActiveTab("logs")
+        }
+      }
+      reader.readAsText(file)
+    }
+
+    input.click()
+  }
+
+  // Switch replay playback between normal speed and fast-forward
+  const toggleReplaySpeed = () => {
+    if (!runtimeRef.current || !replayStatus?.playing) return
+
+    const speed = replayStatus.speed === 1 ? 8 : 1
+    runtimeRef.current.setReplaySpeed(speed)
+    setReplayStatus({ ...replayStatus, speed })
+  }
+
   // Clear the code
   const clearCode = () => {
     if (confirm("Are you sure you want to clear the code?")) {
@@ -341,7 +597,7 @@ export default function SaaamSandbox({
     setCode(CODE_TEMPLATES[templateKey])
 
     // Run the template code automatically
-    setTimeout(() => {
+    setTimeout(async () => {
       if (isRunning && runtimeRef.current) {
         runtimeRef.current.stop()
       }
@@ -350,7 +606,8 @@ export default function SaaamSandbox({
         setLogs([])
         setErrors([])
         runtimeRef.current.clearLogsAndErrors()
-        const success = runtimeRef.current.executeCode(CODE_TEMPLATES[templateKey])
+        const success = await runtimeRef.current.executeCode(CODE_TEMPLATES[templateKey])
+        setDefinedActions(runtimeRef.current.getDefinedActions())
         if (success) {
           runtimeRef.current.start()
           setIsRunning(true)
@@ -360,6 +617,22 @@ export default function SaaamSandbox({
     }, 100)
   }
 
+  // Remap an action from the controls tab; an empty list goes back to the script's defaults
+  const updateActionBindings = (action: string, text: string) => {
+    const bindings = text
+      .split(",")
+      .filter((part) => part.trim() !== "")
+      .map(parseInputBinding)
+      .filter((binding): binding is SaaamInputBinding => binding !== null)
+
+    const { [action]: _previous, ...inputBindings } = projectSettings.inputBindings
+    updateProjectSettings({
+      inputBindings: bindings.length > 0 ? { ...inputBindings, [action]: bindings } : inputBindings,
+    })
+  }
+
+  const actionNames = [...new Set([...Object.keys(definedActions), ...Object.keys(projectSettings.inputBindings)])]
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex justify-between items-center p-2 bg-gray-900 border-b border-gray-700">
@@ -379,7 +652,7 @@ export default function SaaamSandbox({
                 <Button
                   variant={isRunning ? "destructive" : "default"}
                   size="sm"
-                  onClick={isRunning ? stopCode : runCode}
+                  onClick={isRunning ? stopCode : () => runCode()}
                   className="h-8 px-3"
                 >
                   {isRunning ? "Stop" : "Run"}
@@ -453,6 +726,10 @@ export default function SaaamSandbox({
                 <FileText className="h-4 w-4 mr-2" />
                 Logs
               </TabsTrigger>
+              <TabsTrigger value="controls" className="flex-1">
+                <Gamepad2 className="h-4 w-4 mr-2" />
+                Controls
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="code" className="flex-1 p-0 m-0 overflow-hidden flex flex-col">
@@ -541,6 +818,24 @@ export default function SaaamSandbox({
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLiveCoding(!liveCoding)}
+                          className={`h-7 w-7 p-0 ${liveCoding ? "bg-blue-900/30" : ""}`}
+                        >
+                          <Zap className="h-4 w-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>{liveCoding ? "Live coding: saving reloads the running game" : "Live coding disabled"}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                 </div>
               </div>
               <textarea
@@ -575,11 +870,22 @@ export default function SaaamSandbox({
                 {errors.length > 0 && (
                   <div className="mb-4">
                     <h3 className="text-red-500 font-bold mb-1">Errors:</h3>
-                    {errors.map((error, index) => (
-                      <div key={`error-${index}`} className="text-red-400 font-mono text-sm mb-1">
-                        {error}
-                      </div>
-                    ))}
+                    {errors.map((error, index) =>
+                      error.location ? (
+                        <button
+                          key={`error-${index}`}
+                          className="block w-full text-left text-red-400 font-mono text-sm mb-1 hover:underline"
+                          onClick={() => jumpToLocation(error.location!)}
+                          title={`Go to line ${error.location.line}`}
+                        >
+                          {error.message}
+                        </button>
+                      ) : (
+                        <div key={`error-${index}`} className="text-red-400 font-mono text-sm mb-1">
+                          {error.message}
+                        </div>
+                      ),
+                    )}
                   </div>
                 )}
                 {logs.map((log, index) => (
@@ -589,6 +895,64 @@ export default function SaaamSandbox({
                 ))}
               </div>
             </TabsContent>
+
+            <TabsContent value="controls" className="flex-1 p-0 m-0 overflow-hidden flex flex-col">
+              <div className="flex justify-between items-center p-2 bg-gray-800 border-b border-gray-700">
+                <span className="text-sm text-gray-400">Input Bindings</span>
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  Dead zone
+                  <Input
+                    type="number"
+                    min={0}
+                    max={0.9}
+                    step={0.05}
+                    value={projectSettings.gamepadDeadZone}
+                    onChange={(e) => updateProjectSettings({ gamepadDeadZone: Number(e.target.value) })}
+                    className="h-7 w-20"
+                  />
+                </div>
+              </div>
+              <div className="flex-1 p-2 overflow-auto bg-gray-900">
+                {actionNames.length === 0 ? (
+                  <p className="text-sm text-gray-400">
+                    Actions defined with SAAAM.defineAction appear here after the game runs.
+                  </p>
+                ) : (
+                  actionNames.map((action) => {
+                    const remapped = action in projectSettings.inputBindings
+                    const bindings = (projectSettings.inputBindings[action] ?? definedActions[action] ?? [])
+                      .map(formatInputBinding)
+                      .join(", ")
+
+                    return (
+                      <div key={action} className="flex items-center gap-2 mb-2">
+                        <span className="w-32 font-mono text-sm text-white truncate">{action}</span>
+                        <Input
+                          key={bindings}
+                          defaultValue={bindings}
+                          onBlur={(e) => updateActionBindings(action, e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                          className="h-8 flex-1 font-mono text-sm"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!remapped}
+                          onClick={() => updateActionBindings(action, "")}
+                          className="h-7 w-7 p-0"
+                          title="Reset to the script's bindings"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )
+                  })
+                )}
+                <p className="text-xs text-gray-500 mt-4">
+                  Separate bindings with commas: key names (space, left, a), key codes, mouse:0, pad:A or pad:LX-.
+                </p>
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -599,7 +963,7 @@ export default function SaaamSandbox({
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
-                    <Button variant="ghost" size="sm" onClick={runCode} className="h-7 w-7 p-0">
+                    <Button variant="ghost" size="sm" onClick={() => runCode()} className="h-7 w-7 p-0">
                       <RefreshCw className="h-4 w-4" />
                     </Button>
                   </TooltipTrigger>
@@ -609,6 +973,52 @@ export default function SaaamSandbox({
                 </Tooltip>
               </TooltipProvider>
 
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="ghost" size="sm" onClick={downloadReplay} className="h-7 w-7 p-0">
+                      <FileDown className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Download replay of this run</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="ghost" size="sm" onClick={uploadReplay} className="h-7 w-7 p-0">
+                      <Film className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Play a replay file</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+
+              {replayStatus?.playing && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={toggleReplaySpeed}
+                        className={`h-7 w-7 p-0 ${replayStatus.speed > 1 ? "bg-blue-900/30" : ""}`}
+                      >
+                        <FastForward className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{replayStatus.speed > 1 ? "Play replay at normal speed" : "Fast-forward replay"}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -645,6 +1055,24 @@ export default function SaaamSandbox({
                 </Tooltip>
               </TooltipProvider>
 
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowDpad(!dpadVisible)}
+                      className={`h-7 w-7 p-0 ${dpadVisible ? "bg-blue-900/30" : ""}`}
+                    >
+                      <Smartphone className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Toggle on-screen controls</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -659,10 +1087,77 @@ export default function SaaamSandbox({
               </TooltipProvider>
             </div>
           </div>
-          <div className="flex-1 flex items-center justify-center bg-gray-950 overflow-auto p-4">
-            <Card className={`shadow-xl ${isFullscreen ? "scale-100" : ""}`}>
+          <div className="flex-1 flex flex-col items-center justify-center bg-gray-950 overflow-auto p-4">
+            <Card className={`shadow-xl relative ${isFullscreen ? "scale-100" : ""}`}>
               <canvas ref={canvasRef} width={width} height={height} className="bg-black" />
+              {dpadVisible && isRunning && <VirtualDpad onKey={handleDpadKey} />}
             </Card>
+            {replayStatus && (
+              <div className="mt-3 text-xs text-gray-400">
+                {replayStatus.playing
+                  ? `Replay: step ${replayStatus.tick} of ${replayStatus.length}`
+                  : "Replay finished"}
+                {replayStatus.scriptChanged && (
+                  <span className="ml-2 text-yellow-400">The script changed since this replay was recorded</span>
+                )}
+                {replayStatus.divergedAt !== null && (
+                  <span className="ml-2 text-red-400">Diverged at step {replayStatus.divergedAt}</span>
+                )}
+              </div>
+            )}
+            {isRunning && isPaused && timeline.length > 0 && (
+              <div className="flex items-center gap-2 mt-3 w-full max-w-md text-xs text-gray-400">
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => rewindTo(timeline.position - 1)}
+                        disabled={timeline.position <= 0}
+                        className="h-7 w-7 p-0"
+                      >
+                        <SkipBack className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Step back</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <input
+                  type="range"
+                  min={0}
+                  max={timeline.length - 1}
+                  value={timeline.position}
+                  onChange={(e) => rewindTo(Number(e.target.value))}
+                  className="flex-1 accent-blue-500"
+                />
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => rewindTo(timeline.position + 1)}
+                        disabled={timeline.position >= timeline.length - 1}
+                        className="h-7 w-7 p-0"
+                      >
+                        <SkipForward className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Step forward</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+                <span className="w-24 text-right">
+                  {timeline.position === timeline.length - 1
+                    ? "Latest step"
+                    : `${timeline.length - 1 - timeline.position} steps back`}
+                </span>
+              </div>
+            )}
           </div>
         </div>
       </div>
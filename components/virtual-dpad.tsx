@@ -0,0 +1,87 @@
+"use client"
+
+import { useRef, type ReactNode } from "react"
+import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight } from "lucide-react"
+import { SAAAM_KEY_CODES } from "@/lib/saaam-runtime"
+
+interface VirtualDpadProps {
+  // Called when a pad button goes down or up; feed this into the runtime's key state
+  onKey: (keyCode: number, down: boolean) => void
+  buttons?: Array<{ label: string; keyCode: number }>
+}
+
+const DEFAULT_BUTTONS = [
+  { label: "A", keyCode: SAAAM_KEY_CODES.space },
+  { label: "B", keyCode: SAAAM_KEY_CODES.enter },
+]
+
+interface PadButtonProps {
+  keyCode: number
+  onKey: (keyCode: number, down: boolean) => void
+  className: string
+  children: ReactNode
+}
+
+function PadButton({ keyCode, onKey, className, children }: PadButtonProps) {
+  const held = useRef(false)
+
+  const setHeld = (down: boolean) => {
+    if (held.current === down) return
+    held.current = down
+    onKey(keyCode, down)
+  }
+
+  return (
+    <button
+      type="button"
+      className={`pointer-events-auto flex items-center justify-center bg-white/20 active:bg-white/40 text-white touch-none select-none ${className}`}
+      onPointerDown={(e) => {
+        e.preventDefault()
+        // Keep receiving this finger's events even if it slides off the button
+        e.currentTarget.setPointerCapture(e.pointerId)
+        setHeld(true)
+      }}
+      onPointerUp={() => setHeld(false)}
+      onPointerCancel={() => setHeld(false)}
+      onLostPointerCapture={() => setHeld(false)}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {children}
+    </button>
+  )
+}
+
+// On-screen d-pad and action buttons for playing on touch devices
+export default function VirtualDpad({ onKey, buttons = DEFAULT_BUTTONS }: VirtualDpadProps) {
+  return (
+    <div className="absolute inset-x-0 bottom-0 flex justify-between items-end p-4 pointer-events-none">
+      <div className="grid grid-cols-3 grid-rows-3 gap-1 w-36 h-36">
+        <PadButton keyCode={SAAAM_KEY_CODES.up} onKey={onKey} className="col-start-2 row-start-1 rounded-t-md">
+          <ChevronUp className="h-6 w-6" />
+        </PadButton>
+        <PadButton keyCode={SAAAM_KEY_CODES.left} onKey={onKey} className="col-start-1 row-start-2 rounded-l-md">
+          <ChevronLeft className="h-6 w-6" />
+        </PadButton>
+        <PadButton keyCode={SAAAM_KEY_CODES.right} onKey={onKey} className="col-start-3 row-start-2 rounded-r-md">
+          <ChevronRight className="h-6 w-6" />
+        </PadButton>
+        <PadButton keyCode={SAAAM_KEY_CODES.down} onKey={onKey} className="col-start-2 row-start-3 rounded-b-md">
+          <ChevronDown className="h-6 w-6" />
+        </PadButton>
+      </div>
+
+      <div className="flex gap-3">
+        {buttons.map((button) => (
+          <PadButton
+            key={button.label}
+            keyCode={button.keyCode}
+            onKey={onKey}
+            className="w-14 h-14 rounded-full font-bold"
+          >
+            {button.label}
+          </PadButton>
+        ))}
+      </div>
+    </div>
+  )
+}
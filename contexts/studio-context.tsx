@@ -1,6 +1,8 @@
 "use client"
 
-import { createContext, useContext, useState, type ReactNode } from "react"
+import { createContext, useContext, useMemo, useState, type ReactNode } from "react"
+import { SaaamCompiler } from "@/lib/saaam-compiler"
+import type { SaaamInputBindings } from "@/lib/saaam-runtime"
 
 // Define the CodeAnalysisResult type
 export interface CodeAnalysisResult {
@@ -8,6 +10,9 @@ export interface CodeAnalysisResult {
     type: "error" | "warning" | "info"
     message: string
     line?: number
+    column?: number
+    endLine?: number
+    endColumn?: number
   }>
   suggestions: Array<{
     message: string
@@ -56,8 +61,8 @@ interface StudioContextType {
   gameVariables: Record<string, any>
 
   // Asset management
-  assets: Array<{ id: string; name: string; type: string; url: string }>
-  addAsset: (name: string, type: string, url: string) => void
+  assets: Array<{ id: string; name: string; type: string; url: string; frames?: number }>
+  addAsset: (name: string, type: string, url: string, frames?: number) => string
   deleteAsset: (assetId: string) => void
 
   // Project settings
@@ -66,6 +71,13 @@ interface StudioContextType {
     width: number
     height: number
     backgroundColor: string
+    // Deterministic fixed-timestep simulation (see SaaamRuntimeOptions)
+    fixedTimestep: boolean
+    tickRate: number
+    maxCatchUpSteps: number
+    // Player control remapping per action name (see SAAAM.defineAction)
+    inputBindings: SaaamInputBindings
+    gamepadDeadZone: number
   }
   updateProjectSettings: (settings: Partial<StudioContextType["projectSettings"]>) => void
 
@@ -77,7 +89,7 @@ interface StudioContextType {
   project: {
     name: string
     files: Array<{ id: string; name: string; content: string; type: string; path: string }>
-    assets: Array<{ id: string; name: string; type: string; url: string }>
+    assets: Array<{ id: string; name: string; type: string; url: string; frames?: number }>
     entities: any[]
     activeFile: string | null
     activeEntity: any | null
@@ -129,6 +141,9 @@ function draw(ctx) {
   // Runtime state
   const [isRunning, setIsRunning] = useState<boolean>(false)
 
+  // Shared parser/compiler for compilation and code analysis
+  const compiler = useMemo(() => new SaaamCompiler(), [])
+
   // Console output
   const [consoleOutput, setConsoleOutput] = useState<Array<{ type: string; message: string; timestamp: Date }>>([])
 
@@ -137,13 +152,15 @@ function draw(ctx) {
   const [gameVariables, setGameVariables] = useState<Record<string, any>>({})
 
   // Asset management
-  const [assets, setAssets] = useState<Array<{ id: string; name: string; type: string; url: string }>>([
-    { id: "asset1", name: "player.png", type: "sprite", url: "/placeholder.svg?height=64&width=64" },
-    { id: "asset2", name: "enemy.png", type: "sprite", url: "/placeholder.svg?height=64&width=64" },
-    { id: "asset3", name: "coin.png", type: "sprite", url: "/placeholder.svg?height=64&width=64" },
-    { id: "asset4", name: "jump.mp3", type: "sound", url: "#" },
-    { id: "asset5", name: "background.mp3", type: "sound", url: "#" },
-  ])
+  const [assets, setAssets] = useState<Array<{ id: string; name: string; type: string; url: string; frames?: number }>>(
+    [
+      { id: "asset1", name: "player.png", type: "sprite", url: "/placeholder.svg?height=64&width=64" },
+      { id: "asset2", name: "enemy.png", type: "sprite", url: "/placeholder.svg?height=64&width=64" },
+      { id: "asset3", name: "coin.png", type: "sprite", url: "/placeholder.svg?height=64&width=64" },
+      { id: "asset4", name: "jump.mp3", type: "sound", url: "#" },
+      { id: "asset5", name: "background.mp3", type: "sound", url: "#" },
+    ],
+  )
 
   // Project settings
   const [projectSettings, setProjectSettings] = useState({
@@ -151,6 +168,11 @@ function draw(ctx) {
     width: 800,
     height: 600,
     backgroundColor: "#222222",
+    fixedTimestep: false,
+    tickRate: 60,
+    maxCatchUpSteps: 5,
+    inputBindings: {} as SaaamInputBindings,
+    gamepadDeadZone: 0.2,
   })
 
   // Get the active file content
@@ -226,7 +248,8 @@ function draw(ctx) {
 
   // Compile code
   const compileCode = (code: string) => {
-    return { success: true, errors: [], warnings: [] }
+    const { success, errors, warnings } = compiler.compile(code)
+    return { success, errors, warnings }
   }
 
   // Clear console
@@ -240,15 +263,17 @@ function draw(ctx) {
   }
 
   // Add an asset
-  const addAsset = (name: string, type: string, url: string) => {
+  const addAsset = (name: string, type: string, url: string, frames?: number) => {
     const newAsset = {
-      id: `asset_${Date.now()}`,
+      id: `asset_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
       name,
       type,
       url,
+      frames,
     }
 
     setAssets((prev) => [...prev, newAsset])
+    return newAsset.id
   }
 
   // Delete an asset
@@ -269,6 +294,49 @@ function draw(ctx) {
         const entities: CodeAnalysisResult["entities"] = []
         const functions: CodeAnalysisResult["functions"] = []
 
+        const { ast, diagnostics } = compiler.compile(code)
+
+        // Syntax diagnostics
+        diagnostics.forEach((diagnostic) => {
+          issues.push({
+            type: diagnostic.severity,
+            message: diagnostic.message,
+            line: diagnostic.range.start.line,
+            column: diagnostic.range.start.column,
+            endLine: diagnostic.range.end.line,
+            endColumn: diagnostic.range.end.column,
+          })
+        })
+
+        // Top-level structure
+        ast.body.forEach((statement) => {
+          if (statement.type === "FunctionDeclaration") {
+            functions.push({
+              name: statement.id.name,
+              params: statement.params.map((param) => code.slice(param.range.start.offset, param.range.end.offset)),
+              line: statement.range.start.line,
+            })
+          } else if (statement.type === "VariableDeclaration") {
+            statement.declarations.forEach((declaration) => {
+              if (declaration.id.type !== "Identifier") return
+              const init = declaration.init
+              if (init && (init.type === "ArrowFunctionExpression" || init.type === "FunctionExpression")) {
+                functions.push({
+                  name: declaration.id.name,
+                  params: init.params.map((param) => code.slice(param.range.start.offset, param.range.end.offset)),
+                  line: declaration.range.start.line,
+                })
+              } else if (init && (init.type === "ObjectExpression" || init.type === "ArrayExpression")) {
+                entities.push({
+                  name: declaration.id.name,
+                  type: init.type === "ObjectExpression" ? "object" : "array",
+                  line: declaration.range.start.line,
+                })
+              }
+            })
+          }
+        })
+
         resolve({ issues, suggestions, entities, functions })
       }, 500)
     })
@@ -3,6 +3,8 @@
  * A data-oriented approach to game object management
  */
 
+import { SaaamSpatialHash } from "./saaam-collision"
+
 /**
  * Component Pool for efficient component memory management
  */
@@ -12,6 +14,8 @@ class ComponentPool {
   pool: any[]
   nextId: number
   activeCount: number
+  template: any
+  byEntity: Map<number, any>
 
   /**
    * Create a new component pool
@@ -20,10 +24,12 @@ class ComponentPool {
    */
   constructor(componentClass: any, initialSize = 100) {
     this.componentClass = componentClass
-    this.componentName = componentClass.name
+    this.componentName = getComponentName(componentClass)
     this.pool = []
     this.nextId = 0
     this.activeCount = 0
+    this.template = new componentClass() // Never handed out; tells the fields of the type from typos
+    this.byEntity = new Map() // First active component of each entity, so lookups need not scan the pool
 
     // Initialize pool with instances
     this._expandPool(initialSize)
@@ -58,6 +64,10 @@ class ComponentPool {
       component.initialize()
     }
 
+    if (!this.byEntity.has(component.entityId)) {
+      this.byEntity.set(component.entityId, component)
+    }
+
     this.activeCount++
     return component
   }
@@ -88,6 +98,15 @@ class ComponentPool {
     }
 
     this.activeCount--
+
+    // Another component of the same entity takes its place in the index
+    if (this.byEntity.get(component.entityId) === component) {
+      this.byEntity.delete(component.entityId)
+      const next = this.getAllByEntity(component.entityId)[0]
+      if (next) {
+        this.byEntity.set(component.entityId, next)
+      }
+    }
   }
 
   /**
@@ -104,12 +123,7 @@ class ComponentPool {
    * @returns {Object|null} Component or null if not found
    */
   getByEntity(entityId: number) {
-    for (let i = 0; i < this.activeCount; i++) {
-      if (this.pool[i].entityId === entityId) {
-        return this.pool[i]
-      }
-    }
-    return null
+    return this.byEntity.get(entityId) || null
   }
 
   /**
@@ -151,6 +165,119 @@ class ComponentPool {
       component._active = false
     }
     this.activeCount = 0
+    this.byEntity.clear()
+  }
+}
+
+/**
+ * Component types a query selects entities by
+ */
+type QueryFilter = {
+  // Entities must have every one of these
+  with?: ComponentType[]
+  // ... and none of these
+  without?: ComponentType[]
+  // ... and one of these must have been added or marked changed since the query was last read
+  changed?: ComponentType[]
+}
+
+/**
+ * The entities that have exactly the same component types, and the queries that match them
+ */
+type Archetype = {
+  key: string
+  componentNames: Set<string>
+  entities: Set<number>
+  queries: Query[]
+}
+
+/**
+ * Query
+ * The entities matching a filter, kept up to date as entities move between archetypes
+ */
+class Query {
+  entityManager: EntityManager
+  withNames: string[]
+  withoutNames: string[]
+  changedTypes: ComponentType[]
+  entities: Set<number>
+  lastRead: number
+  _list: number[] | null
+
+  /**
+   * Create a query; use EntityManager.createQuery so it gets registered
+   * @param {EntityManager} entityManager - Entity manager whose entities are queried
+   * @param {Object} filter - Component types to select entities by
+   */
+  constructor(entityManager: EntityManager, filter: QueryFilter) {
+    this.entityManager = entityManager
+    this.changedTypes = filter.changed || []
+    // Changed components must be there in the first place
+    this.withNames = [...(filter.with || []), ...this.changedTypes].map(getComponentName)
+    this.withoutNames = (filter.without || []).map(getComponentName)
+    this.entities = new Set() // Matching entities, whether changed or not
+    this.lastRead = 0 // Change tick of the last read
+    this._list = null // Matching entities as an array, until they change
+  }
+
+  /**
+   * Check if an archetype's entities match the filter's component types
+   * @param {Archetype} archetype - Archetype
+   * @returns {boolean} True if they match
+   */
+  matches(archetype: Archetype) {
+    return (
+      this.withNames.every((name) => archetype.componentNames.has(name)) &&
+      !this.withoutNames.some((name) => archetype.componentNames.has(name))
+    )
+  }
+
+  /**
+   * Get the matching entities. With a changed filter, only those changed since the last call are returned.
+   * The array may be shared with later calls and must not be modified
+   * @returns {Array} Entity IDs
+   */
+  getEntities() {
+    if (!this._list) {
+      this._list = [...this.entities]
+    }
+    if (this.changedTypes.length === 0) {
+      return this._list
+    }
+
+    const changed = new Set<number>()
+    for (const componentType of this.changedTypes) {
+      const pool = this.entityManager.componentPools.get(getComponentName(componentType))
+      if (!pool) continue
+
+      for (let i = 0; i < pool.activeCount; i++) {
+        const component = pool.pool[i]
+        if (component._version > this.lastRead && this.entities.has(component.entityId)) {
+          changed.add(component.entityId)
+        }
+      }
+    }
+    this.lastRead = this.entityManager.changeTick
+
+    return [...changed]
+  }
+
+  /**
+   * Add an entity that moved into a matching archetype
+   * @private
+   */
+  _add(entityId: number) {
+    this.entities.add(entityId)
+    this._list = null
+  }
+
+  /**
+   * Remove an entity that left the matching archetypes
+   * @private
+   */
+  _remove(entityId: number) {
+    this.entities.delete(entityId)
+    this._list = null
   }
 }
 
@@ -165,6 +292,11 @@ class EntityManager {
   entityComponents: Map<number, number[]>
   tags: Map<string, Set<number>>
   componentTypes: Set<any>
+  archetypes: Map<string, Archetype>
+  entityArchetypes: Map<number, Archetype>
+  queries: Query[]
+  queryCache: Map<string, Query>
+  changeTick: number
 
   /**
    * Create a new entity manager
@@ -176,6 +308,11 @@ class EntityManager {
     this.entityComponents = new Map() // Maps entity ID to array of component IDs
     this.tags = new Map() // Maps tag to set of entity IDs
     this.componentTypes = new Set() // Set of registered component types
+    this.archetypes = new Map() // Maps sorted component names to archetype
+    this.entityArchetypes = new Map() // Maps entity ID to its archetype
+    this.queries = [] // Every query kept up to date
+    this.queryCache = new Map() // Maps filter key to the query shared by callers of query()
+    this.changeTick = 0 // Incremented whenever a component is added or marked changed
   }
 
   /**
@@ -183,12 +320,20 @@ class EntityManager {
    * @param {Function} componentClass - Component constructor
    * @param {number} initialPoolSize - Initial pool size
    */
-  registerComponent(componentClass: any, initialPoolSize = 100) {
-    const name = componentClass.name
+  registerComponent(componentClass: ComponentType, initialPoolSize = 100) {
+    const name = getComponentName(componentClass)
 
-    if (!this.componentPools.has(name)) {
+    // A class name can change when the code is minified, so saved worlds could not find the type again
+    if (componentClass.schema && !componentClass.componentName) {
+      throw new Error(`Component type ${name} has a schema but no componentName to save it by`)
+    }
+
+    const pool = this.componentPools.get(name)
+    if (!pool) {
       this.componentPools.set(name, new ComponentPool(componentClass, initialPoolSize))
       this.componentTypes.add(componentClass)
+    } else if (pool.componentClass !== componentClass) {
+      throw new Error(`Two component types are named ${name}`)
     }
   }
 
@@ -208,6 +353,7 @@ class EntityManager {
     })
 
     this.entityComponents.set(entityId, [])
+    this._moveToArchetype(entityId, this._getArchetype(new Set()))
 
     // Add tags
     for (const tag of tags) {
@@ -244,6 +390,7 @@ class EntityManager {
     }
 
     // Remove entity
+    this._moveToArchetype(entityId, null)
     this.entities.delete(entityId)
     this.entityComponents.delete(entityId)
 
@@ -254,35 +401,51 @@ class EntityManager {
    * Add a component to an entity
    * @param {number} entityId - Entity ID
    * @param {Function} componentType - Component type
-   * @param {Object} componentData - Component initialization data
+   * @param {Object} componentData - Component initialization data, checked against the type's schema
    * @returns {Object} Component instance
    */
-  addComponent(entityId: number, componentType: any, componentData = {}) {
+  addComponent<T extends Component>(
+    entityId: number,
+    componentType: ComponentType<T>,
+    componentData: Partial<T> = {},
+  ): T {
     // Check if entity exists
     if (!this.entities.has(entityId)) {
       throw new Error(`Entity ${entityId} does not exist`)
     }
 
-    const componentName = componentType.name
+    const componentName = getComponentName(componentType)
 
-    // Register component type if not registered
-    if (!this.componentPools.has(componentName)) {
-      this.registerComponent(componentType)
-    }
+    // Register component type if not registered, and make sure no other type has its name
+    this.registerComponent(componentType)
 
     // Get pool
     const pool = this.componentPools.get(componentName)!
 
+    // Check the data before anything changes
+    const errors = validateComponentData(componentType, componentData, pool.template)
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${componentName} data: ${errors.join(", ")}`)
+    }
+
     // Create component
     const component = pool.create({
       ...componentData,
       entityId,
     })
 
+    component._version = ++this.changeTick
+
     // Add to entity components
     const components = this.entityComponents.get(entityId)!
     components.push(component._id)
 
+    // Move to the archetype with this type as well, unless the entity already had one
+    const archetype = this.entityArchetypes.get(entityId)!
+    if (!archetype.componentNames.has(componentName)) {
+      this._moveToArchetype(entityId, this._getArchetype(new Set([...archetype.componentNames, componentName])))
+    }
+
     return component
   }
 
@@ -292,13 +455,13 @@ class EntityManager {
    * @param {Function} componentType - Component type
    * @returns {boolean} True if component was removed
    */
-  removeComponent(entityId: number, componentType: any) {
+  removeComponent(entityId: number, componentType: ComponentType) {
     // Check if entity exists
     if (!this.entities.has(entityId)) {
       return false
     }
 
-    const componentName = componentType.name
+    const componentName = getComponentName(componentType)
 
     // Check if component type is registered
     if (!this.componentPools.has(componentName)) {
@@ -324,6 +487,13 @@ class EntityManager {
       components.splice(index, 1)
     }
 
+    // Move to the archetype without this type, unless the entity has another one
+    if (!pool.getByEntity(entityId)) {
+      const names = new Set(this.entityArchetypes.get(entityId)!.componentNames)
+      names.delete(componentName)
+      this._moveToArchetype(entityId, this._getArchetype(names))
+    }
+
     return true
   }
 
@@ -333,13 +503,13 @@ class EntityManager {
    * @param {Function} componentType - Component type
    * @returns {Object|null} Component instance or null if not found
    */
-  getComponent(entityId: number, componentType: any) {
+  getComponent<T extends Component>(entityId: number, componentType: ComponentType<T>): T | null {
     // Check if entity exists
     if (!this.entities.has(entityId)) {
       return null
     }
 
-    const componentName = componentType.name
+    const componentName = getComponentName(componentType)
 
     // Check if component type is registered
     if (!this.componentPools.has(componentName)) {
@@ -376,33 +546,31 @@ class EntityManager {
   }
 
   /**
-   * Get all entities with a component
+   * Get every active component of a type by entity, in one pass over its pool
    * @param {Function} componentType - Component type
-   * @returns {Array} Entity IDs
+   * @returns {Map} Component instances by entity ID
    */
-  getEntitiesWithComponent(componentType: any) {
-    const componentName = componentType.name
-
-    // Check if component type is registered
-    if (!this.componentPools.has(componentName)) {
-      return []
+  getComponentMap<T extends Component>(componentType: ComponentType<T>) {
+    const components = new Map<number, T>()
+    const pool = this.componentPools.get(getComponentName(componentType))
+    if (!pool) {
+      return components
     }
 
-    // Get pool
-    const pool = this.componentPools.get(componentName)!
-
-    // Get all active components
-    const components = pool.getActive()
-
-    // Get unique entity IDs
-    const entityIds = new Set<number>()
-    for (const component of components) {
-      if (component.entityId) {
-        entityIds.add(component.entityId)
-      }
+    for (let i = 0; i < pool.activeCount; i++) {
+      components.set(pool.pool[i].entityId, pool.pool[i])
     }
 
-    return [...entityIds]
+    return components
+  }
+
+  /**
+   * Get all entities with a component
+   * @param {Function} componentType - Component type
+   * @returns {Array} Entity IDs
+   */
+  getEntitiesWithComponent(componentType: ComponentType) {
+    return [...this.query({ with: [componentType] }).getEntities()]
   }
 
   /**
@@ -410,25 +578,77 @@ class EntityManager {
    * @param {Array<Function>} componentTypes - Component types
    * @returns {Array} Entity IDs
    */
-  getEntitiesWithComponents(componentTypes: any[]) {
-    if (componentTypes.length === 0) {
-      return Array.from(this.entities.keys())
+  getEntitiesWithComponents(componentTypes: ComponentType[]) {
+    return [...this.query({ with: componentTypes }).getEntities()]
+  }
+
+  /**
+   * Get a registered component type by name
+   * @param {string} name - Component name
+   * @returns {Function|null} Component type or null if not registered
+   */
+  getComponentType(name: string): ComponentType | null {
+    const pool = this.componentPools.get(name)
+    return pool ? pool.componentClass : null
+  }
+
+  /**
+   * Create a query of its own, e.g. for a system that reads only changed components
+   * @param {Object} filter - Component types to select entities by
+   * @returns {Query} Query, kept up to date until destroyQuery
+   */
+  createQuery(filter: QueryFilter) {
+    const query = new Query(this, filter)
+    this.queries.push(query)
+
+    for (const archetype of this.archetypes.values()) {
+      if (query.matches(archetype)) {
+        archetype.queries.push(query)
+        for (const entityId of archetype.entities) {
+          query._add(entityId)
+        }
+      }
     }
 
-    // Start with first component type
-    const firstType = componentTypes[0]
-    let entityIds = this.getEntitiesWithComponent(firstType)
+    return query
+  }
 
-    // Filter by remaining types
-    for (let i = 1; i < componentTypes.length; i++) {
-      const componentType = componentTypes[i]
-      const requiredEntities = this.getEntitiesWithComponent(componentType)
+  /**
+   * Stop keeping a query up to date
+   * @param {Query} query - Query from createQuery
+   */
+  destroyQuery(query: Query) {
+    this.queries = this.queries.filter((other) => other !== query)
+    for (const archetype of this.archetypes.values()) {
+      archetype.queries = archetype.queries.filter((other) => other !== query)
+    }
+  }
 
-      // Filter to only entities that have all required components
-      entityIds = entityIds.filter((id) => requiredEntities.includes(id))
+  /**
+   * Get the query for a filter shared by every caller asking for the same one. With a changed filter, callers
+   * see each change only once between them; use createQuery to see them all
+   * @param {Object} filter - Component types to select entities by
+   * @returns {Query} Query
+   */
+  query(filter: QueryFilter) {
+    const names = (types: ComponentType[] = []) => types.map(getComponentName).sort().join(",")
+    const key = `${names(filter.with)}|${names(filter.without)}|${names(filter.changed)}`
+
+    let query = this.queryCache.get(key)
+    if (!query) {
+      query = this.createQuery(filter)
+      this.queryCache.set(key, query)
     }
 
-    return entityIds
+    return query
+  }
+
+  /**
+   * Mark a component as changed, for queries with a changed filter
+   * @param {Component} component - Component instance
+   */
+  markChanged(component: Component) {
+    component._version = ++this.changeTick
   }
 
   /**
@@ -517,6 +737,63 @@ class EntityManager {
     this.entities.clear()
     this.entityComponents.clear()
     this.tags.clear()
+
+    // Archetypes and queries stay, without entities
+    for (const archetype of this.archetypes.values()) {
+      archetype.entities.clear()
+    }
+    for (const query of this.queries) {
+      query.entities.clear()
+      query._list = null
+    }
+    this.entityArchetypes.clear()
+  }
+
+  /**
+   * Get the archetype for a set of component names, creating it if needed
+   * @private
+   */
+  _getArchetype(componentNames: Set<string>) {
+    const key = [...componentNames].sort().join(",")
+
+    let archetype = this.archetypes.get(key)
+    if (!archetype) {
+      archetype = { key, componentNames, entities: new Set(), queries: [] }
+      archetype.queries = this.queries.filter((query) => query.matches(archetype!))
+      this.archetypes.set(key, archetype)
+    }
+
+    return archetype
+  }
+
+  /**
+   * Move an entity to another archetype (or out of all of them), updating the queries that match only one
+   * @private
+   */
+  _moveToArchetype(entityId: number, archetype: Archetype | null) {
+    const previous = this.entityArchetypes.get(entityId) || null
+    if (previous === archetype) return
+
+    if (previous) {
+      previous.entities.delete(entityId)
+      for (const query of previous.queries) {
+        if (!archetype || !archetype.queries.includes(query)) {
+          query._remove(entityId)
+        }
+      }
+    }
+
+    if (archetype) {
+      archetype.entities.add(entityId)
+      for (const query of archetype.queries) {
+        if (!previous || !previous.queries.includes(query)) {
+          query._add(entityId)
+        }
+      }
+      this.entityArchetypes.set(entityId, archetype)
+    } else {
+      this.entityArchetypes.delete(entityId)
+    }
   }
 }
 
@@ -528,8 +805,8 @@ class System {
   world: World
   priority: number
   enabled: boolean
-  requiredComponents: any[]
-  excludedComponents: any[]
+  requiredComponents: ComponentType[]
+  excludedComponents: ComponentType[]
 
   /**
    * Create a new system
@@ -552,20 +829,12 @@ class System {
 
   /**
    * Get entities that match this system's requirements
-   * @returns {Array} Entity IDs
+   * @returns {Array} Entity IDs, not to be modified
    */
   getMatchingEntities() {
-    let entities = this.world.entityManager.getEntitiesWithComponents(this.requiredComponents)
-
-    // Filter out entities with excluded components
-    if (this.excludedComponents.length > 0) {
-      for (const excludedType of this.excludedComponents) {
-        const excludedEntities = this.world.entityManager.getEntitiesWithComponent(excludedType)
-        entities = entities.filter((id) => !excludedEntities.includes(id))
-      }
-    }
-
-    return entities
+    return this.world.entityManager
+      .query({ with: this.requiredComponents, without: this.excludedComponents })
+      .getEntities()
   }
 
   /**
@@ -584,6 +853,50 @@ class System {
   }
 }
 
+/**
+ * Collision between two entities' colliders
+ */
+type CollisionEvent = {
+  entityA: number
+  entityB: number
+  // Either collider is a trigger: the pair reports overlaps but is not pushed apart
+  isTrigger: boolean
+  // World time the pair started touching
+  time: number
+}
+
+/**
+ * Events dispatched by the World, by type
+ */
+type WorldEvents = {
+  collisionEnter: CollisionEvent
+  collisionStay: CollisionEvent
+  collisionExit: CollisionEvent
+}
+
+type WorldEventHandler<K extends keyof WorldEvents> = (event: WorldEvents[K]) => void
+
+// Component methods called for events about their entity
+const COMPONENT_EVENT_HANDLERS = {
+  collisionEnter: "onCollisionEnter",
+  collisionStay: "onCollisionStay",
+  collisionExit: "onCollisionExit",
+} as const
+
+/**
+ * A world saved by World.serialize
+ */
+type SerializedWorld = {
+  version: 1
+  entities: Array<{
+    id: number
+    name: string
+    tags: string[]
+    // Fields of each component that has a schema, by component name
+    components: Record<string, Record<string, any>>
+  }>
+}
+
 /**
  * ECS World
  * Container for all entities, components, and systems
@@ -594,6 +907,8 @@ class World {
   initialized: boolean
   time: number
   deltaTime: number
+  listeners: Map<keyof WorldEvents, Set<(event: any) => void>>
+  eventQueue: Array<{ type: keyof WorldEvents; event: any }>
 
   /**
    * Create a new ECS world
@@ -604,6 +919,8 @@ class World {
     this.initialized = false
     this.time = 0
     this.deltaTime = 0
+    this.listeners = new Map() // Maps event type to handlers
+    this.eventQueue = [] // Events emitted during the current update
   }
 
   /**
@@ -641,7 +958,7 @@ class World {
    * @param {Function} componentType - Component constructor
    * @param {number} initialPoolSize - Initial pool size
    */
-  registerComponent(componentType: any, initialPoolSize = 100) {
+  registerComponent(componentType: ComponentType, initialPoolSize = 100) {
     this.entityManager.registerComponent(componentType, initialPoolSize)
   }
 
@@ -660,6 +977,107 @@ class World {
         system.update(deltaTime)
       }
     }
+
+    // Deliver events once every system is done, so handlers can destroy entities safely
+    this.dispatchEvents()
+  }
+
+  /**
+   * Listen for an event
+   * @param {string} type - Event type
+   * @param {Function} handler - Called with the event
+   * @returns {Function} Removes the handler again
+   */
+  on<K extends keyof WorldEvents>(type: K, handler: WorldEventHandler<K>) {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    this.listeners.get(type)!.add(handler)
+
+    return () => this.off(type, handler)
+  }
+
+  /**
+   * Stop listening for an event
+   * @param {string} type - Event type
+   * @param {Function} handler - Handler passed to on
+   */
+  off<K extends keyof WorldEvents>(type: K, handler: WorldEventHandler<K>) {
+    this.listeners.get(type)?.delete(handler)
+  }
+
+  /**
+   * Queue an event; it is delivered at the end of the current update
+   * @param {string} type - Event type
+   * @param {Object} event - Event data
+   */
+  emit<K extends keyof WorldEvents>(type: K, event: WorldEvents[K]) {
+    this.eventQueue.push({ type, event })
+  }
+
+  /**
+   * Deliver queued events to the components of the entities involved, then to listeners
+   */
+  dispatchEvents() {
+    // Events emitted by handlers are delivered in the same pass
+    while (this.eventQueue.length > 0) {
+      const queue = this.eventQueue
+      this.eventQueue = []
+      const handlers = this._getComponentHandlers()
+
+      for (const { type, event } of queue) {
+        this._notifyComponents(handlers, type, event)
+
+        for (const handler of [...(this.listeners.get(type) || [])]) {
+          handler(event)
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the components that override an event handler method, by entity
+   * @private
+   */
+  _getComponentHandlers() {
+    const handlers = new Map<number, any[]>()
+    const methods = Object.values(COMPONENT_EVENT_HANDLERS)
+
+    // One pass over the pools, so each event is a map lookup instead of a search of every pool
+    for (const pool of this.entityManager.componentPools.values()) {
+      for (let i = 0; i < pool.activeCount; i++) {
+        const component = pool.pool[i]
+        if (!methods.some((method) => component[method] !== Component.prototype[method])) continue
+
+        if (!handlers.has(component.entityId)) {
+          handlers.set(component.entityId, [])
+        }
+        handlers.get(component.entityId)!.push(component)
+      }
+    }
+
+    return handlers
+  }
+
+  /**
+   * Call the event's handler method on the components of both entities
+   * @private
+   */
+  _notifyComponents(handlers: Map<number, any[]>, type: keyof WorldEvents, event: CollisionEvent) {
+    const method = COMPONENT_EVENT_HANDLERS[type]
+    const pairs = [
+      [event.entityA, event.entityB],
+      [event.entityB, event.entityA],
+    ]
+
+    for (const [entityId, otherId] of pairs) {
+      for (const component of handlers.get(entityId) || []) {
+        // An earlier handler may have destroyed the entity
+        if (component._active && component.entityId === entityId) {
+          component[method](otherId, event)
+        }
+      }
+    }
   }
 
   /**
@@ -687,7 +1105,7 @@ class World {
    * @param {Object} componentData - Component initialization data
    * @returns {Object} Component instance
    */
-  addComponent(entityId: number, componentType: any, componentData = {}) {
+  addComponent<T extends Component>(entityId: number, componentType: ComponentType<T>, componentData: Partial<T> = {}) {
     return this.entityManager.addComponent(entityId, componentType, componentData)
   }
 
@@ -697,7 +1115,7 @@ class World {
    * @param {Function} componentType - Component type
    * @returns {Object|null} Component instance or null if not found
    */
-  getComponent(entityId: number, componentType: any) {
+  getComponent<T extends Component>(entityId: number, componentType: ComponentType<T>) {
     return this.entityManager.getComponent(entityId, componentType)
   }
 
@@ -706,15 +1124,125 @@ class World {
    * @param {Function} componentType - Component type
    * @returns {Array} Entity IDs
    */
-  getEntitiesWithComponent(componentType: any) {
+  getEntitiesWithComponent(componentType: ComponentType) {
     return this.entityManager.getEntitiesWithComponent(componentType)
   }
 
+  /**
+   * Create a query of its own
+   * @param {Object} filter - Component types to select entities by
+   * @returns {Query} Query
+   */
+  createQuery(filter: QueryFilter) {
+    return this.entityManager.createQuery(filter)
+  }
+
+  /**
+   * Mark a component as changed, for queries with a changed filter
+   * @param {Component} component - Component instance
+   */
+  markChanged(component: Component) {
+    this.entityManager.markChanged(component)
+  }
+
+  /**
+   * Save every entity with the fields of its components that have a schema
+   * @returns {Object} Serialized world, see serializeWorld to turn it into JSON
+   */
+  serialize(): SerializedWorld {
+    const tags = new Map<number, string[]>()
+    for (const [tag, entityIds] of this.entityManager.tags) {
+      for (const entityId of entityIds) {
+        tags.set(entityId, [...(tags.get(entityId) || []), tag])
+      }
+    }
+
+    const components = new Map<number, Record<string, Record<string, any>>>()
+    for (const pool of this.entityManager.componentPools.values()) {
+      const schema: ComponentSchema | undefined = pool.componentClass.schema
+      if (!schema) continue
+
+      for (let i = 0; i < pool.activeCount; i++) {
+        const component = pool.pool[i]
+        const fields: Record<string, any> = {}
+        for (const [key, field] of Object.entries(schema)) {
+          fields[key] = cloneFieldValue(field, component[key])
+        }
+
+        if (!components.has(component.entityId)) {
+          components.set(component.entityId, {})
+        }
+        components.get(component.entityId)![pool.componentName] = fields
+      }
+    }
+
+    const entities = []
+    for (const [entityId, entity] of this.entityManager.entities) {
+      entities.push({
+        id: entityId,
+        name: entity.name,
+        tags: tags.get(entityId) || [],
+        components: components.get(entityId) || {},
+      })
+    }
+
+    return { version: 1, entities }
+  }
+
+  /**
+   * Add the entities of a serialized world. They get new IDs; entity fields are changed to match, and ones
+   * pointing at entities that were not saved are cleared
+   * @param {Object} data - Serialized world
+   * @returns {Map} New entity IDs by saved ID
+   */
+  deserialize(data: SerializedWorld) {
+    // Check every component before creating anything, so a bad file does not leave half an entity behind
+    const additions: Array<{ entityId: number; componentType: ComponentType; values: Record<string, any> }> = []
+    for (const entity of data.entities) {
+      for (const [name, fields] of Object.entries(entity.components)) {
+        const componentType = this.entityManager.getComponentType(name)
+        if (!componentType || !componentType.schema) {
+          throw new Error(`Unknown component type ${name}`)
+        }
+
+        const values: Record<string, any> = {}
+        for (const [key, field] of Object.entries(componentType.schema)) {
+          if (key in fields) {
+            values[key] = cloneFieldValue(field, fields[key])
+          }
+        }
+        const errors = validateComponentData(componentType, values)
+        if (errors.length > 0) {
+          throw new Error(`Invalid ${name} data for entity ${entity.id}: ${errors.join(", ")}`)
+        }
+
+        additions.push({ entityId: entity.id, componentType, values })
+      }
+    }
+
+    const entityIds = new Map<number, number>()
+    for (const entity of data.entities) {
+      entityIds.set(entity.id, this.createEntity(entity.name, entity.tags))
+    }
+
+    for (const { entityId, componentType, values } of additions) {
+      for (const [key, field] of Object.entries(componentType.schema!)) {
+        if (field.type === "entity" && key in values) {
+          values[key] = entityIds.get(values[key]) || 0
+        }
+      }
+      this.addComponent(entityIds.get(entityId)!, componentType, values)
+    }
+
+    return entityIds
+  }
+
   /**
    * Clear the world (remove all entities and components)
    */
   clear() {
     this.entityManager.clear()
+    this.eventQueue = []
   }
 
   /**
@@ -731,20 +1259,46 @@ class World {
     // Clear entity manager
     this.entityManager.clear()
 
+    this.listeners.clear()
+    this.eventQueue = []
     this.systems = []
     this.initialized = false
   }
 }
 
+/**
+ * Turn a world into JSON
+ * @param {World} world - ECS world
+ * @returns {string} JSON
+ */
+function serializeWorld(world: World) {
+  return JSON.stringify(world.serialize())
+}
+
+/**
+ * Read a world written by serializeWorld
+ * @param {string} json - JSON
+ * @returns {Object} Serialized world, to pass to World.deserialize
+ */
+function parseWorld(json: string): SerializedWorld {
+  const data = JSON.parse(json)
+  if (data?.version !== 1 || !Array.isArray(data.entities)) {
+    throw new Error("Not a serialized ECS world")
+  }
+  return data
+}
+
 // Base Component class
 class Component {
   _id: number
   _active: boolean
+  _version: number
   entityId: number
 
   constructor() {
     this._id = 0 // Unique component ID
     this._active = false // Whether component is active
+    this._version = 0 // Change tick of when it was added or last marked changed
     this.entityId = 0 // Entity this component belongs to
   }
 
@@ -768,17 +1322,272 @@ class Component {
   onDestroy() {
     // Override in subclasses
   }
-}
 
-// Example components
+  /**
+   * Called after the systems' update when this entity starts touching another one
+   * @param {number} otherId - Entity ID of the other entity
+   * @param {CollisionEvent} event - Collision event
+   */
+  onCollisionEnter(otherId: number, event: CollisionEvent) {
+    // Override in subclasses
+  }
 
-/**
- * Transform component
- */
-class TransformComponent extends Component {
-  position: { x: number; y: number; z: number }
-  rotation: { x: number; y: number; z: number }
-  scale: { x: number; y: number; z: number }
+  /**
+   * Called after every update in which this entity keeps touching another one
+   * @param {number} otherId - Entity ID of the other entity
+   * @param {CollisionEvent} event - Collision event
+   */
+  onCollisionStay(otherId: number, event: CollisionEvent) {
+    // Override in subclasses
+  }
+
+  /**
+   * Called after the update in which this entity stopped touching another one (or one of them was destroyed)
+   * @param {number} otherId - Entity ID of the other entity
+   * @param {CollisionEvent} event - Collision event
+   */
+  onCollisionExit(otherId: number, event: CollisionEvent) {
+    // Override in subclasses
+  }
+}
+
+// Component schemas
+
+type Vector3 = { x: number; y: number; z: number }
+
+// Channels from 0 to 1
+type Color = { r: number; g: number; b: number; a: number }
+
+/**
+ * A field of a component schema. Fields without a default start at zero, false, "", white or the first option
+ */
+type FieldSchema =
+  | { type: "number"; default?: number; min?: number; max?: number; integer?: boolean }
+  | { type: "boolean"; default?: boolean }
+  | { type: "string"; default?: string }
+  | { type: "vec2"; default?: Vector2 }
+  | { type: "vec3"; default?: Vector3 }
+  | { type: "color"; default?: Color }
+  // ID of another entity, 0 for none
+  | { type: "entity"; default?: number }
+  | { type: "enum"; options: readonly string[]; default?: string }
+  // A list of points, e.g. the corners of a polygon
+  | { type: "points"; default?: Vector2[] }
+
+/**
+ * Fields of a component type by name; they drive validation, serialization and the property inspector
+ */
+type ComponentSchema = Record<string, FieldSchema>
+
+type FieldValues = {
+  number: number
+  boolean: boolean
+  string: string
+  vec2: Vector2
+  vec3: Vector3
+  color: Color
+  entity: number
+  points: Vector2[]
+}
+
+type FieldValue<F extends FieldSchema> = F extends { type: "enum"; options: readonly (infer O)[] }
+  ? O
+  : F["type"] extends keyof FieldValues
+    ? FieldValues[F["type"]]
+    : never
+
+/**
+ * Values of a component with a schema
+ */
+type SchemaValues<S extends ComponentSchema> = { -readonly [K in keyof S]: FieldValue<S[K]> }
+
+/**
+ * A component class; `schema` describes the fields it is saved and edited with
+ */
+type ComponentType<T extends Component = Component> = {
+  new (): T
+  name: string
+  // Name pools and saved worlds know the type by, which minifying the code does not change. Required with a schema
+  componentName?: string
+  schema?: ComponentSchema
+}
+
+/**
+ * Get the name a component type is registered and saved under
+ * @param {Function} componentType - Component type
+ * @returns {string} Its componentName, or the class name for types that are never saved
+ */
+function getComponentName(componentType: ComponentType) {
+  return componentType.componentName || componentType.name
+}
+
+/**
+ * Copy a value of a field, so components never share objects with defaults, saved data or each other
+ * @param {FieldSchema} field - Field schema
+ * @param {any} value - Value
+ * @returns {any} Copy
+ */
+function cloneFieldValue(field: FieldSchema, value: any): any {
+  switch (field.type) {
+    case "vec2":
+    case "vec3":
+    case "color":
+      return value && typeof value === "object" ? { ...value } : value
+    case "points":
+      return Array.isArray(value) ? value.map((point) => ({ ...point })) : value
+    default:
+      return value
+  }
+}
+
+/**
+ * Get the value a field starts with
+ * @param {FieldSchema} field - Field schema
+ * @returns {any} A copy of the default
+ */
+function getFieldDefault(field: FieldSchema): any {
+  if (field.default !== undefined) {
+    return cloneFieldValue(field, field.default)
+  }
+
+  switch (field.type) {
+    case "number":
+    case "entity":
+      return 0
+    case "boolean":
+      return false
+    case "string":
+      return ""
+    case "vec2":
+      return { x: 0, y: 0 }
+    case "vec3":
+      return { x: 0, y: 0, z: 0 }
+    case "color":
+      return { r: 1, g: 1, b: 1, a: 1 }
+    case "enum":
+      return field.options[0]
+    case "points":
+      return []
+  }
+}
+
+/**
+ * Check a value against a field's schema
+ * @param {FieldSchema} field - Field schema
+ * @param {any} value - Value
+ * @returns {string|null} What is wrong with the value, or null if it is valid
+ */
+function validateField(field: FieldSchema, value: any): string | null {
+  const isNumber = (n: any) => typeof n === "number" && Number.isFinite(n)
+
+  switch (field.type) {
+    case "number":
+      if (!isNumber(value)) return "must be a number"
+      if (field.integer && !Number.isInteger(value)) return "must be a whole number"
+      if (field.min !== undefined && value < field.min) return `must be at least ${field.min}`
+      if (field.max !== undefined && value > field.max) return `must be at most ${field.max}`
+      return null
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false"
+    case "string":
+      return typeof value === "string" ? null : "must be a string"
+    case "vec2":
+      return isNumber(value?.x) && isNumber(value?.y) ? null : "must be a vector { x, y }"
+    case "vec3":
+      return isNumber(value?.x) && isNumber(value?.y) && isNumber(value?.z) ? null : "must be a vector { x, y, z }"
+    case "color":
+      return ["r", "g", "b", "a"].every(
+        (channel) => isNumber(value?.[channel]) && value[channel] >= 0 && value[channel] <= 1,
+      )
+        ? null
+        : "must be a color { r, g, b, a } with channels from 0 to 1"
+    case "entity":
+      return Number.isInteger(value) && value >= 0 ? null : "must be an entity ID, or 0 for none"
+    case "enum":
+      return field.options.includes(value) ? null : `must be one of ${field.options.join(", ")}`
+    case "points":
+      return Array.isArray(value) && value.every((point) => isNumber(point?.x) && isNumber(point?.y))
+        ? null
+        : "must be a list of points { x, y }"
+  }
+}
+
+/**
+ * Check data for a component against its type: values of schema fields must be valid, and other keys must be
+ * fields of the type
+ * @param {Function} componentType - Component type
+ * @param {Object} data - Component initialization data
+ * @param {Object} template - Instance of the type to look up fields on; keys are not checked without it
+ * @returns {Array<string>} Problems found, empty if there are none
+ */
+function validateComponentData(componentType: ComponentType, data: Record<string, any>, template?: any) {
+  const errors: string[] = []
+  const schema = componentType.schema || {}
+
+  for (const [key, value] of Object.entries(data)) {
+    if (Object.prototype.hasOwnProperty.call(schema, key)) {
+      const problem = validateField(schema[key], value)
+      if (problem) errors.push(`${key} ${problem}`)
+    } else if (template && !(key in template)) {
+      errors.push(`unknown field ${key}`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Define a component type from a schema; its instances have the schema's fields, reset to their defaults
+ * @param {string} name - Component name, unique in a world
+ * @param {Object} schema - Fields by name
+ * @returns {Function} Component type
+ */
+function defineComponent<const S extends ComponentSchema>(name: string, schema: S) {
+  for (const [key, field] of Object.entries(schema)) {
+    const problem = field.default === undefined ? null : validateField(field, field.default)
+    if (problem) {
+      throw new Error(`Invalid default for ${name}.${key}: ${problem}`)
+    }
+  }
+
+  const componentType = class extends Component {
+    static componentName = name
+    static schema = schema
+
+    constructor() {
+      super()
+      this.reset()
+    }
+
+    reset() {
+      for (const [key, field] of Object.entries(schema)) {
+        ;(this as any)[key] = getFieldDefault(field)
+      }
+    }
+  }
+
+  // The class name is only for display and stack traces; pools and serialized worlds use componentName
+  Object.defineProperty(componentType, "name", { value: name })
+
+  return componentType as unknown as ComponentType<Component & SchemaValues<S>> & { schema: S }
+}
+
+// Example components
+
+/**
+ * Transform component
+ */
+class TransformComponent extends Component {
+  static componentName = "TransformComponent"
+  static schema: ComponentSchema = {
+    position: { type: "vec3" },
+    rotation: { type: "vec3" },
+    scale: { type: "vec3", default: { x: 1, y: 1, z: 1 } },
+  }
+
+  position: { x: number; y: number; z: number }
+  rotation: { x: number; y: number; z: number }
+  scale: { x: number; y: number; z: number }
   parent: any
   children: any[]
   worldMatrix: number[]
@@ -817,6 +1626,17 @@ class TransformComponent extends Component {
  * Sprite Renderer component
  */
 class SpriteRendererComponent extends Component {
+  static componentName = "SpriteRendererComponent"
+  static schema: ComponentSchema = {
+    width: { type: "number", min: 0 },
+    height: { type: "number", min: 0 },
+    color: { type: "color" },
+    layer: { type: "number", integer: true },
+    visible: { type: "boolean" },
+    pivot: { type: "vec2" },
+    animationSpeed: { type: "number" },
+  }
+
   sprite: any
   width: number
   height: number
@@ -877,6 +1697,18 @@ class SpriteRendererComponent extends Component {
  * Rigidbody component
  */
 class RigidbodyComponent extends Component {
+  static componentName = "RigidbodyComponent"
+  static schema: ComponentSchema = {
+    bodyType: { type: "enum", options: ["dynamic", "kinematic", "static"] },
+    velocity: { type: "vec2" },
+    mass: { type: "number", min: 0 },
+    friction: { type: "number", min: 0 },
+    restitution: { type: "number", min: 0, max: 1 },
+    gravityScale: { type: "number" },
+    fixedRotation: { type: "boolean" },
+    collisionResponse: { type: "boolean" },
+  }
+
   velocity: { x: number; y: number }
   acceleration: { x: number; y: number }
   mass: number
@@ -884,7 +1716,8 @@ class RigidbodyComponent extends Component {
   restitution: number
   gravityScale: number
   fixedRotation: boolean
-  isKinematic: boolean
+  // Dynamic bodies are moved by forces and contacts, kinematic ones only by their velocity, static ones not at all
+  bodyType: "dynamic" | "kinematic" | "static"
   isSleeping: boolean
   collisionResponse: boolean
 
@@ -901,11 +1734,25 @@ class RigidbodyComponent extends Component {
     this.restitution = 0.5
     this.gravityScale = 1
     this.fixedRotation = false
-    this.isKinematic = false
+    this.bodyType = "dynamic"
     this.isSleeping = false
     this.collisionResponse = true
   }
 
+  // Whether the body is kinematic (kept for code written before body types)
+  get isKinematic() {
+    return this.bodyType === "kinematic"
+  }
+
+  set isKinematic(value: boolean) {
+    this.bodyType = value ? "kinematic" : "dynamic"
+  }
+
+  // Inverse of the mass; zero for bodies contacts cannot move
+  get inverseMass() {
+    return this.bodyType === "dynamic" && this.mass > 0 ? 1 / this.mass : 0
+  }
+
   // Apply force
   applyForce(x: number, y: number) {
     this.acceleration.x += x / this.mass
@@ -923,10 +1770,23 @@ class RigidbodyComponent extends Component {
  * Collider component
  */
 class ColliderComponent extends Component {
+  static componentName = "ColliderComponent"
+  static schema: ComponentSchema = {
+    type: { type: "enum", options: ["box", "circle", "polygon"] },
+    width: { type: "number", min: 0 },
+    height: { type: "number", min: 0 },
+    radius: { type: "number", min: 0 },
+    vertices: { type: "points" },
+    offset: { type: "vec2" },
+    isTrigger: { type: "boolean" },
+  }
+
   type: string
   width: number
   height: number
   radius: number
+  // Corners of a polygon collider around the entity's position, in order; the polygon must be convex
+  vertices: Array<{ x: number; y: number }>
   offset: { x: number; y: number }
   isTrigger: boolean
   isSensor: boolean
@@ -946,6 +1806,7 @@ class ColliderComponent extends Component {
     this.width = 32
     this.height = 32
     this.radius = 16
+    this.vertices = []
     this.offset = { x: 0, y: 0 }
     this.isTrigger = false
     this.isSensor = false
@@ -956,6 +1817,39 @@ class ColliderComponent extends Component {
     }
   }
 
+  /**
+   * Put the collider on a single layer
+   * @param {number} layer - Layer index (0-31)
+   * @returns {ColliderComponent} This collider
+   */
+  setLayer(layer: number) {
+    this.filter.category = 1 << layer
+    return this
+  }
+
+  /**
+   * Collide only with colliders on the given layers
+   * @param {Array<number>} layers - Layer indices (0-31)
+   * @returns {ColliderComponent} This collider
+   */
+  setCollidesWith(layers: number[]) {
+    this.filter.mask = layers.reduce((mask, layer) => mask | (1 << layer), 0)
+    return this
+  }
+
+  /**
+   * Check whether the filters of two colliders let them collide. Colliders in the same non-zero group always
+   * collide (positive group) or never do (negative group); otherwise each one's layers must be in the other's mask
+   * @param {ColliderComponent} other - Other collider
+   * @returns {boolean} True if the colliders may collide
+   */
+  canCollideWith(other: ColliderComponent) {
+    if (this.filter.group !== 0 && this.filter.group === other.filter.group) {
+      return this.filter.group > 0
+    }
+    return (this.filter.category & other.filter.mask) !== 0 && (other.filter.category & this.filter.mask) !== 0
+  }
+
   // Check collision with another collider
   checkCollision(other: ColliderComponent) {
     // Implementation would normally go here
@@ -964,6 +1858,243 @@ class ColliderComponent extends Component {
   }
 }
 
+// Collision shapes
+
+type Vector2 = { x: number; y: number }
+
+/**
+ * A collider placed in the world
+ */
+type ColliderShape =
+  | { type: "circle"; center: Vector2; radius: number }
+  // Axes are the unit normals of the edges, the directions separating polygons can be told apart along
+  | { type: "polygon"; center: Vector2; vertices: Vector2[]; axes: Vector2[] }
+
+/**
+ * Contact between two overlapping colliders
+ */
+type ContactManifold = {
+  a: BroadphaseProxy
+  b: BroadphaseProxy
+  // Unit vector from A towards B; moving B along it by the penetration separates the shapes
+  normal: Vector2
+  penetration: number
+  // World points where the shapes touch
+  points: Vector2[]
+  // Either collider is a trigger, or a body has collisionResponse off: the contact is reported but not resolved
+  isTrigger: boolean
+}
+
+// A contact being resolved, with the impulses applied along its normal and tangent so far
+type ContactConstraint = {
+  contact: ContactManifold
+  inverseMassA: number
+  inverseMassB: number
+  // Normal turned a quarter to the left; friction acts along it
+  tangent: Vector2
+  // Normal speed the contact should separate with, from restitution
+  bounce: number
+  friction: number
+  normalImpulse: number
+  tangentImpulse: number
+}
+
+// Distance within which a vertex on another shape's edge still counts as touching it
+const CONTACT_TOLERANCE = 0.01
+
+function dot(a: Vector2, b: Vector2) {
+  return a.x * b.x + a.y * b.y
+}
+
+function normalize(vector: Vector2): Vector2 | null {
+  const length = Math.hypot(vector.x, vector.y)
+  return length > 0 ? { x: vector.x / length, y: vector.y / length } : null
+}
+
+/**
+ * Place a collider in the world, offset and rotated by its entity's transform. Boxes and polygons with fewer
+ * than three vertices become polygons of their width and height
+ * @param {TransformComponent} transform - Entity transform
+ * @param {ColliderComponent} collider - Collider
+ * @returns {ColliderShape} Shape in world coordinates
+ */
+function getColliderShape(transform: TransformComponent, collider: ColliderComponent): ColliderShape {
+  const cos = Math.cos(transform.rotation.z)
+  const sin = Math.sin(transform.rotation.z)
+  const toWorld = (x: number, y: number) => ({
+    x: transform.position.x + (x + collider.offset.x) * cos - (y + collider.offset.y) * sin,
+    y: transform.position.y + (x + collider.offset.x) * sin + (y + collider.offset.y) * cos,
+  })
+
+  if (collider.type === "circle") {
+    return { type: "circle", center: toWorld(0, 0), radius: collider.radius }
+  }
+
+  const halfWidth = collider.width / 2
+  const halfHeight = collider.height / 2
+  const corners =
+    collider.type === "polygon" && collider.vertices.length >= 3
+      ? collider.vertices
+      : [
+          { x: -halfWidth, y: -halfHeight },
+          { x: halfWidth, y: -halfHeight },
+          { x: halfWidth, y: halfHeight },
+          { x: -halfWidth, y: halfHeight },
+        ]
+  const vertices = corners.map((corner) => toWorld(corner.x, corner.y))
+
+  const center = { x: 0, y: 0 }
+  const axes: Vector2[] = []
+  vertices.forEach((vertex, i) => {
+    center.x += vertex.x / vertices.length
+    center.y += vertex.y / vertices.length
+
+    // Edges of zero length have no normal
+    const next = vertices[(i + 1) % vertices.length]
+    const axis = normalize({ x: vertex.y - next.y, y: next.x - vertex.x })
+    if (axis) axes.push(axis)
+  })
+
+  return { type: "polygon", center, vertices, axes }
+}
+
+/**
+ * Get the axis-aligned bounds of a shape
+ * @param {ColliderShape} shape - Shape
+ * @returns {Object} minX, minY, maxX and maxY
+ */
+function getColliderShapeBounds(shape: ColliderShape) {
+  if (shape.type === "circle") {
+    return {
+      minX: shape.center.x - shape.radius,
+      minY: shape.center.y - shape.radius,
+      maxX: shape.center.x + shape.radius,
+      maxY: shape.center.y + shape.radius,
+    }
+  }
+
+  const xs = shape.vertices.map((vertex) => vertex.x)
+  const ys = shape.vertices.map((vertex) => vertex.y)
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) }
+}
+
+/**
+ * Project a shape onto an axis
+ * @private
+ */
+function projectShape(shape: ColliderShape, axis: Vector2): [number, number] {
+  if (shape.type === "circle") {
+    const center = dot(shape.center, axis)
+    return [center - shape.radius, center + shape.radius]
+  }
+
+  let min = Infinity
+  let max = -Infinity
+  for (const vertex of shape.vertices) {
+    const projection = dot(vertex, axis)
+    min = Math.min(min, projection)
+    max = Math.max(max, projection)
+  }
+  return [min, max]
+}
+
+/**
+ * Get the axes a shape may be separated from another along
+ * @private
+ */
+function getSeparatingAxes(shape: ColliderShape, other: ColliderShape): Vector2[] {
+  if (shape.type === "polygon") return shape.axes
+
+  // A circle is separated from a polygon along the line to the polygon's nearest vertex at the latest, and from
+  // another circle along the line between their centers
+  let target = other.center
+  if (other.type === "polygon") {
+    const distance = (vertex: Vector2) => (vertex.x - shape.center.x) ** 2 + (vertex.y - shape.center.y) ** 2
+    target = other.vertices.reduce((nearest, vertex) => (distance(vertex) < distance(nearest) ? vertex : nearest))
+  }
+  return [normalize({ x: target.x - shape.center.x, y: target.y - shape.center.y }) || { x: 1, y: 0 }]
+}
+
+/**
+ * Check whether a point lies inside a polygon (including its edges)
+ * @private
+ */
+function polygonContains(polygon: Extract<ColliderShape, { type: "polygon" }>, point: Vector2) {
+  // A convex polygon is where all the slabs between its opposite extents overlap
+  return polygon.axes.every((axis) => {
+    const [min, max] = projectShape(polygon, axis)
+    const projection = dot(point, axis)
+    return projection >= min - CONTACT_TOLERANCE && projection <= max + CONTACT_TOLERANCE
+  })
+}
+
+/**
+ * Find where two overlapping shapes touch
+ * @private
+ */
+function getContactPoints(shapeA: ColliderShape, shapeB: ColliderShape, normal: Vector2): Vector2[] {
+  if (shapeB.type === "circle") {
+    return [{ x: shapeB.center.x - normal.x * shapeB.radius, y: shapeB.center.y - normal.y * shapeB.radius }]
+  }
+  if (shapeA.type === "circle") {
+    return [{ x: shapeA.center.x + normal.x * shapeA.radius, y: shapeA.center.y + normal.y * shapeA.radius }]
+  }
+
+  // The corners of each polygon that are inside the other
+  const points = [
+    ...shapeA.vertices.filter((vertex) => polygonContains(shapeB, vertex)),
+    ...shapeB.vertices.filter((vertex) => polygonContains(shapeA, vertex)),
+  ]
+  if (points.length > 0) return points
+
+  // Edges crossing without a corner inside: B's corner deepest towards A
+  return [shapeB.vertices.reduce((deepest, vertex) => (dot(vertex, normal) < dot(deepest, normal) ? vertex : deepest))]
+}
+
+/**
+ * Test two colliders for overlap with the separating axis theorem
+ * @param {BroadphaseProxy} a - First collider
+ * @param {BroadphaseProxy} b - Second collider
+ * @returns {ContactManifold|null} Contact, or null if the colliders do not overlap
+ */
+function computeContactManifold(a: BroadphaseProxy, b: BroadphaseProxy): ContactManifold | null {
+  let penetration = Infinity
+  let normal: Vector2 | null = null
+
+  // The shapes overlap unless their projections are apart on one of the axes
+  for (const axis of [...getSeparatingAxes(a.shape, b.shape), ...getSeparatingAxes(b.shape, a.shape)]) {
+    const [minA, maxA] = projectShape(a.shape, axis)
+    const [minB, maxB] = projectShape(b.shape, axis)
+    const overlap = Math.min(maxA, maxB) - Math.max(minA, minB)
+    if (overlap <= 0) return null
+
+    if (overlap < penetration) {
+      penetration = overlap
+      normal = axis
+    }
+  }
+  if (!normal) return null
+
+  // Point the normal from A to B
+  const between = { x: b.shape.center.x - a.shape.center.x, y: b.shape.center.y - a.shape.center.y }
+  if (dot(between, normal) < 0) {
+    normal = { x: -normal.x, y: -normal.y }
+  }
+
+  return {
+    a,
+    b,
+    normal,
+    penetration,
+    points: getContactPoints(a.shape, b.shape, normal),
+    isTrigger:
+      a.collider.isTrigger ||
+      b.collider.isTrigger ||
+      a.rigidbody?.collisionResponse === false ||
+      b.rigidbody?.collisionResponse === false,
+  }
+}
+
 // Example systems
 
 /**
@@ -971,24 +2102,36 @@ class ColliderComponent extends Component {
  */
 class PhysicsSystem extends System {
   gravity: { x: number; y: number }
+  iterations: number
+  correctionPercent: number
+  correctionSlop: number
+  contactImpulses: Map<string, { normal: number; tangent: number }>
 
   constructor(world: World) {
     super(world)
     this.priority = 10
     this.gravity = { x: 0, y: 9.8 }
     this.requiredComponents = [TransformComponent, RigidbodyComponent]
+    this.iterations = 8 // Passes over the contacts per update
+    this.correctionPercent = 0.4 // Share of the remaining overlap pushed apart per update
+    this.correctionSlop = 0.5 // Overlap left alone so resting contacts do not jitter
+    this.contactImpulses = new Map() // Impulses of the last update by pair, to start the next one from
   }
 
+  /**
+   * Step the bodies: apply forces, resolve the contacts the CollisionSystem found at the end of the last update
+   * (they are where the bodies still are), move the bodies, then push apart what still overlaps
+   * @param {number} deltaTime - Time since last update
+   */
   update(deltaTime: number) {
     const entities = this.getMatchingEntities()
 
     for (const entityId of entities) {
-      const transform = this.world.getComponent(entityId, TransformComponent)
-      const rigidbody = this.world.getComponent(entityId, RigidbodyComponent)
-
-      if (!transform || !rigidbody || rigidbody.isKinematic) continue
+      const rigidbody = this.world.getComponent(entityId, RigidbodyComponent)!
+      if (rigidbody.bodyType !== "dynamic") continue
 
       // Apply gravity
+      rigidbody.acceleration.x += this.gravity.x * rigidbody.gravityScale
       rigidbody.acceleration.y += this.gravity.y * rigidbody.gravityScale
 
       // Update velocity
@@ -998,80 +2141,445 @@ class PhysicsSystem extends System {
       // Apply friction
       rigidbody.velocity.x *= 1 - rigidbody.friction * deltaTime
       rigidbody.velocity.y *= 1 - rigidbody.friction * deltaTime
+    }
 
-      // Update position
-      transform.position.x += rigidbody.velocity.x * deltaTime
-      transform.position.y += rigidbody.velocity.y * deltaTime
+    const collisionSystem = this.world.systems.find((system) => system instanceof CollisionSystem) as
+      CollisionSystem | undefined
+    const contacts = (collisionSystem?.contacts || []).filter(
+      (contact) => !contact.isTrigger && this._isCurrent(contact.a) && this._isCurrent(contact.b),
+    )
+
+    // Slower than gravity adds in a couple of updates, a contact is resting and does not bounce
+    const restingSpeed = Math.hypot(this.gravity.x, this.gravity.y) * deltaTime * 2
+    const constraints: ContactConstraint[] = []
+    for (const contact of contacts) {
+      const constraint = this._prepareContact(contact, restingSpeed)
+      if (constraint) constraints.push(constraint)
+    }
+    for (let i = 0; i < this.iterations; i++) {
+      for (const constraint of constraints) {
+        this._solveContact(constraint)
+      }
+    }
+    for (const constraint of constraints) {
+      if (constraint.bounce > 0) this._applyRestitution(constraint)
+    }
+
+    // Contacts that persist start the next update with these impulses (warm starting), so a stack converges
+    // over several updates instead of needing many iterations in each
+    this.contactImpulses.clear()
+    for (const constraint of constraints) {
+      this.contactImpulses.set(`${constraint.contact.a.entityId}:${constraint.contact.b.entityId}`, {
+        normal: constraint.normalImpulse,
+        tangent: constraint.tangentImpulse,
+      })
+    }
+
+    for (const entityId of entities) {
+      const transform = this.world.getComponent(entityId, TransformComponent)!
+      const rigidbody = this.world.getComponent(entityId, RigidbodyComponent)!
 
       // Reset acceleration
       rigidbody.acceleration.x = 0
       rigidbody.acceleration.y = 0
 
+      if (rigidbody.bodyType === "static") {
+        rigidbody.velocity.x = 0
+        rigidbody.velocity.y = 0
+        continue
+      }
+
+      // Update position
+      transform.position.x += rigidbody.velocity.x * deltaTime
+      transform.position.y += rigidbody.velocity.y * deltaTime
+
       // Mark transform as dirty
       transform.worldMatrixDirty = true
+      if (rigidbody.velocity.x !== 0 || rigidbody.velocity.y !== 0) {
+        this.world.markChanged(transform)
+      }
+    }
+
+    for (const contact of contacts) {
+      this._correctPositions(contact)
+    }
+  }
+
+  /**
+   * Check that a contact's components still belong to its entity
+   * @private
+   */
+  _isCurrent(proxy: BroadphaseProxy) {
+    return (
+      proxy.transform._active &&
+      proxy.transform.entityId === proxy.entityId &&
+      (!proxy.rigidbody || (proxy.rigidbody._active && proxy.rigidbody.entityId === proxy.entityId))
+    )
+  }
+
+  /**
+   * Set up a contact for the solver and apply the impulses it ended the last update with
+   * @private
+   */
+  _prepareContact(contact: ContactManifold, restingSpeed: number): ContactConstraint | null {
+    const bodyA = contact.a.rigidbody
+    const bodyB = contact.b.rigidbody
+    const inverseMassA = bodyA ? bodyA.inverseMass : 0
+    const inverseMassB = bodyB ? bodyB.inverseMass : 0
+    if (inverseMassA + inverseMassB === 0) return null
+
+    // The less bouncy body decides how bouncy the contact is. Only impacts bounce: a contact that was there last
+    // update is resting (or pushing), and bouncing it would make stacks chatter
+    const previous = this.contactImpulses.get(`${contact.a.entityId}:${contact.b.entityId}`)
+    const normalSpeed = dot(this._getRelativeVelocity(contact), contact.normal)
+    const restitution =
+      !previous && -normalSpeed > restingSpeed ? Math.min(bodyA?.restitution ?? 1, bodyB?.restitution ?? 1) : 0
+    const constraint: ContactConstraint = {
+      contact,
+      inverseMassA,
+      inverseMassB,
+      tangent: { x: -contact.normal.y, y: contact.normal.x },
+      bounce: -normalSpeed * restitution,
+      friction: Math.sqrt((bodyA?.friction ?? bodyB!.friction) * (bodyB?.friction ?? bodyA!.friction)),
+      normalImpulse: previous ? previous.normal : 0,
+      tangentImpulse: previous ? previous.tangent : 0,
+    }
+    this._applyImpulse(constraint, constraint.normalImpulse, constraint.tangentImpulse)
+    return constraint
+  }
+
+  /**
+   * Adjust a contact's impulses so the bodies stop moving into each other and friction opposes their sliding.
+   * The totals are clamped rather than each change, so a pass can take back some of what an earlier one pushed
+   * @private
+   */
+  _solveContact(constraint: ContactConstraint) {
+    const { contact, tangent } = constraint
+    const inverseMassSum = constraint.inverseMassA + constraint.inverseMassB
+
+    const relative = this._getRelativeVelocity(contact)
+    const normalImpulse = Math.max(constraint.normalImpulse - dot(relative, contact.normal) / inverseMassSum, 0)
+    const normalChange = normalImpulse - constraint.normalImpulse
+    constraint.normalImpulse = normalImpulse
+    this._applyImpulse(constraint, normalChange, 0)
+
+    // Coulomb friction: at most the friction coefficient times the normal impulse
+    const limit = constraint.friction * constraint.normalImpulse
+    const sliding = dot(this._getRelativeVelocity(contact), tangent)
+    const tangentImpulse = Math.max(-limit, Math.min(limit, constraint.tangentImpulse - sliding / inverseMassSum))
+    const tangentChange = tangentImpulse - constraint.tangentImpulse
+    constraint.tangentImpulse = tangentImpulse
+    this._applyImpulse(constraint, 0, tangentChange)
+  }
+
+  /**
+   * Make a contact that stopped two bodies separate them with its bounce. This runs once after the other
+   * contacts are solved; solving bounces along with them would throw a body that hits the ground with another
+   * one on top up at its full speed, together with the one on top. The bounce is left out of the impulses
+   * kept for the next update, or a contact that persists would bounce again
+   * @private
+   */
+  _applyRestitution(constraint: ContactConstraint) {
+    if (constraint.normalImpulse === 0) return
+
+    const { contact } = constraint
+    const normalSpeed = dot(this._getRelativeVelocity(contact), contact.normal)
+    const impulse = (constraint.bounce - normalSpeed) / (constraint.inverseMassA + constraint.inverseMassB)
+    if (impulse > 0) this._applyImpulse(constraint, impulse, 0)
+  }
+
+  /**
+   * Velocity of B relative to A; colliders without a rigidbody are static
+   * @private
+   */
+  _getRelativeVelocity(contact: ContactManifold): Vector2 {
+    const velocityA = contact.a.rigidbody ? contact.a.rigidbody.velocity : { x: 0, y: 0 }
+    const velocityB = contact.b.rigidbody ? contact.b.rigidbody.velocity : { x: 0, y: 0 }
+    return { x: velocityB.x - velocityA.x, y: velocityB.y - velocityA.y }
+  }
+
+  /**
+   * Push B along the contact's normal and tangent and A the opposite way, in proportion to their inverse masses
+   * @private
+   */
+  _applyImpulse(constraint: ContactConstraint, normal: number, tangent: number) {
+    const { contact } = constraint
+    const x = contact.normal.x * normal + constraint.tangent.x * tangent
+    const y = contact.normal.y * normal + constraint.tangent.y * tangent
+    if (contact.a.rigidbody) {
+      contact.a.rigidbody.velocity.x -= x * constraint.inverseMassA
+      contact.a.rigidbody.velocity.y -= y * constraint.inverseMassA
+    }
+    if (contact.b.rigidbody) {
+      contact.b.rigidbody.velocity.x += x * constraint.inverseMassB
+      contact.b.rigidbody.velocity.y += y * constraint.inverseMassB
     }
   }
+
+  /**
+   * Move two overlapping bodies apart, in proportion to their inverse masses
+   * @private
+   */
+  _correctPositions(contact: ContactManifold) {
+    const inverseMassA = contact.a.rigidbody ? contact.a.rigidbody.inverseMass : 0
+    const inverseMassB = contact.b.rigidbody ? contact.b.rigidbody.inverseMass : 0
+    const inverseMassSum = inverseMassA + inverseMassB
+    if (inverseMassSum === 0) return
+
+    const depth = Math.max(contact.penetration - this.correctionSlop, 0) / inverseMassSum
+    if (depth === 0) return
+
+    const x = contact.normal.x * depth * this.correctionPercent
+    const y = contact.normal.y * depth * this.correctionPercent
+
+    contact.a.transform.position.x -= x * inverseMassA
+    contact.a.transform.position.y -= y * inverseMassA
+    contact.b.transform.position.x += x * inverseMassB
+    contact.b.transform.position.y += y * inverseMassB
+    contact.a.transform.worldMatrixDirty = true
+    contact.b.transform.worldMatrixDirty = true
+    if (inverseMassA > 0) this.world.markChanged(contact.a.transform)
+    if (inverseMassB > 0) this.world.markChanged(contact.b.transform)
+  }
 }
 
 /**
- * Collision System
+ * A collider placed in the world, with its bounds for the broadphase
  */
-class CollisionSystem extends System {
-  collisions: Map<string, { entityA: number; entityB: number; time: number }>
+type BroadphaseProxy = {
+  entityId: number
+  transform: TransformComponent
+  collider: ColliderComponent
+  // Null for colliders without a body, which are static
+  rigidbody: RigidbodyComponent | null
+  shape: ColliderShape
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
 
-  constructor(world: World) {
-    super(world)
-    this.priority = 20
-    this.requiredComponents = [TransformComponent, ColliderComponent]
-    this.collisions = new Map() // Maps entity pairs to collision state
+/**
+ * Check whether the bounds of two proxies overlap
+ * @param {BroadphaseProxy} a - First proxy
+ * @param {BroadphaseProxy} b - Second proxy
+ * @returns {boolean} True if they overlap
+ */
+function proxiesOverlap(a: BroadphaseProxy, b: BroadphaseProxy) {
+  return a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY
+}
+
+/**
+ * Broadphase base class
+ * Finds the pairs of colliders whose bounds overlap, so the exact check only runs on those
+ */
+class Broadphase {
+  name: string
+
+  constructor(name: string) {
+    this.name = name
   }
 
-  update(deltaTime: number) {
-    const entities = this.getMatchingEntities()
-    const newCollisions = new Map<string, { entityA: number; entityB: number; time: number }>()
+  /**
+   * Find pairs of proxies whose bounds overlap
+   * @param {Array<BroadphaseProxy>} proxies - Every collider this update
+   * @returns {Array} Overlapping pairs, each once
+   */
+  findPairs(proxies: BroadphaseProxy[]): Array<[BroadphaseProxy, BroadphaseProxy]> {
+    // Override in subclasses
+    return []
+  }
 
-    // Check all possible collisions
-    for (let i = 0; i < entities.length; i++) {
-      for (let j = i + 1; j < entities.length; j++) {
-        const entityA = entities[i]
-        const entityB = entities[j]
+  /**
+   * Forget state kept between updates
+   */
+  clear() {
+    // Override in subclasses
+  }
+}
 
-        const transformA = this.world.getComponent(entityA, TransformComponent)
-        const colliderA = this.world.getComponent(entityA, ColliderComponent)
+/**
+ * Brute force broadphase
+ * Checks every pair; fine for a few dozen colliders
+ */
+class BruteForceBroadphase extends Broadphase {
+  constructor() {
+    super("Brute force")
+  }
 
-        const transformB = this.world.getComponent(entityB, TransformComponent)
-        const colliderB = this.world.getComponent(entityB, ColliderComponent)
+  findPairs(proxies: BroadphaseProxy[]) {
+    const pairs: Array<[BroadphaseProxy, BroadphaseProxy]> = []
+    for (let i = 0; i < proxies.length; i++) {
+      for (let j = i + 1; j < proxies.length; j++) {
+        if (proxiesOverlap(proxies[i], proxies[j])) {
+          pairs.push([proxies[i], proxies[j]])
+        }
+      }
+    }
+    return pairs
+  }
+}
 
-        if (!transformA || !colliderA || !transformB || !colliderB) continue
+/**
+ * Uniform grid broadphase
+ * Buckets colliders by the grid cells they cover and only checks colliders sharing a cell. Works best when
+ * the cell size is about the size of a typical collider
+ */
+class GridBroadphase extends Broadphase {
+  grid: SaaamSpatialHash<number>
+  entityIds: Set<number>
+
+  /**
+   * Create a grid broadphase
+   * @param {number} cellSize - Cell width and height
+   */
+  constructor(cellSize = 64) {
+    super("Uniform grid")
+    this.grid = new SaaamSpatialHash(cellSize)
+    this.entityIds = new Set() // Entities in the grid, to remove the ones that are gone
+  }
 
-        // Update transforms if dirty
-        if (transformA.worldMatrixDirty) {
-          transformA.updateWorldMatrix()
+  findPairs(proxies: BroadphaseProxy[]) {
+    const byEntity = new Map<number, BroadphaseProxy>()
+    for (const proxy of proxies) {
+      byEntity.set(proxy.entityId, proxy)
+      this.grid.update(proxy.entityId, this._getRect(proxy))
+    }
+
+    // Remove colliders that were destroyed since the last update
+    for (const entityId of this.entityIds) {
+      if (!byEntity.has(entityId)) {
+        this.grid.remove(entityId)
+      }
+    }
+    this.entityIds = new Set(byEntity.keys())
+
+    const pairs: Array<[BroadphaseProxy, BroadphaseProxy]> = []
+    for (const proxy of proxies) {
+      for (const otherId of this.grid.query(this._getRect(proxy))) {
+        // Each pair is found from both sides; keep it once
+        const other = byEntity.get(otherId)
+        if (other && otherId > proxy.entityId && proxiesOverlap(proxy, other)) {
+          pairs.push([proxy, other])
         }
+      }
+    }
+    return pairs
+  }
+
+  clear() {
+    this.grid.clear()
+    this.entityIds.clear()
+  }
+
+  /**
+   * Get a proxy's bounds as a rectangle
+   * @private
+   */
+  _getRect(proxy: BroadphaseProxy) {
+    return { x: proxy.minX, y: proxy.minY, width: proxy.maxX - proxy.minX, height: proxy.maxY - proxy.minY }
+  }
+}
 
-        if (transformB.worldMatrixDirty) {
-          transformB.updateWorldMatrix()
+/**
+ * Sweep and prune broadphase
+ * Sorts colliders along the x axis and only checks colliders whose x extents overlap. Works for colliders of
+ * any size, but degrades when many share the same x range
+ */
+class SweepAndPruneBroadphase extends Broadphase {
+  constructor() {
+    super("Sweep and prune")
+  }
+
+  findPairs(proxies: BroadphaseProxy[]) {
+    const sorted = [...proxies].sort((a, b) => a.minX - b.minX)
+    const pairs: Array<[BroadphaseProxy, BroadphaseProxy]> = []
+
+    for (let i = 0; i < sorted.length; i++) {
+      const proxy = sorted[i]
+      // Everything after the first collider starting right of this one's end starts even further right
+      for (let j = i + 1; j < sorted.length && sorted[j].minX < proxy.maxX; j++) {
+        if (proxiesOverlap(proxy, sorted[j])) {
+          pairs.push([proxy, sorted[j]])
         }
+      }
+    }
+    return pairs
+  }
+}
 
-        // Check collision
-        const colliding = this._checkCollision(transformA, colliderA, transformB, colliderB)
+/**
+ * Collision System
+ */
+class CollisionSystem extends System {
+  collisions: Map<string, CollisionEvent>
+  contacts: ContactManifold[]
+  broadphase: Broadphase
+  stats: { colliders: number; candidates: number; collisions: number }
 
-        if (colliding) {
-          // Generate collision pair key
-          const pairKey = `${Math.min(entityA, entityB)}_${Math.max(entityA, entityB)}`
+  /**
+   * Create a collision system
+   * @param {World} world - ECS world
+   * @param {Broadphase} broadphase - Finds the pairs to check; a uniform grid by default
+   */
+  constructor(world: World, broadphase: Broadphase = new GridBroadphase()) {
+    super(world)
+    this.priority = 20
+    this.requiredComponents = [TransformComponent, ColliderComponent]
+    this.collisions = new Map() // Maps entity pairs to collision state
+    this.contacts = [] // Contacts of the last update, for the PhysicsSystem to resolve
+    this.broadphase = broadphase
+    this.stats = { colliders: 0, candidates: 0, collisions: 0 } // Counts of the last update
+  }
 
-          // Store collision state
-          newCollisions.set(pairKey, {
-            entityA,
-            entityB,
-            time: this.world.time,
-          })
+  /**
+   * Switch to another broadphase
+   * @param {Broadphase} broadphase - Broadphase to use from the next update
+   */
+  setBroadphase(broadphase: Broadphase) {
+    this.broadphase.clear()
+    this.broadphase = broadphase
+  }
 
-          // Check if this is a new collision
-          if (!this.collisions.has(pairKey)) {
-            // Trigger collision enter event
-            this._triggerCollisionEnter(entityA, entityB)
-          }
+  update(deltaTime: number) {
+    const proxies = this._getProxies()
+    const candidates = this.broadphase.findPairs(proxies)
+    const newCollisions = new Map<string, CollisionEvent>()
+    const contacts: ContactManifold[] = []
+
+    // Check the pairs the broadphase found
+    for (const [proxyA, proxyB] of candidates) {
+      // Keep the lower entity ID first, so a pair is the same whichever way round it was found
+      const [a, b] = proxyA.entityId < proxyB.entityId ? [proxyA, proxyB] : [proxyB, proxyA]
+
+      // Skip pairs whose layers do not collide
+      if (!a.collider.canCollideWith(b.collider)) continue
+
+      // Check collision
+      const contact = computeContactManifold(a, b)
+
+      if (contact) {
+        contacts.push(contact)
+
+        // Generate collision pair key
+        const pairKey = `${a.entityId}_${b.entityId}`
+
+        // Store collision state, keeping the pair's event while it lasts
+        const previous = this.collisions.get(pairKey)
+        const collision = previous || {
+          entityA: a.entityId,
+          entityB: b.entityId,
+          isTrigger: a.collider.isTrigger || b.collider.isTrigger,
+          time: this.world.time,
+        }
+        newCollisions.set(pairKey, collision)
+
+        // Check if this is a new collision
+        if (!previous) {
+          // Trigger collision enter event
+          this._triggerCollisionEnter(collision)
+        } else {
+          this._triggerCollisionStay(collision)
         }
       }
     }
@@ -1080,54 +2588,77 @@ class CollisionSystem extends System {
     for (const [pairKey, collision] of this.collisions.entries()) {
       if (!newCollisions.has(pairKey)) {
         // Trigger collision exit event
-        this._triggerCollisionExit(collision.entityA, collision.entityB)
+        this._triggerCollisionExit(collision)
       }
     }
 
     // Update collision map
     this.collisions = newCollisions
+    this.contacts = contacts
+    this.stats = { colliders: proxies.length, candidates: candidates.length, collisions: newCollisions.size }
   }
 
   /**
-   * Check collision between two entities
+   * Get the bounds of every entity with a transform and a collider
    * @private
    */
-  _checkCollision(
-    transformA: TransformComponent,
-    colliderA: ColliderComponent,
-    transformB: TransformComponent,
-    colliderB: ColliderComponent,
-  ) {
-    // Simple AABB collision check for demonstration
-    const aLeft = transformA.position.x - colliderA.width / 2 + colliderA.offset.x
-    const aRight = transformA.position.x + colliderA.width / 2 + colliderA.offset.x
-    const aTop = transformA.position.y - colliderA.height / 2 + colliderA.offset.y
-    const aBottom = transformA.position.y + colliderA.height / 2 + colliderA.offset.y
+  _getProxies() {
+    const entityManager = this.world.entityManager
+    const proxies: BroadphaseProxy[] = []
+
+    // Bodies first, then the colliders without one, so only the first need their rigidbody looked up
+    const bodies = entityManager.query({ with: [TransformComponent, ColliderComponent, RigidbodyComponent] })
+    const fixed = entityManager.query({
+      with: [TransformComponent, ColliderComponent],
+      without: [RigidbodyComponent],
+    })
+    for (const query of [bodies, fixed]) {
+      for (const entityId of query.getEntities()) {
+        const transform = this.world.getComponent(entityId, TransformComponent)!
+        const collider = this.world.getComponent(entityId, ColliderComponent)!
+
+        // Update transform if dirty
+        if (transform.worldMatrixDirty) {
+          transform.updateWorldMatrix()
+        }
 
-    const bLeft = transformB.position.x - colliderB.width / 2 + colliderB.offset.x
-    const bRight = transformB.position.x + colliderB.width / 2 + colliderB.offset.x
-    const bTop = transformB.position.y - colliderB.height / 2 + colliderB.offset.y
-    const bBottom = transformB.position.y + colliderB.height / 2 + colliderB.offset.y
+        const shape = getColliderShape(transform, collider)
+        proxies.push({
+          entityId,
+          transform,
+          collider,
+          rigidbody: query === bodies ? this.world.getComponent(entityId, RigidbodyComponent) : null,
+          shape,
+          ...getColliderShapeBounds(shape),
+        })
+      }
+    }
 
-    return aLeft < bRight && aRight > bLeft && aTop < bBottom && aBottom > bTop
+    return proxies
   }
 
   /**
    * Trigger collision enter event
    * @private
    */
-  _triggerCollisionEnter(entityA: number, entityB: number) {
-    // Implementation would normally go here to dispatch events
-    // ...
+  _triggerCollisionEnter(collision: CollisionEvent) {
+    this.world.emit("collisionEnter", collision)
+  }
+
+  /**
+   * Trigger collision stay event
+   * @private
+   */
+  _triggerCollisionStay(collision: CollisionEvent) {
+    this.world.emit("collisionStay", collision)
   }
 
   /**
    * Trigger collision exit event
    * @private
    */
-  _triggerCollisionExit(entityA: number, entityB: number) {
-    // Implementation would normally go here to dispatch events
-    // ...
+  _triggerCollisionExit(collision: CollisionEvent) {
+    this.world.emit("collisionExit", collision)
   }
 }
 
@@ -1259,6 +2790,12 @@ class AnimationSystem extends System {
 
 export {
   World,
+  Query,
+  defineComponent,
+  getComponentName,
+  validateComponentData,
+  serializeWorld,
+  parseWorld,
   System,
   Component,
   TransformComponent,
@@ -1267,6 +2804,30 @@ export {
   ColliderComponent,
   PhysicsSystem,
   CollisionSystem,
+  Broadphase,
+  BruteForceBroadphase,
+  GridBroadphase,
+  SweepAndPruneBroadphase,
   RenderingSystem,
   AnimationSystem,
+  getColliderShape,
+  computeContactManifold,
+}
+
+export type {
+  ComponentType,
+  ComponentSchema,
+  FieldSchema,
+  SchemaValues,
+  SerializedWorld,
+  Color,
+  Vector3,
+  QueryFilter,
+  CollisionEvent,
+  WorldEvents,
+  WorldEventHandler,
+  BroadphaseProxy,
+  ColliderShape,
+  ContactManifold,
+  Vector2,
 }
@@ -0,0 +1,366 @@
+// SAAAM Audio - Plays the sound commands scripts issue (see SaaamAudioCommand) through Web Audio on the page
+
+import type { SaaamAudioBus, SaaamAudioCommand } from "./saaam-runtime"
+
+// A sound asset scripts can play by id, by name or by name without its extension
+export type SaaamSoundSource = {
+  id: string
+  name: string
+  url: string
+}
+
+// A playing (or paused) sound effect or music track
+type SaaamVoice = {
+  name: string
+  bus: "music" | "sfx"
+  gain: GainNode
+  volume: number
+  paused: boolean
+  // Sound effects play from a decoded buffer; a buffer source cannot be paused, so pausing stops it and
+  // resuming starts a new one from the same offset
+  buffer?: AudioBuffer
+  source?: AudioBufferSourceNode
+  loop: boolean
+  startedAt: number
+  offset: number
+  // Music streams through a media element instead of being decoded up front
+  element?: HTMLAudioElement
+  mediaSource?: MediaElementAudioSourceNode
+}
+
+// Create the SAAAM audio engine
+export class SaaamAudioEngine {
+  private context: AudioContext | null = null
+  private buses: Record<SaaamAudioBus, GainNode> | null = null
+  private sources: Map<string, SaaamSoundSource> = new Map()
+  // Decoded buffers by URL; failures are kept too so a broken file is only reported once
+  private buffers: Map<string, Promise<AudioBuffer | null>> = new Map()
+  private voices: Map<number, SaaamVoice> = new Map()
+  private music: number | null = null
+  private suspended = false
+  private warned: Set<string> = new Set()
+  private onWarningCallback: ((message: string) => void) | null = null
+
+  // Check whether this browser has Web Audio
+  public static isSupported(): boolean {
+    return typeof AudioContext !== "undefined"
+  }
+
+  // Set the sounds scripts can play
+  public setSounds(sounds: SaaamSoundSource[]) {
+    this.sources.clear()
+    for (const sound of sounds) {
+      this.sources.set(sound.id, sound)
+      this.sources.set(sound.name, sound)
+      this.sources.set(sound.name.replace(/\.\w+$/, ""), sound)
+    }
+    return this
+  }
+
+  // Set callback for sounds that are missing or cannot be decoded
+  public onWarning(callback: (message: string) => void) {
+    this.onWarningCallback = callback
+    return this
+  }
+
+  // Create (or wake) the audio context; call this from a user gesture so the browser allows playback
+  public unlock() {
+    const context = this.getContext()
+    if (context && context.state === "suspended" && !this.suspended) {
+      context.resume().catch(() => {})
+    }
+  }
+
+  // Decode every sound so scripts can play them without a delay
+  public async preload(): Promise<void> {
+    await Promise.all([...new Set(this.sources.values())].map((sound) => this.loadBuffer(sound)))
+  }
+
+  // Apply a command from the runtime
+  public handle(command: SaaamAudioCommand) {
+    switch (command.type) {
+      case "playSound":
+        this.playSound(command.id, command.sound, command.volume, command.loop)
+        break
+      case "playMusic":
+        this.playMusic(command.id, command.sound, command.volume, command.loop, command.crossfade)
+        break
+      case "stopMusic":
+        if (this.music !== null) this.stopVoice(this.music, command.fade)
+        break
+      case "stop":
+        this.stopVoice(command.id)
+        break
+      case "pause":
+        this.pauseVoice(command.id)
+        break
+      case "resume":
+        this.resumeVoice(command.id)
+        break
+      case "setVoiceVolume":
+        this.setVoiceVolume(command.id, command.volume)
+        break
+      case "setVolume":
+        this.setVolume(command.bus, command.volume)
+        break
+      case "pauseAll":
+        this.suspend()
+        break
+      case "resumeAll":
+        this.resume()
+        break
+      case "stopAll":
+        this.stopAll()
+        break
+      case "reset":
+        this.reset()
+        break
+    }
+  }
+
+  // Stop every sound and music track
+  public stopAll() {
+    for (const id of [...this.voices.keys()]) this.stopVoice(id)
+  }
+
+  // Stop everything, restore full bus volumes and leave the paused state
+  public reset() {
+    this.stopAll()
+    for (const bus of ["master", "music", "sfx"] as const) this.setVolume(bus, 1)
+    this.resume()
+  }
+
+  // Stop everything and release the audio context
+  public destroy() {
+    this.stopAll()
+    this.context?.close().catch(() => {})
+    this.context = null
+    this.buses = null
+  }
+
+  private getContext(): AudioContext | null {
+    if (this.context) return this.context
+    if (!SaaamAudioEngine.isSupported()) return null
+
+    const context = new AudioContext()
+    const master = context.createGain()
+    const music = context.createGain()
+    const sfx = context.createGain()
+    master.connect(context.destination)
+    music.connect(master)
+    sfx.connect(master)
+
+    this.context = context
+    this.buses = { master, music, sfx }
+    return context
+  }
+
+  private findSound(name: string): SaaamSoundSource | null {
+    const sound = this.sources.get(name)
+    if (!sound) this.warnOnce(name, `Sound '${name}' is not loaded; add it in the asset manager`)
+    return sound ?? null
+  }
+
+  private loadBuffer(sound: SaaamSoundSource): Promise<AudioBuffer | null> {
+    const context = this.getContext()
+    if (!context) return Promise.resolve(null)
+
+    let buffer = this.buffers.get(sound.url)
+    if (!buffer) {
+      buffer = fetch(sound.url)
+        .then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          return response.arrayBuffer()
+        })
+        .then((data) => context.decodeAudioData(data))
+        .catch((e) => {
+          this.warnOnce(sound.url, `Failed to load sound '${sound.name}': ${e.message}`)
+          return null
+        })
+      this.buffers.set(sound.url, buffer)
+    }
+    return buffer
+  }
+
+  private createVoice(name: string, bus: "music" | "sfx", volume: number, loop: boolean): SaaamVoice | null {
+    const context = this.getContext()
+    if (!context || !this.buses) return null
+
+    const gain = context.createGain()
+    gain.gain.value = volume
+    gain.connect(this.buses[bus])
+    return { name, bus, gain, volume, paused: false, loop, startedAt: 0, offset: 0 }
+  }
+
+  private playSound(id: number, name: string, volume: number, loop: boolean) {
+    const sound = this.findSound(name)
+    if (!sound) return
+
+    const voice = this.createVoice(sound.name, "sfx", volume, loop)
+    if (!voice) return
+    this.voices.set(id, voice)
+
+    this.loadBuffer(sound).then((buffer) => {
+      // The handle may have been stopped while the buffer was still decoding
+      if (!buffer || this.voices.get(id) !== voice) {
+        this.releaseVoice(id, voice)
+        return
+      }
+      voice.buffer = buffer
+      if (!voice.paused) this.startBuffer(id, voice)
+    })
+  }
+
+  private startBuffer(id: number, voice: SaaamVoice) {
+    if (!this.context || !voice.buffer) return
+
+    const source = this.context.createBufferSource()
+    source.buffer = voice.buffer
+    source.loop = voice.loop
+    source.connect(voice.gain)
+    source.onended = () => {
+      // Only a buffer that played to its end frees the voice; pausing replaces the source first
+      if (voice.source === source) this.releaseVoice(id, voice)
+    }
+    source.start(0, voice.offset % voice.buffer.duration)
+    voice.source = source
+    voice.startedAt = this.context.currentTime
+  }
+
+  private playMusic(id: number, name: string, volume: number, loop: boolean, crossfade: number) {
+    const sound = this.findSound(name)
+    const context = this.getContext()
+    if (!sound || !context) return
+
+    if (this.music !== null) this.stopVoice(this.music, crossfade)
+
+    const voice = this.createVoice(sound.name, "music", crossfade > 0 ? 0 : volume, loop)
+    if (!voice) return
+    voice.volume = volume
+
+    const element = new Audio(sound.url)
+    element.loop = loop
+    element.onended = () => this.releaseVoice(id, voice)
+    voice.element = element
+    voice.mediaSource = context.createMediaElementSource(element)
+    voice.mediaSource.connect(voice.gain)
+
+    if (crossfade > 0) {
+      voice.gain.gain.setValueAtTime(0, context.currentTime)
+      voice.gain.gain.linearRampToValueAtTime(volume, context.currentTime + crossfade)
+    }
+
+    this.voices.set(id, voice)
+    this.music = id
+    if (!this.suspended) this.playElement(voice)
+  }
+
+  private playElement(voice: SaaamVoice) {
+    voice.element?.play().catch((e) => this.warnOnce(voice.name, `Failed to play music '${voice.name}': ${e.message}`))
+  }
+
+  // Stop a voice, optionally fading it out over some seconds first
+  private stopVoice(id: number, fade = 0) {
+    const voice = this.voices.get(id)
+    if (!voice) return
+    if (this.music === id) this.music = null
+
+    if (fade > 0 && this.context && !voice.paused && !this.suspended) {
+      // Take it out of the handle map now so the same handle cannot be stopped or resumed twice
+      this.voices.delete(id)
+      const now = this.context.currentTime
+      voice.gain.gain.cancelScheduledValues(now)
+      voice.gain.gain.setValueAtTime(voice.gain.gain.value, now)
+      voice.gain.gain.linearRampToValueAtTime(0, now + fade)
+      setTimeout(() => this.releaseVoice(id, voice), fade * 1000)
+      return
+    }
+
+    this.releaseVoice(id, voice)
+  }
+
+  private releaseVoice(id: number, voice: SaaamVoice) {
+    if (this.voices.get(id) === voice) this.voices.delete(id)
+    if (this.music === id && !this.voices.has(id)) this.music = null
+
+    const source = voice.source
+    voice.source = undefined
+    try {
+      source?.stop()
+    } catch {
+      // Already stopped
+    }
+    source?.disconnect()
+    voice.element?.pause()
+    voice.mediaSource?.disconnect()
+    voice.gain.disconnect()
+  }
+
+  private pauseVoice(id: number) {
+    const voice = this.voices.get(id)
+    if (!voice || voice.paused) return
+    voice.paused = true
+
+    if (voice.element) {
+      voice.element.pause()
+    } else if (voice.source && voice.buffer && this.context) {
+      voice.offset += this.context.currentTime - voice.startedAt
+      const source = voice.source
+      voice.source = undefined
+      source.stop()
+      source.disconnect()
+    }
+  }
+
+  private resumeVoice(id: number) {
+    const voice = this.voices.get(id)
+    if (!voice || !voice.paused) return
+    voice.paused = false
+    if (!this.suspended) this.startVoice(id, voice)
+  }
+
+  private startVoice(id: number, voice: SaaamVoice) {
+    if (voice.element) {
+      this.playElement(voice)
+    } else if (voice.buffer && !voice.source) {
+      this.startBuffer(id, voice)
+    }
+  }
+
+  private setVoiceVolume(id: number, volume: number) {
+    const voice = this.voices.get(id)
+    if (!voice || !this.context) return
+    voice.volume = volume
+    voice.gain.gain.cancelScheduledValues(this.context.currentTime)
+    voice.gain.gain.value = volume
+  }
+
+  private setVolume(bus: SaaamAudioBus, volume: number) {
+    this.getContext()
+    if (this.buses) this.buses[bus].gain.value = Math.max(0, volume)
+  }
+
+  // Pause all audio while the game is paused; media elements keep playing through a suspended context,
+  // so music is paused separately
+  private suspend() {
+    if (this.suspended) return
+    this.suspended = true
+    this.context?.suspend().catch(() => {})
+    for (const voice of this.voices.values()) voice.element?.pause()
+  }
+
+  private resume() {
+    if (!this.suspended) return
+    this.suspended = false
+    this.context?.resume().catch(() => {})
+    for (const [id, voice] of this.voices) {
+      if (!voice.paused) this.startVoice(id, voice)
+    }
+  }
+
+  private warnOnce(key: string, message: string) {
+    if (this.warned.has(key)) return
+    this.warned.add(key)
+    this.onWarningCallback?.(message)
+  }
+}
@@ -0,0 +1,254 @@
+// SAAAM Camera - World-to-screen transform for a viewport, with follow, zoom, rotation, shake and bounds
+
+export type SaaamRect = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Anything with a position can be followed; width/height make the camera aim at its center
+export type SaaamCameraTarget = {
+  x: number
+  y: number
+  width?: number
+  height?: number
+}
+
+export type SaaamFollowOptions = {
+  // Fraction of the distance to the target covered each step; 1 snaps to it
+  lerp?: number
+  offsetX?: number
+  offsetY?: number
+}
+
+// Everything a camera tracks, as plain data for snapshots
+export type SaaamCameraSnapshot = {
+  x: number
+  y: number
+  zoom: number
+  rotation: number
+  viewport: SaaamRect
+  target: SaaamCameraTarget | null
+  followLerp: number
+  followOffset: { x: number; y: number }
+  bounds: SaaamRect | null
+  shakeIntensity: number
+  shakeDuration: number
+  shakeRemaining: number
+}
+
+// Create a camera for one viewport
+export class SaaamCamera {
+  // World point shown at the center of the viewport
+  public x: number
+  public y: number
+  public zoom = 1
+  // Radians; positive turns the drawn world clockwise on screen
+  public rotation = 0
+  // Screen rectangle the camera draws into
+  public viewport: SaaamRect
+
+  private target: SaaamCameraTarget | null = null
+  private followLerp = 1
+  private followOffset = { x: 0, y: 0 }
+  private bounds: SaaamRect | null = null
+  private shakeIntensity = 0
+  private shakeDuration = 0
+  private shakeRemaining = 0
+  private shakeOffset = { x: 0, y: 0 }
+  // Position at the start of the last step, for interpolated drawing in fixed timestep mode
+  private previous = { x: 0, y: 0 }
+
+  // random replaces Math.random for shaking, e.g. with a seeded generator
+  constructor(
+    viewport: SaaamRect,
+    private random: () => number = Math.random,
+  ) {
+    this.viewport = { ...viewport }
+    this.x = viewport.width / 2
+    this.y = viewport.height / 2
+    this.previous = { x: this.x, y: this.y }
+  }
+
+  // Keep a target in view, optionally easing towards it
+  public follow(target: SaaamCameraTarget | null, options: SaaamFollowOptions = {}) {
+    this.target = target
+    this.followLerp = Math.min(1, Math.max(0, options.lerp ?? 1))
+    this.followOffset = { x: options.offsetX ?? 0, y: options.offsetY ?? 0 }
+    return this
+  }
+
+  public unfollow() {
+    this.target = null
+    return this
+  }
+
+  // Jump to a world position without interpolating from the old one
+  public setPosition(x: number, y: number) {
+    this.x = x
+    this.y = y
+    this.clampToBounds()
+    this.previous = { x: this.x, y: this.y }
+    return this
+  }
+
+  public setZoom(zoom: number) {
+    this.zoom = Math.max(0.01, zoom)
+    return this
+  }
+
+  public setRotation(rotation: number) {
+    this.rotation = rotation
+    return this
+  }
+
+  // Shake the view by up to `intensity` pixels, fading out over `duration` seconds
+  public shake(intensity: number, duration = 0.3) {
+    this.shakeIntensity = Math.max(this.shakeIntensity, intensity)
+    this.shakeDuration = Math.max(duration, 0.001)
+    this.shakeRemaining = this.shakeDuration
+    return this
+  }
+
+  // Keep the visible area inside a world rectangle (rotation is not taken into account)
+  public setBounds(x: number, y: number, width: number, height: number) {
+    this.bounds = { x, y, width, height }
+    this.clampToBounds()
+    return this
+  }
+
+  public clearBounds() {
+    this.bounds = null
+    return this
+  }
+
+  // Move or resize the screen rectangle this camera draws into
+  public setViewport(x: number, y: number, width: number, height: number) {
+    this.viewport = { x, y, width, height }
+    return this
+  }
+
+  // Convert a canvas position to the world position under it
+  public screenToWorld(screenX: number, screenY: number) {
+    const dx = (screenX - this.viewport.x - this.viewport.width / 2) / this.zoom
+    const dy = (screenY - this.viewport.y - this.viewport.height / 2) / this.zoom
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    return {
+      x: this.x + this.shakeOffset.x + dx * cos + dy * sin,
+      y: this.y + this.shakeOffset.y - dx * sin + dy * cos,
+    }
+  }
+
+  // Convert a world position to where it appears on the canvas
+  public worldToScreen(worldX: number, worldY: number) {
+    const dx = worldX - this.x - this.shakeOffset.x
+    const dy = worldY - this.y - this.shakeOffset.y
+    const cos = Math.cos(this.rotation)
+    const sin = Math.sin(this.rotation)
+    return {
+      x: this.viewport.x + this.viewport.width / 2 + (dx * cos - dy * sin) * this.zoom,
+      y: this.viewport.y + this.viewport.height / 2 + (dx * sin + dy * cos) * this.zoom,
+    }
+  }
+
+  // World rectangle covered by the viewport (ignoring rotation), e.g. for culling
+  public getView(): SaaamRect {
+    const width = this.viewport.width / this.zoom
+    const height = this.viewport.height / this.zoom
+    return { x: this.x - width / 2, y: this.y - height / 2, width, height }
+  }
+
+  // Whether a canvas position falls inside this camera's viewport
+  public containsScreenPoint(screenX: number, screenY: number): boolean {
+    const { x, y, width, height } = this.viewport
+    return screenX >= x && screenX < x + width && screenY >= y && screenY < y + height
+  }
+
+  // Advance follow and shake by one step
+  public update(deltaTime: number) {
+    this.previous = { x: this.x, y: this.y }
+
+    if (this.target) {
+      const targetX = this.target.x + (this.target.width ?? 0) / 2 + this.followOffset.x
+      const targetY = this.target.y + (this.target.height ?? 0) / 2 + this.followOffset.y
+      this.x += (targetX - this.x) * this.followLerp
+      this.y += (targetY - this.y) * this.followLerp
+    }
+    this.clampToBounds()
+
+    if (this.shakeRemaining > 0) {
+      this.shakeRemaining = Math.max(0, this.shakeRemaining - deltaTime)
+      const strength = this.shakeIntensity * (this.shakeRemaining / this.shakeDuration)
+      this.shakeOffset = { x: (this.random() * 2 - 1) * strength, y: (this.random() * 2 - 1) * strength }
+      if (this.shakeRemaining === 0) this.shakeIntensity = 0
+    } else {
+      this.shakeOffset = { x: 0, y: 0 }
+    }
+  }
+
+  public getSnapshot(): SaaamCameraSnapshot {
+    return {
+      x: this.x,
+      y: this.y,
+      zoom: this.zoom,
+      rotation: this.rotation,
+      viewport: { ...this.viewport },
+      target: this.target,
+      followLerp: this.followLerp,
+      followOffset: { ...this.followOffset },
+      bounds: this.bounds && { ...this.bounds },
+      shakeIntensity: this.shakeIntensity,
+      shakeDuration: this.shakeDuration,
+      shakeRemaining: this.shakeRemaining,
+    }
+  }
+
+  // Put the camera back where a snapshot had it, without interpolating from the current position
+  public restoreSnapshot(snapshot: SaaamCameraSnapshot) {
+    this.x = snapshot.x
+    this.y = snapshot.y
+    this.zoom = snapshot.zoom
+    this.rotation = snapshot.rotation
+    this.viewport = { ...snapshot.viewport }
+    this.target = snapshot.target
+    this.followLerp = snapshot.followLerp
+    this.followOffset = { ...snapshot.followOffset }
+    this.bounds = snapshot.bounds && { ...snapshot.bounds }
+    this.shakeIntensity = snapshot.shakeIntensity
+    this.shakeDuration = snapshot.shakeDuration
+    this.shakeRemaining = snapshot.shakeRemaining
+    this.shakeOffset = { x: 0, y: 0 }
+    this.previous = { x: this.x, y: this.y }
+    return this
+  }
+
+  // Clip to the viewport and map world coordinates onto it; alpha blends from the previous step's position
+  public applyTransform(ctx: CanvasRenderingContext2D, alpha = 1) {
+    const x = this.previous.x + (this.x - this.previous.x) * alpha + this.shakeOffset.x
+    const y = this.previous.y + (this.y - this.previous.y) * alpha + this.shakeOffset.y
+    const { viewport } = this
+
+    ctx.beginPath()
+    ctx.rect(viewport.x, viewport.y, viewport.width, viewport.height)
+    ctx.clip()
+    ctx.translate(viewport.x + viewport.width / 2, viewport.y + viewport.height / 2)
+    if (this.rotation) ctx.rotate(this.rotation)
+    ctx.scale(this.zoom, this.zoom)
+    ctx.translate(-x, -y)
+  }
+
+  private clampToBounds() {
+    if (!this.bounds) return
+
+    const halfWidth = this.viewport.width / 2 / this.zoom
+    const halfHeight = this.viewport.height / 2 / this.zoom
+    const { x, y, width, height } = this.bounds
+
+    // A level smaller than the view stays centered
+    this.x = width < halfWidth * 2 ? x + width / 2 : Math.min(Math.max(this.x, x + halfWidth), x + width - halfWidth)
+    this.y =
+      height < halfHeight * 2 ? y + height / 2 : Math.min(Math.max(this.y, y + halfHeight), y + height - halfHeight)
+  }
+}
@@ -0,0 +1,236 @@
+// SAAAM Checker - Semantic pass that validates script usage of the SAAAM API
+
+import { SaaamLexer, type SaaamDiagnostic, type SaaamSourceRange, type SaaamToken } from "./saaam-lexer"
+import {
+  walkSaaamAst,
+  type SaaamExpression,
+  type SaaamMemberExpression,
+  type SaaamNode,
+  type SaaamProgram,
+} from "./saaam-parser"
+import { SAAAM_API, type SaaamApiEntry, type SaaamApiTable } from "./saaam-runtime"
+
+export type { SaaamApiEntry, SaaamApiTable }
+
+// Get the API table scripts are checked against, declared next to the runtime's SAAAM object
+export function getSaaamApiTable(): SaaamApiTable {
+  return SAAAM_API
+}
+
+// Find `import(...)`, `import.meta` and import declarations, so the editor can tell a script that it cannot load
+// code from elsewhere. This is a diagnostic only: code built at run time (e.g. with Function) escapes it, and what
+// stops the import is the worker's Content-Security-Policy. Read from the tokens, so it is also found in code the
+// parser does not understand
+export function findSaaamImports(code: string): SaaamDiagnostic[] {
+  const diagnostics: SaaamDiagnostic[] = []
+
+  const scan = (tokens: SaaamToken[]) => {
+    tokens.forEach((token, index) => {
+      if (token.type === "template") token.expressions?.forEach(scan)
+      if (token.type !== "identifier" || token.value !== "import") return
+      // Property names such as `loader.import(...)` or `{ import: ... }` are fine
+      const previous = tokens[index - 1]
+      const next = tokens[index + 1]
+      if (previous?.type === "punctuator" && (previous.value === "." || previous.value === "?.")) return
+      if (next?.type === "punctuator" && next.value === ":") return
+      diagnostics.push({
+        severity: "error",
+        message: "'import' is not allowed; SAAAM scripts cannot load other code",
+        range: token.range,
+      })
+    })
+  }
+
+  scan(new SaaamLexer(code).tokenize())
+  return diagnostics
+}
+
+// Create the SAAAM checker
+export class SaaamChecker {
+  private api: SaaamApiTable
+  private diagnostics: SaaamDiagnostic[] = []
+
+  constructor(api: SaaamApiTable = getSaaamApiTable()) {
+    this.api = api
+  }
+
+  // Check every SAAAM.* reference in the program against the API table
+  public check(ast: SaaamProgram): SaaamDiagnostic[] {
+    this.diagnostics = []
+
+    const guardedRanges: Array<{ path: string; range: SaaamSourceRange }> = []
+    const guardTests = new Set<SaaamNode>()
+    const assignedPaths = new Set<string>()
+
+    walkSaaamAst(ast, (node) => {
+      // `if (SAAAM.playMusic) { ... }` and `SAAAM.x && SAAAM.x()` feature checks
+      if (node.type === "IfStatement" || node.type === "ConditionalExpression") {
+        for (const member of this.guardMembers(node.test)) {
+          guardTests.add(member)
+          guardedRanges.push({ path: this.memberPath(member)!.join("."), range: node.consequent.range })
+        }
+      } else if (node.type === "LogicalExpression" && node.operator === "&&") {
+        for (const member of this.guardMembers(node.left)) {
+          guardTests.add(member)
+          guardedRanges.push({ path: this.memberPath(member)!.join("."), range: node.right.range })
+        }
+      }
+
+      // Scripts may extend the API themselves (`SAAAM.helper = ...`)
+      if (node.type === "AssignmentExpression" && node.left.type === "MemberExpression") {
+        const path = this.memberPath(node.left)
+        if (path) assignedPaths.add(path.join("."))
+      }
+    })
+
+    walkSaaamAst(ast, (node, parent) => {
+      if (node.type !== "MemberExpression") return
+      // Only resolve the outermost member chain (`SAAAM.vk.left`, not `SAAAM.vk`)
+      if (parent?.type === "MemberExpression" && parent.object === node) return
+
+      const path = this.memberPath(node)
+      if (!path) return
+
+      const joined = path.join(".")
+      if (guardTests.has(node) || [...assignedPaths].some((p) => joined === p || joined.startsWith(p + "."))) return
+      const guarded = guardedRanges.some(
+        (guard) =>
+          (joined === guard.path || joined.startsWith(guard.path + ".")) && this.contains(guard.range, node.range),
+      )
+
+      const call = parent?.type === "CallExpression" && parent.callee === node ? parent : null
+      this.checkMember(path, node, call ? call.arguments : null, call ? call.range : node.range, guarded)
+    })
+
+    return this.diagnostics
+  }
+
+  private checkMember(
+    path: string[],
+    node: SaaamMemberExpression,
+    args: Array<SaaamExpression | { type: "SpreadElement" }> | null,
+    callRange: SaaamSourceRange,
+    guarded: boolean,
+  ) {
+    let members = this.api
+    let entry: SaaamApiEntry | undefined
+
+    for (let i = 0; i < path.length; i++) {
+      entry = members[path[i]]
+      const name = ["SAAAM", ...path.slice(0, i + 1)].join(".")
+
+      if (!entry) {
+        if (guarded) return
+        const suggestion = this.closestName(path[i], Object.keys(members))
+        const hint = suggestion ? ` Did you mean '${suggestion}'?` : ""
+        if (path[0] === "vk" && i === 1) {
+          this.report(`Unknown key name '${name}'.${hint}`, node.range)
+        } else if (args && i === path.length - 1) {
+          this.report(`'${name}' is not a function exposed by the SAAAM runtime.${hint}`, node.range)
+        } else {
+          this.report(`Unknown SAAAM member '${name}'.${hint}`, node.range)
+        }
+        return
+      }
+
+      if (i < path.length - 1) {
+        // Stop at anything we cannot look inside (e.g. methods on returned values)
+        if (entry.kind !== "object") return
+        members = entry.members
+      }
+    }
+
+    if (!entry || !args) return
+    const name = ["SAAAM", ...path].join(".")
+
+    if (entry.kind !== "function") {
+      this.report(`'${name}' is not a function`, node.range)
+      return
+    }
+
+    // A spread argument makes the count unknowable
+    if (args.some((arg) => arg.type === "SpreadElement")) return
+
+    if (args.length < entry.minArgs) {
+      this.report(
+        `'${name}' expects ${this.describeCount(entry.minArgs, entry.maxArgs)} but got ${args.length}`,
+        callRange,
+      )
+    } else if (args.length > entry.maxArgs) {
+      this.report(
+        `'${name}' expects ${this.describeCount(entry.minArgs, entry.maxArgs)} but got ${args.length}; extra arguments are ignored`,
+        callRange,
+      )
+    }
+  }
+
+  // Members used as the condition of a feature check
+  private guardMembers(test: SaaamExpression): SaaamMemberExpression[] {
+    if (test.type === "MemberExpression" && this.memberPath(test)) return [test]
+    if (test.type === "LogicalExpression" && test.operator === "&&") {
+      return [...this.guardMembers(test.left), ...this.guardMembers(test.right)]
+    }
+    if (test.type === "UnaryExpression" && test.operator === "typeof") return this.guardMembers(test.argument)
+    if (test.type === "BinaryExpression" && test.left.type === "UnaryExpression") return this.guardMembers(test.left)
+    return []
+  }
+
+  // Resolve `SAAAM.a.b` to ["a", "b"]; null for anything not rooted at SAAAM with static property names
+  private memberPath(node: SaaamMemberExpression): string[] | null {
+    const path: string[] = []
+    let current: SaaamExpression = node
+
+    while (current.type === "MemberExpression") {
+      if (current.computed || current.property.type !== "Identifier") return null
+      path.unshift(current.property.name)
+      current = current.object
+    }
+
+    return current.type === "Identifier" && current.name === "SAAAM" ? path : null
+  }
+
+  private closestName(name: string, candidates: string[]): string | null {
+    let best: string | null = null
+    // Allow one typo in short names, two in longer ones
+    let bestDistance = (name.length <= 3 ? 1 : 2) + 1
+
+    for (const candidate of candidates) {
+      const distance = this.editDistance(name.toLowerCase(), candidate.toLowerCase())
+      if (distance < bestDistance) {
+        best = candidate
+        bestDistance = distance
+      }
+    }
+
+    return best
+  }
+
+  private editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0]
+      row[0] = i
+      for (let j = 1; j <= b.length; j++) {
+        const temp = row[j]
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1))
+        previous = temp
+      }
+    }
+    return row[b.length]
+  }
+
+  private describeCount(min: number, max: number): string {
+    const plural = (n: number) => (n === 1 ? "argument" : "arguments")
+    if (min === max) return `${min} ${plural(min)}`
+    if (max === Infinity) return `at least ${min} ${plural(min)}`
+    return `${min}-${max} arguments`
+  }
+
+  private contains(outer: SaaamSourceRange, inner: SaaamSourceRange): boolean {
+    return outer.start.offset <= inner.start.offset && inner.end.offset <= outer.end.offset
+  }
+
+  private report(message: string, range: SaaamSourceRange) {
+    this.diagnostics.push({ severity: "warning", message, range })
+  }
+}
@@ -0,0 +1,233 @@
+// SAAAM Collision - Collision shapes for game objects and a spatial hash for finding nearby ones
+
+import type { SaaamRect } from "./saaam-camera"
+
+// Collision mask of a game object, relative to its x/y. Without one, an object collides as its
+// x/y/width/height box
+export type SaaamCollisionMask =
+  | { type: "rect"; x?: number; y?: number; width?: number; height?: number }
+  // Centered on the object's box unless x/y are given; radius defaults to half the box's smaller side
+  | { type: "circle"; x?: number; y?: number; radius?: number }
+
+// A mask placed in the world
+export type SaaamCollisionShape =
+  | { type: "rect"; x: number; y: number; width: number; height: number }
+  | { type: "circle"; x: number; y: number; radius: number }
+
+type SaaamMaskedObject = {
+  x: number
+  y: number
+  width: number
+  height: number
+  mask?: SaaamCollisionMask | null
+}
+
+// Place an object's mask as if the object were at x, y
+export function getCollisionShape(obj: SaaamMaskedObject, x = obj.x, y = obj.y): SaaamCollisionShape {
+  const mask = obj.mask
+  if (mask?.type === "circle") {
+    return {
+      type: "circle",
+      x: x + (mask.x ?? obj.width / 2),
+      y: y + (mask.y ?? obj.height / 2),
+      radius: mask.radius ?? Math.min(obj.width, obj.height) / 2,
+    }
+  }
+  return {
+    type: "rect",
+    x: x + (mask?.x ?? 0),
+    y: y + (mask?.y ?? 0),
+    width: mask?.width ?? obj.width,
+    height: mask?.height ?? obj.height,
+  }
+}
+
+// Axis-aligned box around a shape
+export function getShapeBounds(shape: SaaamCollisionShape): SaaamRect {
+  if (shape.type === "circle") {
+    return { x: shape.x - shape.radius, y: shape.y - shape.radius, width: shape.radius * 2, height: shape.radius * 2 }
+  }
+  return shape
+}
+
+// Whether two shapes overlap; shapes that only touch along an edge do not
+export function shapesOverlap(a: SaaamCollisionShape, b: SaaamCollisionShape): boolean {
+  if (a.type === "rect" && b.type === "rect") {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+  }
+  if (a.type === "circle" && b.type === "circle") {
+    const radius = a.radius + b.radius
+    return (a.x - b.x) ** 2 + (a.y - b.y) ** 2 < radius * radius
+  }
+
+  const circle = (a.type === "circle" ? a : b) as Extract<SaaamCollisionShape, { type: "circle" }>
+  const rect = (a.type === "rect" ? a : b) as Extract<SaaamCollisionShape, { type: "rect" }>
+  const nearestX = Math.max(rect.x, Math.min(circle.x, rect.x + rect.width))
+  const nearestY = Math.max(rect.y, Math.min(circle.y, rect.y + rect.height))
+  return (circle.x - nearestX) ** 2 + (circle.y - nearestY) ** 2 < circle.radius * circle.radius
+}
+
+// Whether a point lies inside a shape
+export function shapeContainsPoint(shape: SaaamCollisionShape, x: number, y: number): boolean {
+  if (shape.type === "circle") {
+    return (x - shape.x) ** 2 + (y - shape.y) ** 2 <= shape.radius * shape.radius
+  }
+  return x >= shape.x && x < shape.x + shape.width && y >= shape.y && y < shape.y + shape.height
+}
+
+// Where along the segment (0 at the start, 1 at the end) it first enters a shape, or null if it misses
+export function segmentHitsShape(
+  shape: SaaamCollisionShape,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): number | null {
+  const dx = x2 - x1
+  const dy = y2 - y1
+
+  if (shape.type === "circle") {
+    const fx = x1 - shape.x
+    const fy = y1 - shape.y
+    const c = fx * fx + fy * fy - shape.radius * shape.radius
+    if (c <= 0) return 0
+
+    const a = dx * dx + dy * dy
+    const b = 2 * (fx * dx + fy * dy)
+    const discriminant = b * b - 4 * a * c
+    if (a === 0 || discriminant < 0) return null
+
+    const t = (-b - Math.sqrt(discriminant)) / (2 * a)
+    return t >= 0 && t <= 1 ? t : null
+  }
+
+  // Slab test: clip the segment against the box one axis at a time
+  const starts = [x1, y1]
+  const directions = [dx, dy]
+  const mins = [shape.x, shape.y]
+  const maxes = [shape.x + shape.width, shape.y + shape.height]
+  let enter = 0
+  let exit = 1
+  for (let axis = 0; axis < 2; axis++) {
+    if (directions[axis] === 0) {
+      if (starts[axis] < mins[axis] || starts[axis] > maxes[axis]) return null
+      continue
+    }
+    let near = (mins[axis] - starts[axis]) / directions[axis]
+    let far = (maxes[axis] - starts[axis]) / directions[axis]
+    if (near > far) [near, far] = [far, near]
+    enter = Math.max(enter, near)
+    exit = Math.min(exit, far)
+    if (enter > exit) return null
+  }
+  return enter
+}
+
+type SaaamCellRange = { minX: number; minY: number; maxX: number; maxY: number }
+
+// Buckets items by the grid cells their bounds cover, so finding what is near a point or box only looks at
+// the items in the cells it covers instead of at every item
+export class SaaamSpatialHash<T> {
+  private cells: Map<string, Set<T>> = new Map()
+  private ranges: Map<T, SaaamCellRange> = new Map()
+
+  constructor(private cellSize = 64) {}
+
+  // Add an item, or move it if its bounds now cover different cells
+  public update(item: T, bounds: SaaamRect) {
+    const range = this.getCellRange(bounds)
+    const current = this.ranges.get(item)
+    if (
+      current &&
+      current.minX === range.minX &&
+      current.minY === range.minY &&
+      current.maxX === range.maxX &&
+      current.maxY === range.maxY
+    ) {
+      return
+    }
+
+    if (current) this.removeFromCells(item, current)
+    this.ranges.set(item, range)
+    this.forEachCell(range, (key) => {
+      let cell = this.cells.get(key)
+      if (!cell) {
+        cell = new Set()
+        this.cells.set(key, cell)
+      }
+      cell.add(item)
+    })
+  }
+
+  public remove(item: T) {
+    const range = this.ranges.get(item)
+    if (!range) return
+    this.removeFromCells(item, range)
+    this.ranges.delete(item)
+  }
+
+  public has(item: T): boolean {
+    return this.ranges.has(item)
+  }
+
+  public clear() {
+    this.cells.clear()
+    this.ranges.clear()
+  }
+
+  // Items whose cells overlap the bounds; callers still need an exact test
+  public query(bounds: SaaamRect): Set<T> {
+    const found = new Set<T>()
+    const range = this.getCellRange(bounds)
+
+    // A query covering more cells than there are items is cheaper to answer item by item
+    if ((range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > this.ranges.size) {
+      this.ranges.forEach((other, item) => {
+        if (
+          other.minX <= range.maxX &&
+          range.minX <= other.maxX &&
+          other.minY <= range.maxY &&
+          range.minY <= other.maxY
+        ) {
+          found.add(item)
+        }
+      })
+      return found
+    }
+
+    this.forEachCell(range, (key) => {
+      this.cells.get(key)?.forEach((item) => found.add(item))
+    })
+    return found
+  }
+
+  private getCellRange(bounds: SaaamRect): SaaamCellRange {
+    // Bad positions (NaN, Infinity) would otherwise cover no cells or endlessly many
+    if (![bounds.x, bounds.y, bounds.width, bounds.height].every(Number.isFinite)) {
+      return { minX: 0, minY: 0, maxX: -1, maxY: -1 }
+    }
+    return {
+      minX: Math.floor(bounds.x / this.cellSize),
+      minY: Math.floor(bounds.y / this.cellSize),
+      maxX: Math.floor((bounds.x + bounds.width) / this.cellSize),
+      maxY: Math.floor((bounds.y + bounds.height) / this.cellSize),
+    }
+  }
+
+  private forEachCell(range: SaaamCellRange, callback: (key: string) => void) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        callback(`${x},${y}`)
+      }
+    }
+  }
+
+  private removeFromCells(item: T, range: SaaamCellRange) {
+    this.forEachCell(range, (key) => {
+      const cell = this.cells.get(key)
+      if (!cell) return
+      cell.delete(item)
+      if (cell.size === 0) this.cells.delete(key)
+    })
+  }
+}
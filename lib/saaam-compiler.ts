@@ -1,4 +1,18 @@
+import { SaaamChecker, findSaaamImports } from "./saaam-checker"
+import type { SaaamDiagnostic } from "./saaam-lexer"
+import { parseSaaam, type SaaamParseResult, type SaaamProgram } from "./saaam-parser"
+
+export type SaaamCompileResult = {
+  success: boolean
+  errors?: string[]
+  warnings?: string[]
+  diagnostics: SaaamDiagnostic[]
+  ast: SaaamProgram
+}
+
 export class SaaamCompiler {
+  private checker: SaaamChecker | null = null
+
   constructor() {
     this.initialize()
   }
@@ -7,38 +21,41 @@ export class SaaamCompiler {
     console.log("SaaamCompiler initialized")
   }
 
-  compile(code: string): { success: boolean; errors?: string[]; warnings?: string[] } {
-    // Simple validation for demo purposes
-    const errors = []
-    const warnings = []
-
-    // Check for basic syntax errors (very simplified)
-    const lines = code.split("\n")
-    lines.forEach((line, i) => {
-      // Check for missing semicolons on statements
-      if (
-        line.trim() &&
-        !line.trim().startsWith("//") &&
-        !line.includes("{") &&
-        !line.includes("}") &&
-        !line.endsWith(";") &&
-        !line.trim().endsWith(")")
-      ) {
-        errors.push(`Line ${i + 1}: Missing semicolon`)
-      }
-
-      // Check for mismatched parentheses
-      const openCount = (line.match(/\(/g) || []).length
-      const closeCount = (line.match(/\)/g) || []).length
-      if (openCount !== closeCount) {
-        errors.push(`Line ${i + 1}: Mismatched parentheses`)
-      }
-    })
+  // Tokenize and parse a .saaam script into an AST
+  parse(code: string): SaaamParseResult {
+    return parseSaaam(code)
+  }
+
+  // Check a parsed script against the API exposed by SaaamRuntime
+  check(ast: SaaamProgram): SaaamDiagnostic[] {
+    if (!this.checker) {
+      this.checker = new SaaamChecker()
+    }
+    return this.checker.check(ast)
+  }
+
+  compile(code: string): SaaamCompileResult {
+    const { ast, diagnostics } = this.parse(code)
+
+    // Read from the tokens, so it is reported even for a script the parser cannot read
+    diagnostics.push(...findSaaamImports(code))
+
+    // Only check API usage once the script parses cleanly
+    if (!diagnostics.some((d) => d.severity === "error")) {
+      diagnostics.push(...this.check(ast))
+    }
+
+    const format = (diagnostic: SaaamDiagnostic) =>
+      `Line ${diagnostic.range.start.line}, Col ${diagnostic.range.start.column}: ${diagnostic.message}`
+    const errors = diagnostics.filter((d) => d.severity === "error").map(format)
+    const warnings = diagnostics.filter((d) => d.severity === "warning").map(format)
 
     return {
       success: errors.length === 0,
       errors,
       warnings,
+      diagnostics,
+      ast,
     }
   }
 }
@@ -0,0 +1,542 @@
+// SAAAM Debugger - Instruments scripts so they can stop at breakpoints, step through lines and show variables
+
+import type { SaaamDiagnostic } from "./saaam-lexer"
+import {
+  parseSaaam,
+  type SaaamArrowFunctionExpression,
+  type SaaamFunctionDeclaration,
+  type SaaamFunctionExpression,
+  type SaaamNode,
+  type SaaamPattern,
+  type SaaamStatement,
+} from "./saaam-parser"
+
+// How a paused script goes on
+export type SaaamDebugCommand =
+  | "continue"
+  | "stepOver"
+  | "stepInto"
+  | "stepOut"
+  // Run on without stopping again, e.g. because the game is being stopped
+  | "detach"
+
+// How a variable was declared; "this" is the receiver of the function being run
+export type SaaamDebugVariableKind = "var" | "let" | "const" | "function" | "class" | "param" | "this"
+
+export type SaaamDebugVariable = {
+  name: string
+  kind: SaaamDebugVariableKind
+  // typeof the value, with "null" and "array" told apart from "object"
+  type: string
+  // Short, readable form of the value
+  value: string
+}
+
+export type SaaamDebugFrame = {
+  name: string
+  line: number
+  // Only known for the innermost frame, the one that is paused
+  locals: SaaamDebugVariable[] | null
+}
+
+export type SaaamDebugPause = {
+  line: number
+  reason: "breakpoint" | "step"
+  // Innermost frame first
+  callStack: SaaamDebugFrame[]
+  globals: SaaamDebugVariable[]
+}
+
+// Names and kinds a getter reads, in getter index order
+type SaaamDebugScope = Array<[string, SaaamDebugVariableKind]>
+
+type SaaamDebugGetter = (index: number) => unknown
+
+// Name of the hooks object instrumented scripts call
+export const DEBUG_HOOKS = "__saaamDebug"
+
+const FRAME_VARIABLE = "__saaamFrame"
+
+// A declared name and where it becomes readable; hoisted names are readable from offset 0
+type ScopeEntry = { name: string; kind: SaaamDebugVariableKind; offset: number }
+
+// Rewrite a script so it reports every statement to the debugger hooks. Inserted code never adds line
+// breaks, so line numbers (in breakpoints and error messages) still match the original script. A script the
+// parser cannot read is returned as it is, with the error, so the caller can say why it will not stop
+export function instrumentSaaam(code: string): { source: string; error: SaaamDiagnostic | null } {
+  const { ast, diagnostics } = parseSaaam(code)
+  const error = diagnostics.find((diagnostic) => diagnostic.severity === "error")
+  if (error) return { source: code, error }
+
+  // Names declared directly in a statement list; var declarations anywhere in a function are hoisted to it
+  const declaredIn = (statements: SaaamStatement[]): ScopeEntry[] => {
+    const entries: ScopeEntry[] = []
+    for (const statement of statements) {
+      if (statement.type === "FunctionDeclaration") {
+        entries.push({ name: statement.id.name, kind: "function", offset: 0 })
+      } else if (statement.type === "ClassDeclaration") {
+        entries.push({ name: statement.id.name, kind: "class", offset: statement.range.end.offset })
+      } else if (statement.type === "VariableDeclaration" && statement.kind !== "var") {
+        entries.push(...declarationEntries(statement))
+      }
+    }
+    return entries
+  }
+
+  const hoistedVars = (node: SaaamNode): ScopeEntry[] => {
+    const entries: ScopeEntry[] = []
+    const visit = (current: SaaamNode) => {
+      if (current.type === "VariableDeclaration" && current.kind === "var") {
+        entries.push(...declarationEntries(current).map((entry) => ({ ...entry, offset: 0 })))
+      }
+      for (const child of childNodes(current)) {
+        if (!isFunction(child)) visit(child)
+      }
+    }
+    visit(node)
+    return entries
+  }
+
+  const globals = [...hoistedVars(ast), ...declaredIn(ast.body)]
+
+  // Statement probe: reports the line and, if the debugger stops there, hands it a getter for the locals
+  const probe = (statement: SaaamStatement, locals: ScopeEntry[], hasThis: boolean) => {
+    const visible = locals.filter((entry) => entry.offset <= statement.range.start.offset)
+    const scope: SaaamDebugScope = visible.map((entry) => [entry.name, entry.kind])
+    const names = visible.map((entry) => entry.name)
+    if (hasThis) {
+      scope.push(["this", "this"])
+      names.push("this")
+    }
+    return `;if (${DEBUG_HOOKS}.line(${statement.range.start.line})) ${DEBUG_HOOKS}.pause(${JSON.stringify(scope)}, ${getter(names)});`
+  }
+
+  type Context = { locals: ScopeEntry[]; hasThis: boolean; functionName: string | null }
+
+  const rewrite = (node: SaaamNode, context: Context, parent: SaaamNode | null): string => {
+    if (isFunction(node)) return rewriteFunction(node, context, parent)
+
+    if (node.type === "BlockStatement") {
+      const inner = { ...context, locals: [...context.locals, ...declaredIn(node.body)] }
+      return rewriteStatements(node, node.body, inner)
+    }
+
+    if (node.type === "SwitchStatement") {
+      const statements = node.cases.flatMap((switchCase) => switchCase.consequent)
+      const inner = { ...context, locals: [...context.locals, ...declaredIn(statements)] }
+      return rewriteChildren(node, inner)
+    }
+
+    if (node.type === "SwitchCase") return rewriteStatements(node, node.consequent, context)
+
+    if (
+      node.type === "ForStatement" ||
+      node.type === "ForInStatement" ||
+      node.type === "ForOfStatement" ||
+      node.type === "WhileStatement" ||
+      node.type === "DoWhileStatement"
+    ) {
+      const head = node.type === "ForStatement" ? node.init : "left" in node ? node.left : null
+      const loopLocals =
+        head?.type === "VariableDeclaration" && head.kind !== "var"
+          ? declarationEntries(head).map((entry) => ({ ...entry, offset: 0 }))
+          : []
+      const inner = { ...context, locals: [...context.locals, ...loopLocals] }
+      return rewriteChildren(node, inner, (child) => (child === node.body ? wrapBody(node.body, inner) : null))
+    }
+
+    if (node.type === "IfStatement") {
+      return rewriteChildren(node, context, (child) =>
+        child === node.consequent || child === node.alternate ? wrapBody(child as SaaamStatement, context) : null,
+      )
+    }
+
+    if (node.type === "TryStatement") {
+      const catchLocals = node.param ? patternEntries(node.param, "let", 0) : []
+      return rewriteChildren(node, context, (child) =>
+        child === node.handler
+          ? rewrite(child, { ...context, locals: [...context.locals, ...catchLocals] }, node)
+          : null,
+      )
+    }
+
+    return rewriteChildren(node, context)
+  }
+
+  // Copy a node's source, rewriting its children; `override` may supply the text of some children itself
+  const rewriteChildren = (
+    node: SaaamNode,
+    context: Context,
+    override: (child: SaaamNode) => string | null = () => null,
+  ): string => {
+    let cursor = node.range.start.offset
+    let text = ""
+    for (const child of childNodes(node).sort((a, b) => a.range.start.offset - b.range.start.offset)) {
+      // Shorthand properties share one node for key and value
+      if (child.range.start.offset < cursor) continue
+      text += code.slice(cursor, child.range.start.offset)
+      text += override(child) ?? rewrite(child, context, node)
+      cursor = child.range.end.offset
+    }
+    return text + code.slice(cursor, node.range.end.offset)
+  }
+
+  // Copy a statement list (a block, a switch case or the program), with a probe before every statement
+  const rewriteStatements = (node: SaaamNode, statements: SaaamStatement[], context: Context): string => {
+    let cursor = node.range.start.offset
+    let text = ""
+    for (const statement of statements) {
+      text += code.slice(cursor, statement.range.start.offset)
+      // Nothing runs at a function declaration or an empty statement, so there is nothing to stop at
+      if (statement.type !== "FunctionDeclaration" && statement.type !== "EmptyStatement") {
+        text += probe(statement, context.locals, context.hasThis)
+      }
+      text += rewrite(statement, context, node)
+      cursor = statement.range.end.offset
+    }
+    return text + code.slice(cursor, node.range.end.offset)
+  }
+
+  // Give a single-statement body (`if (x) y()`) braces, so it can have a probe of its own
+  const wrapBody = (body: SaaamStatement, context: Context): string => {
+    if (body.type === "BlockStatement") return rewrite(body, context, null)
+    return `{${probe(body, context.locals, context.hasThis)}${rewrite(body, context, null)}}`
+  }
+
+  // Report calls of functions with a block body as frames of the call stack
+  const rewriteFunction = (
+    node: SaaamFunctionDeclaration | SaaamFunctionExpression | SaaamArrowFunctionExpression,
+    context: Context,
+    parent: SaaamNode | null,
+  ): string => {
+    if (node.body.type !== "BlockStatement") return rewriteChildren(node, context)
+
+    const body = node.body
+    const params = node.params.flatMap((param) => patternEntries(param, "param", 0))
+    // `this` cannot be read before super() in a constructor, so the inspector leaves it out there
+    const isConstructor = parent?.type === "MethodDefinition" && parent.kind === "constructor"
+    const inner: Context = {
+      locals: [...params, ...hoistedVars(body), ...declaredIn(body.body)],
+      hasThis: node.type === "ArrowFunctionExpression" ? context.hasThis : !isConstructor,
+      functionName: functionName(node, parent),
+    }
+
+    return rewriteChildren(node, inner, (child) => {
+      if (child !== body) return null
+      const open = body.range.start.offset + 1
+      const close = body.range.end.offset - 1
+      const statements = rewriteStatements(
+        { ...body, range: { start: { ...body.range.start, offset: open }, end: { ...body.range.end, offset: close } } },
+        body.body,
+        inner,
+      )
+      // Async functions and generators leave and resume halfway through, so they get probes but no frame
+      if (node.async || ("generator" in node && node.generator)) return `{${statements}}`
+      return (
+        `{const ${FRAME_VARIABLE} = ${DEBUG_HOOKS}.enter(${JSON.stringify(inner.functionName)}, ${node.range.start.line}); try {` +
+        `${statements}} finally { ${DEBUG_HOOKS}.exit(${FRAME_VARIABLE}) }}`
+      )
+    })
+  }
+
+  // Keep comments before the first and after the last statement
+  const whole = {
+    ...ast,
+    range: { start: { line: 1, column: 1, offset: 0 }, end: { ...ast.range.end, offset: code.length } },
+  }
+  const program = rewriteStatements(whole, ast.body, { locals: [], hasThis: false, functionName: null })
+  const globalScope: SaaamDebugScope = globals.map((entry) => [entry.name, entry.kind])
+  const register = `${DEBUG_HOOKS}.globals(${JSON.stringify(globalScope)}, ${getter(globals.map((entry) => entry.name))});`
+  return { source: register + program, error: null }
+}
+
+// Source of a function that returns the value of the index-th name
+function getter(names: string[]): string {
+  if (names.length === 0) return "null"
+  const cases = names.map((name, index) => `__i === ${index} ? ${name} : `).join("")
+  return `(__i) => ${cases}undefined`
+}
+
+function isFunction(
+  node: SaaamNode,
+): node is SaaamFunctionDeclaration | SaaamFunctionExpression | SaaamArrowFunctionExpression {
+  return (
+    node.type === "FunctionDeclaration" || node.type === "FunctionExpression" || node.type === "ArrowFunctionExpression"
+  )
+}
+
+// Name shown in the call stack: the function's own name, or what it is assigned to
+function functionName(node: SaaamNode, parent: SaaamNode | null): string {
+  if ((node.type === "FunctionDeclaration" || node.type === "FunctionExpression") && node.id) return node.id.name
+  if (parent?.type === "VariableDeclarator" && parent.id.type === "Identifier") return parent.id.name
+  if (
+    (parent?.type === "Property" || parent?.type === "MethodDefinition" || parent?.type === "PropertyDefinition") &&
+    !parent.computed
+  ) {
+    if (parent.key.type === "Identifier") return parent.key.name
+    if (parent.key.type === "PrivateIdentifier") return `#${parent.key.name}`
+    if (parent.key.type === "Literal") return String(parent.key.value)
+  }
+  if (parent?.type === "AssignmentExpression") {
+    if (parent.left.type === "Identifier") return parent.left.name
+    if (parent.left.type === "MemberExpression" && parent.left.property.type === "Identifier") {
+      return parent.left.property.name
+    }
+  }
+  // SAAAM.registerStep(function (dt) { ... }) is shown as "step"
+  if (parent?.type === "CallExpression" && parent.callee.type === "MemberExpression") {
+    const property = parent.callee.property
+    const registered = property.type === "Identifier" && property.name.match(/^register(\w+)$/)
+    if (registered) return registered[1].charAt(0).toLowerCase() + registered[1].slice(1)
+  }
+  return "(anonymous)"
+}
+
+function declarationEntries(declaration: SaaamNode): ScopeEntry[] {
+  if (declaration.type !== "VariableDeclaration") return []
+  return declaration.declarations.flatMap((declarator) =>
+    patternEntries(declarator.id, declaration.kind, declarator.range.end.offset),
+  )
+}
+
+function patternEntries(pattern: SaaamPattern, kind: SaaamDebugVariableKind, offset: number): ScopeEntry[] {
+  switch (pattern.type) {
+    case "Identifier":
+      return [{ name: pattern.name, kind, offset }]
+    case "AssignmentPattern":
+      return patternEntries(pattern.left, kind, offset)
+    case "RestElement":
+      return patternEntries(pattern.argument, kind, offset)
+    case "ArrayPattern":
+      return pattern.elements.flatMap((element) => (element ? patternEntries(element, kind, offset) : []))
+    case "ObjectPattern":
+      return pattern.properties.flatMap((property) =>
+        "type" in property ? patternEntries(property, kind, offset) : patternEntries(property.value, kind, offset),
+      )
+    default:
+      return []
+  }
+}
+
+// Direct child nodes, the way walkSaaamAst finds them
+function childNodes(node: SaaamNode): SaaamNode[] {
+  const children: SaaamNode[] = []
+  for (const key of Object.keys(node)) {
+    if (key === "range") continue
+    const value = (node as any)[key]
+    const values = Array.isArray(value) ? value : [value]
+    for (const child of values) {
+      if (child && typeof child === "object" && "type" in child) children.push(child)
+      // Object pattern properties are plain records holding key/value nodes
+      else if (child && typeof child === "object" && "value" in child && "key" in child) {
+        if (child.computed) children.push(child.key)
+        children.push(child.value)
+      }
+    }
+  }
+  return children
+}
+
+// Describe a value for the variable inspector
+export function describeDebugValue(value: unknown): { type: string; value: string } {
+  const type = value === null ? "null" : Array.isArray(value) ? "array" : typeof value
+  return { type, value: formatDebugValue(value, 2) }
+}
+
+const MAX_VALUE_LENGTH = 200
+
+function formatDebugValue(value: unknown, depth: number): string {
+  let text: string
+  if (typeof value === "string") {
+    text = JSON.stringify(value)
+  } else if (typeof value === "function") {
+    text = `function ${value.name || "(anonymous)"}()`
+  } else if (value === null || typeof value !== "object") {
+    text = String(value)
+  } else if (depth === 0) {
+    text = Array.isArray(value) ? `Array(${value.length})` : "{…}"
+  } else if (Array.isArray(value)) {
+    text = `[${value
+      .slice(0, 10)
+      .map((item) => formatDebugValue(item, depth - 1))
+      .join(", ")}${value.length > 10 ? ", …" : ""}]`
+  } else {
+    const keys = Object.keys(value)
+    const fields = keys
+      .slice(0, 10)
+      .map((key) => `${key}: ${formatDebugValue((value as Record<string, unknown>)[key], depth - 1)}`)
+    text = `{${fields.join(", ")}${keys.length > 10 ? ", …" : ""}}`
+  }
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+}
+
+type SaaamDebugStackFrame = { name: string; line: number }
+
+// Decides where an instrumented script stops. `waitForCommand` is called when it does; it must not return
+// until the user picked how to go on (a worker blocks on Atomics.wait for that)
+export class SaaamDebugger {
+  private breakpoints: Set<number> = new Set()
+  private frames: SaaamDebugStackFrame[] = []
+  private currentLine = 0
+  private mode: SaaamDebugCommand = "continue"
+  // Call depth the current step started at
+  private stepDepth = 0
+  private pauseReason: SaaamDebugPause["reason"] = "breakpoint"
+  // Frame and line of the last pause; other statements on that line (`if (x) y()`) do not stop again
+  private pausedAt: { frame: SaaamDebugStackFrame | undefined; line: number } | null = null
+  private globalScope: SaaamDebugScope = []
+  private globalGetter: SaaamDebugGetter | null = null
+
+  constructor(private waitForCommand: (pause: SaaamDebugPause) => SaaamDebugCommand) {}
+
+  // Set the lines to stop at
+  public setBreakpoints(lines: number[]) {
+    this.breakpoints = new Set(lines)
+    return this
+  }
+
+  // Stop at breakpoints again after a "detach"
+  public resume() {
+    this.mode = "continue"
+    return this
+  }
+
+  // Forget the call stack, e.g. when a new script is loaded
+  public reset() {
+    this.frames = []
+    this.mode = "continue"
+    this.pausedAt = null
+    this.globalScope = []
+    this.globalGetter = null
+    return this
+  }
+
+  // The functions instrumented scripts call, bound to this debugger
+  public getHooks() {
+    return {
+      globals: (scope: SaaamDebugScope, get: SaaamDebugGetter | null) => {
+        this.globalScope = scope
+        this.globalGetter = get
+      },
+      enter: (name: string, line: number) => this.enter(name, line),
+      exit: (frame: SaaamDebugStackFrame) => this.exit(frame),
+      line: (line: number) => this.line(line),
+      pause: (scope: SaaamDebugScope, get: SaaamDebugGetter | null) => this.pause(scope, get),
+    }
+  }
+
+  // Enter a frame of the call stack; the runtime enters one for the script's top level
+  public enter(name: string, line: number): SaaamDebugStackFrame {
+    const frame = { name, line }
+    this.frames.push(frame)
+    return frame
+  }
+
+  // Leave a frame (and any left open inside it by an exception). Leaving the frame a step started in means
+  // the next line, wherever it is, is where the step ends
+  public exit(frame: SaaamDebugStackFrame) {
+    const index = this.frames.lastIndexOf(frame)
+    if (index >= 0) this.frames.length = index
+    if ((this.mode === "stepOver" || this.mode === "stepOut") && this.frames.length < this.stepDepth) {
+      this.mode = "stepInto"
+    }
+  }
+
+  // Called before every statement; true means the script should pause there
+  private line(line: number): boolean {
+    this.currentLine = line
+    const frame = this.frames[this.frames.length - 1]
+    if (frame) frame.line = line
+    if (this.mode === "detach") return false
+    if (this.pausedAt?.frame === frame && this.pausedAt.line === line) return false
+    this.pausedAt = null
+
+    const depth = this.frames.length
+    const stepDone =
+      this.mode === "stepInto" ||
+      (this.mode === "stepOver" && depth <= this.stepDepth) ||
+      (this.mode === "stepOut" && depth < this.stepDepth)
+    if (stepDone) {
+      this.pauseReason = "step"
+      return true
+    }
+    if (this.breakpoints.has(line)) {
+      this.pauseReason = "breakpoint"
+      return true
+    }
+    return false
+  }
+
+  private pause(scope: SaaamDebugScope, get: SaaamDebugGetter | null) {
+    const callStack: SaaamDebugFrame[] = this.frames
+      .map((frame, index) => ({
+        name: frame.name,
+        line: frame.line,
+        locals: index === this.frames.length - 1 ? readVariables(scope, get) : null,
+      }))
+      .reverse()
+
+    const command = this.waitForCommand({
+      line: this.currentLine,
+      reason: this.pauseReason,
+      callStack,
+      globals: readVariables(this.globalScope, this.globalGetter),
+    })
+    this.mode = command
+    this.stepDepth = this.frames.length
+    this.pausedAt = { frame: this.frames[this.frames.length - 1], line: this.currentLine }
+  }
+}
+
+function readVariables(scope: SaaamDebugScope, get: SaaamDebugGetter | null): SaaamDebugVariable[] {
+  return scope.flatMap(([name, kind], index) => {
+    let value: unknown
+    try {
+      value = get?.(index)
+    } catch {
+      // let/const names read before their declaration ran
+      return [{ name, kind, type: "uninitialized", value: "(not initialized yet)" }]
+    }
+    // Plain function calls get the global object (or nothing) as `this`; that is not worth showing
+    if (kind === "this" && (value === undefined || value === globalThis)) return []
+    return [{ name, kind, ...describeDebugValue(value) }]
+  })
+}
+
+// Layout of the shared buffer a paused worker waits on: a signal word, the command, and the breakpoints to
+// use from then on (count, then lines)
+const CHANNEL_SIGNAL = 0
+const CHANNEL_COMMAND = 1
+const CHANNEL_COUNT = 2
+const CHANNEL_LINES = 3
+const CHANNEL_MAX_BREAKPOINTS = 1024
+const CHANNEL_COMMANDS: SaaamDebugCommand[] = ["continue", "stepOver", "stepInto", "stepOut", "detach"]
+
+// Create the buffer for a blocking debugger, or null where the page cannot share memory with workers
+// (SharedArrayBuffer needs a cross-origin isolated page)
+export function createDebugChannel(): Int32Array | null {
+  if (typeof SharedArrayBuffer === "undefined" || !globalThis.crossOriginIsolated) return null
+  return new Int32Array(new SharedArrayBuffer((CHANNEL_LINES + CHANNEL_MAX_BREAKPOINTS) * 4))
+}
+
+// Page side: wake the paused worker up with a command
+export function sendDebugCommand(channel: Int32Array, command: SaaamDebugCommand, breakpoints: number[]) {
+  const lines = breakpoints.slice(0, CHANNEL_MAX_BREAKPOINTS)
+  Atomics.store(channel, CHANNEL_COMMAND, CHANNEL_COMMANDS.indexOf(command))
+  Atomics.store(channel, CHANNEL_COUNT, lines.length)
+  lines.forEach((line, index) => Atomics.store(channel, CHANNEL_LINES + index, line))
+  Atomics.store(channel, CHANNEL_SIGNAL, 1)
+  Atomics.notify(channel, CHANNEL_SIGNAL)
+}
+
+// Worker side: block until the page sends a command
+export function waitForDebugCommand(
+  channel: Int32Array,
+  atomics: typeof Atomics = Atomics,
+): { command: SaaamDebugCommand; breakpoints: number[] } {
+  atomics.wait(channel, CHANNEL_SIGNAL, 0)
+  atomics.store(channel, CHANNEL_SIGNAL, 0)
+  const count = atomics.load(channel, CHANNEL_COUNT)
+  const breakpoints = Array.from({ length: count }, (_, index) => atomics.load(channel, CHANNEL_LINES + index))
+  return { command: CHANNEL_COMMANDS[atomics.load(channel, CHANNEL_COMMAND)] ?? "continue", breakpoints }
+}
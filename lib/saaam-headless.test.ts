@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { SaaamHeadlessRunner } from "./saaam-headless"
+import { sampleSaaamCode } from "./sample-code"
+
+// Balls roll right at 120 px/s and are destroyed past x = 780
+const ballScript = `
+SAAAM.defineObject("ball", {
+  create() { this.vx = 120 },
+  step(self, dt) { this.x += this.vx * dt; if (this.x > 780) SAAAM.destroyObject(this) },
+  draw() { SAAAM.drawCircle(this.x, this.y, 8, "#ffff00") },
+})
+
+SAAAM.registerCreate(function () {
+  for (let i = 0; i < 3; i++) SAAAM.createObject("ball", { x: i * 100, y: 300 })
+})
+SAAAM.registerDraw(function () {
+  SAAAM.drawText("balls: " + SAAAM.getAllObjects().length, 10, 20, "#ffffff")
+})
+`
+
+test("runs a script for 300 frames and records its objects and draw calls", () => {
+  const runner = new SaaamHeadlessRunner()
+  assert.equal(runner.load(ballScript), true)
+  assert.equal(runner.run(300), 300)
+  assert.deepEqual(runner.getErrors(), [])
+
+  // 5 seconds in, the last ball has left and the other two have moved 600 px
+  const objects = runner.getAllObjects()
+  assert.deepEqual(
+    objects.map((obj) => Math.round(obj.x)),
+    [600, 700],
+  )
+  assert.ok(objects.every((obj) => obj.type === "ball" && obj.y === 300))
+
+  assert.equal(runner.getDrawCommands({ frame: 300, op: "arc" }).length, 2)
+  const [label] = runner.getDrawCommands({ frame: 300, op: "fillText" })
+  assert.equal(label.args[0], "balls: 2")
+  assert.equal(label.fillStyle, "#ffffff")
+})
+
+test("runs the sample game for 300 frames", () => {
+  const runner = new SaaamHeadlessRunner()
+  assert.equal(runner.load(sampleSaaamCode), true)
+  assert.equal(runner.run(300), 300)
+  assert.deepEqual(runner.getErrors(), [])
+
+  for (const frame of [1, 150, 300]) {
+    assert.ok(runner.getDrawCommands({ frame }).length > 0, `nothing drawn in frame ${frame}`)
+  }
+})
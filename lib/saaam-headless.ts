@@ -0,0 +1,292 @@
+// SAAAM Headless - Run SAAAM scripts without a browser canvas, for automated game tests
+
+import {
+  SaaamRuntime,
+  type SaaamAudioCommand,
+  type SaaamGameObject,
+  type SaaamInputEvent,
+  type SaaamRuntimeOptions,
+} from "./saaam-runtime"
+import type { SaaamReplay } from "./saaam-replay"
+
+// Define types for recorded draw calls
+export type SaaamDrawCommand = {
+  // Frame the command was issued in
+  frame: number
+  // Context method name, e.g. "fillRect" or "fillText"
+  op: string
+  args: any[]
+  // Style state at the time of the call
+  fillStyle: string
+  strokeStyle: string
+  lineWidth: number
+  font: string
+  globalAlpha: number
+}
+
+// A recorded sound command and the frame it was issued in
+export type SaaamRecordedAudio = {
+  frame: number
+  command: SaaamAudioCommand
+}
+
+// Input events to apply at the start of a given frame (1-based, matching the runtime's frame count)
+export type SaaamInputScript = Array<{ frame: number; event: SaaamInputEvent }>
+
+type SaaamContextStyle = Pick<
+  SaaamRecordingContext,
+  "fillStyle" | "strokeStyle" | "lineWidth" | "font" | "globalAlpha" | "textAlign" | "textBaseline"
+>
+
+// Stub 2D context that records every draw call instead of rendering
+export class SaaamRecordingContext {
+  public commands: SaaamDrawCommand[] = []
+  public canvas: { width: number; height: number }
+
+  // Style state, mirroring CanvasRenderingContext2D
+  public fillStyle: string = "#000000"
+  public strokeStyle: string = "#000000"
+  public lineWidth = 1
+  public font = "10px sans-serif"
+  public globalAlpha = 1
+  public textAlign = "start"
+  public textBaseline = "alphabetic"
+  public globalCompositeOperation = "source-over"
+  public imageSmoothingEnabled = true
+
+  private styleStack: SaaamContextStyle[] = []
+  private frameSource: () => number = () => 0
+
+  constructor(width = 800, height = 600) {
+    this.canvas = { width, height }
+  }
+
+  // Tell the recorder which frame commands belong to
+  public setFrameSource(source: () => number) {
+    this.frameSource = source
+  }
+
+  // Get recorded commands, optionally only those from one frame and/or one operation
+  public getCommands(filter: { frame?: number; op?: string } = {}): SaaamDrawCommand[] {
+    return this.commands.filter(
+      (command) =>
+        (filter.frame === undefined || command.frame === filter.frame) &&
+        (filter.op === undefined || command.op === filter.op),
+    )
+  }
+
+  // Drop all recorded commands
+  public clear() {
+    this.commands = []
+  }
+
+  // State
+  save() {
+    this.record("save", [])
+    this.styleStack.push({
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      font: this.font,
+      globalAlpha: this.globalAlpha,
+      textAlign: this.textAlign,
+      textBaseline: this.textBaseline,
+    })
+  }
+
+  restore() {
+    this.record("restore", [])
+    const style = this.styleStack.pop()
+    if (style) Object.assign(this, style)
+  }
+
+  // Transforms
+  translate(...args: any[]) {
+    this.record("translate", args)
+  }
+  rotate(...args: any[]) {
+    this.record("rotate", args)
+  }
+  scale(...args: any[]) {
+    this.record("scale", args)
+  }
+  transform(...args: any[]) {
+    this.record("transform", args)
+  }
+  setTransform(...args: any[]) {
+    this.record("setTransform", args)
+  }
+  resetTransform() {
+    this.record("resetTransform", [])
+  }
+
+  // Rectangles
+  clearRect(...args: any[]) {
+    this.record("clearRect", args)
+  }
+  fillRect(...args: any[]) {
+    this.record("fillRect", args)
+  }
+  strokeRect(...args: any[]) {
+    this.record("strokeRect", args)
+  }
+
+  // Paths
+  beginPath() {
+    this.record("beginPath", [])
+  }
+  closePath() {
+    this.record("closePath", [])
+  }
+  moveTo(...args: any[]) {
+    this.record("moveTo", args)
+  }
+  lineTo(...args: any[]) {
+    this.record("lineTo", args)
+  }
+  arc(...args: any[]) {
+    this.record("arc", args)
+  }
+  ellipse(...args: any[]) {
+    this.record("ellipse", args)
+  }
+  rect(...args: any[]) {
+    this.record("rect", args)
+  }
+  quadraticCurveTo(...args: any[]) {
+    this.record("quadraticCurveTo", args)
+  }
+  bezierCurveTo(...args: any[]) {
+    this.record("bezierCurveTo", args)
+  }
+  fill(...args: any[]) {
+    this.record("fill", args)
+  }
+  stroke(...args: any[]) {
+    this.record("stroke", args)
+  }
+  clip(...args: any[]) {
+    this.record("clip", args)
+  }
+
+  // Text and images
+  fillText(...args: any[]) {
+    this.record("fillText", args)
+  }
+  strokeText(...args: any[]) {
+    this.record("strokeText", args)
+  }
+  drawImage(...args: any[]) {
+    this.record("drawImage", args)
+  }
+
+  // Rough metrics so layout code keeps working: assumes glyphs are 0.6em wide
+  measureText(text: string) {
+    const size = parseFloat(this.font) || 10
+    return { width: String(text).length * size * 0.6 }
+  }
+
+  setLineDash(...args: any[]) {
+    this.record("setLineDash", args)
+  }
+
+  createLinearGradient() {
+    return { addColorStop: () => {} }
+  }
+
+  createRadialGradient() {
+    return { addColorStop: () => {} }
+  }
+
+  private record(op: string, args: any[]) {
+    this.commands.push({
+      frame: this.frameSource(),
+      op,
+      args,
+      fillStyle: String(this.fillStyle),
+      strokeStyle: String(this.strokeStyle),
+      lineWidth: this.lineWidth,
+      font: this.font,
+      globalAlpha: this.globalAlpha,
+    })
+  }
+}
+
+// Drives a SaaamRuntime frame by frame with a recording context and scripted input
+export class SaaamHeadlessRunner {
+  public runtime: SaaamRuntime
+  public context: SaaamRecordingContext
+  public audioCommands: SaaamRecordedAudio[] = []
+  private inputScript: Map<number, SaaamInputEvent[]> = new Map()
+
+  constructor(options: Partial<SaaamRuntimeOptions> & { width?: number; height?: number } = {}) {
+    const { width = 800, height = 600, ...runtimeOptions } = options
+
+    this.context = new SaaamRecordingContext(width, height)
+    this.runtime = new SaaamRuntime(runtimeOptions).initializeHeadless(
+      this.context as unknown as CanvasRenderingContext2D,
+      width,
+      height,
+    )
+    this.context.setFrameSource(() => this.runtime.getFrameCount())
+    this.runtime.onAudio((command) => this.audioCommands.push({ frame: this.runtime.getFrameCount(), command }))
+  }
+
+  // Load a script and run its create function, optionally playing a replay back
+  public load(code: string, replay: SaaamReplay | null = null): boolean {
+    return this.runtime.executeCode(code, replay)
+  }
+
+  // Queue input events to be applied at the start of specific frames
+  public scheduleInput(script: SaaamInputScript) {
+    for (const { frame, event } of script) {
+      const events = this.inputScript.get(frame) || []
+      events.push(event)
+      this.inputScript.set(frame, events)
+    }
+    return this
+  }
+
+  // Apply an input event immediately
+  public input(event: SaaamInputEvent) {
+    this.runtime.injectInput(event)
+    return this
+  }
+
+  // Run a number of frames at a fixed delta time; returns how many frames ran before any error stopped the game
+  public run(frames: number, deltaTime = 1 / 60): number {
+    for (let i = 0; i < frames; i++) {
+      const nextFrame = this.runtime.getFrameCount() + 1
+      for (const event of this.inputScript.get(nextFrame) || []) {
+        this.runtime.injectInput(event)
+      }
+      this.inputScript.delete(nextFrame)
+
+      if (!this.runtime.tick(deltaTime)) return i
+    }
+    return frames
+  }
+
+  // Get all game objects created through SAAAM.createObject
+  public getAllObjects(): SaaamGameObject[] {
+    return this.runtime.sandboxEnv.SAAAM.getAllObjects()
+  }
+
+  // Get recorded draw commands, optionally filtered by frame and/or operation
+  public getDrawCommands(filter: { frame?: number; op?: string } = {}): SaaamDrawCommand[] {
+    return this.context.getCommands(filter)
+  }
+
+  // Get recorded sound commands, optionally only those of one type
+  public getAudioCommands(type?: SaaamAudioCommand["type"]): SaaamRecordedAudio[] {
+    return this.audioCommands.filter((recorded) => type === undefined || recorded.command.type === type)
+  }
+
+  public getErrors(): string[] {
+    return this.runtime.getErrors()
+  }
+
+  public getLogs(): string[] {
+    return this.runtime.getLogs()
+  }
+}
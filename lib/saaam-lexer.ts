@@ -0,0 +1,455 @@
+// SAAAM Lexer - Turns .saaam source text into a token stream for the parser
+
+// Define types for source positions and diagnostics
+export type SaaamSourcePosition = {
+  // 1-based line number
+  line: number
+  // 1-based column number
+  column: number
+  // 0-based character offset into the source
+  offset: number
+}
+
+export type SaaamSourceRange = {
+  start: SaaamSourcePosition
+  end: SaaamSourcePosition
+}
+
+export type SaaamDiagnosticSeverity = "error" | "warning" | "info"
+
+export type SaaamDiagnostic = {
+  severity: SaaamDiagnosticSeverity
+  message: string
+  range: SaaamSourceRange
+}
+
+export type SaaamTokenType =
+  "identifier" | "private" | "keyword" | "number" | "string" | "template" | "regex" | "punctuator" | "eof"
+
+export type SaaamToken = {
+  type: SaaamTokenType
+  value: string
+  range: SaaamSourceRange
+  // True when a line break separates this token from the previous one (used for semicolon insertion)
+  newlineBefore: boolean
+  // Template literal pieces: the cooked strings between `${...}` and the tokens of each embedded expression
+  quasis?: string[]
+  expressions?: SaaamToken[][]
+}
+
+export const SAAAM_KEYWORDS = new Set([
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "in",
+  "instanceof",
+  "let",
+  "new",
+  "null",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+])
+
+// Punctuators, longest first so the lexer always takes the longest match
+const PUNCTUATORS = [
+  ">>>=",
+  "...",
+  "===",
+  "!==",
+  "**=",
+  "<<=",
+  ">>=",
+  ">>>",
+  "&&=",
+  "||=",
+  "??=",
+  "=>",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "?.",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "**",
+  "<<",
+  ">>",
+  "{",
+  "}",
+  "(",
+  ")",
+  "[",
+  "]",
+  ";",
+  ",",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "&",
+  "|",
+  "^",
+  "!",
+  "~",
+  "?",
+  ":",
+  "=",
+  ".",
+]
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  b: "\b",
+  f: "\f",
+  v: "\v",
+  "0": "\0",
+}
+
+const isIdentifierStart = (ch: string) => /[A-Za-z_$]/.test(ch)
+const isIdentifierPart = (ch: string) => /[A-Za-z0-9_$]/.test(ch)
+const isDigit = (ch: string) => ch >= "0" && ch <= "9"
+
+// Create the SAAAM lexer
+export class SaaamLexer {
+  private source: string
+  private pos = 0
+  private line = 1
+  private column = 1
+  private sawNewline = false
+  private lastToken: SaaamToken | null = null
+  // For each open "(", whether it holds the condition of if, while or for: a statement follows its ")"
+  private openParens: boolean[] = []
+  private closedCondition = false
+  public diagnostics: SaaamDiagnostic[] = []
+
+  constructor(source: string) {
+    this.source = source
+  }
+
+  // Tokenize the whole source, always ending with an "eof" token
+  public tokenize(): SaaamToken[] {
+    const tokens = this.readTokens(false)
+    tokens.push(this.makeToken("eof", "", this.position()))
+    return tokens
+  }
+
+  // Read tokens until the end of input, or until an unmatched "}" when inside a template expression
+  private readTokens(insideTemplate: boolean): SaaamToken[] {
+    const tokens: SaaamToken[] = []
+    let braceDepth = 0
+
+    while (true) {
+      this.skipWhitespaceAndComments()
+      if (this.pos >= this.source.length) {
+        if (insideTemplate) {
+          this.error("Unterminated template expression", this.position(), this.position())
+        }
+        break
+      }
+
+      if (insideTemplate && this.peek() === "}" && braceDepth === 0) {
+        break
+      }
+
+      const newlineBefore = this.sawNewline
+      this.sawNewline = false
+      const token = this.readToken()
+      if (!token) continue
+      token.newlineBefore = newlineBefore
+
+      if (token.type === "punctuator") {
+        if (token.value === "{") braceDepth++
+        if (token.value === "}") braceDepth--
+        if (token.value === "(") {
+          const last = this.lastToken
+          this.openParens.push(last?.type === "keyword" && ["if", "while", "for"].includes(last.value))
+        }
+        if (token.value === ")") this.closedCondition = this.openParens.pop() ?? false
+      }
+
+      tokens.push(token)
+      this.lastToken = token
+    }
+
+    return tokens
+  }
+
+  private readToken(): SaaamToken | null {
+    const start = this.position()
+    const ch = this.peek()
+
+    if (isIdentifierStart(ch)) {
+      let value = ""
+      while (this.pos < this.source.length && isIdentifierPart(this.peek())) {
+        value += this.advance()
+      }
+      return this.makeToken(SAAAM_KEYWORDS.has(value) ? "keyword" : "identifier", value, start)
+    }
+
+    // Private class member names, `#name`
+    if (ch === "#" && isIdentifierStart(this.peek(1))) {
+      let value = this.advance()
+      while (this.pos < this.source.length && isIdentifierPart(this.peek())) {
+        value += this.advance()
+      }
+      return this.makeToken("private", value, start)
+    }
+
+    if (isDigit(ch) || (ch === "." && isDigit(this.peek(1)))) {
+      return this.readNumber(start)
+    }
+
+    if (ch === '"' || ch === "'") {
+      return this.readString(start, ch)
+    }
+
+    if (ch === "`") {
+      return this.readTemplate(start)
+    }
+
+    if (ch === "/" && this.regexAllowed()) {
+      return this.readRegex(start)
+    }
+
+    for (const punctuator of PUNCTUATORS) {
+      if (this.source.startsWith(punctuator, this.pos)) {
+        // "?." followed by a digit is a conditional, not optional chaining (e.g. `a ?.5 : 1`)
+        if (punctuator === "?." && isDigit(this.peek(2))) continue
+        for (let i = 0; i < punctuator.length; i++) this.advance()
+        return this.makeToken("punctuator", punctuator, start)
+      }
+    }
+
+    this.advance()
+    this.error(`Unexpected character '${ch}'`, start, this.position())
+    return null
+  }
+
+  private readNumber(start: SaaamSourcePosition): SaaamToken {
+    let value = ""
+
+    if (this.peek() === "0" && /[xXbBoO]/.test(this.peek(1))) {
+      value += this.advance() + this.advance()
+      while (/[0-9a-fA-F_]/.test(this.peek())) value += this.advance()
+      return this.makeToken("number", value, start)
+    }
+
+    while (isDigit(this.peek()) || this.peek() === "_") value += this.advance()
+    if (this.peek() === ".") {
+      value += this.advance()
+      while (isDigit(this.peek()) || this.peek() === "_") value += this.advance()
+    }
+    if (/[eE]/.test(this.peek()) && (isDigit(this.peek(1)) || (/[+-]/.test(this.peek(1)) && isDigit(this.peek(2))))) {
+      value += this.advance() + this.advance()
+      while (isDigit(this.peek())) value += this.advance()
+    }
+
+    if (isIdentifierStart(this.peek())) {
+      this.error("Identifier directly after number", start, this.position())
+    }
+
+    return this.makeToken("number", value, start)
+  }
+
+  private readString(start: SaaamSourcePosition, quote: string): SaaamToken {
+    let value = ""
+    this.advance()
+
+    while (true) {
+      if (this.pos >= this.source.length || this.peek() === "\n") {
+        this.error("Unterminated string literal", start, this.position())
+        break
+      }
+      const ch = this.advance()
+      if (ch === quote) break
+      value += ch === "\\" ? this.readEscape() : ch
+    }
+
+    return this.makeToken("string", value, start)
+  }
+
+  private readTemplate(start: SaaamSourcePosition): SaaamToken {
+    const quasis: string[] = []
+    const expressions: SaaamToken[][] = []
+    let current = ""
+    this.advance()
+
+    while (true) {
+      if (this.pos >= this.source.length) {
+        this.error("Unterminated template literal", start, this.position())
+        break
+      }
+      const ch = this.advance()
+      if (ch === "`") break
+      if (ch === "\\") {
+        current += this.readEscape()
+      } else if (ch === "$" && this.peek() === "{") {
+        this.advance()
+        quasis.push(current)
+        current = ""
+        expressions.push(this.readTokens(true))
+        if (this.peek() === "}") this.advance()
+      } else {
+        current += ch
+      }
+    }
+    quasis.push(current)
+
+    const token = this.makeToken("template", this.source.slice(start.offset, this.pos), start)
+    token.quasis = quasis
+    token.expressions = expressions
+    return token
+  }
+
+  private readRegex(start: SaaamSourcePosition): SaaamToken {
+    let inClass = false
+    this.advance()
+
+    while (true) {
+      if (this.pos >= this.source.length || this.peek() === "\n") {
+        this.error("Unterminated regular expression", start, this.position())
+        break
+      }
+      const ch = this.advance()
+      if (ch === "\\") {
+        this.advance()
+      } else if (ch === "[") {
+        inClass = true
+      } else if (ch === "]") {
+        inClass = false
+      } else if (ch === "/" && !inClass) {
+        break
+      }
+    }
+    while (isIdentifierPart(this.peek())) this.advance()
+
+    return this.makeToken("regex", this.source.slice(start.offset, this.pos), start)
+  }
+
+  private readEscape(): string {
+    const ch = this.advance()
+    if (ch in ESCAPES) return ESCAPES[ch]
+    if (ch === "u" && /[0-9a-fA-F]{4}/.test(this.source.substr(this.pos, 4))) {
+      const hex = this.source.substr(this.pos, 4)
+      for (let i = 0; i < 4; i++) this.advance()
+      return String.fromCharCode(parseInt(hex, 16))
+    }
+    if (ch === "x" && /[0-9a-fA-F]{2}/.test(this.source.substr(this.pos, 2))) {
+      const hex = this.source.substr(this.pos, 2)
+      this.advance()
+      this.advance()
+      return String.fromCharCode(parseInt(hex, 16))
+    }
+    // Line continuation
+    if (ch === "\n") return ""
+    return ch
+  }
+
+  // A "/" starts a regex unless the previous token can end an expression
+  private regexAllowed(): boolean {
+    const last = this.lastToken
+    if (!last) return true
+    if (last.type === "punctuator" && last.value === ")") return this.closedCondition
+    if (last.type === "identifier" || last.type === "private" || last.type === "number" || last.type === "string") {
+      return false
+    }
+    if (last.type === "template" || last.type === "regex") return false
+    if (last.type === "keyword") return !["this", "super", "true", "false", "null"].includes(last.value)
+    return ![")", "]", "}", "++", "--"].includes(last.value)
+  }
+
+  private skipWhitespaceAndComments() {
+    while (this.pos < this.source.length) {
+      const ch = this.peek()
+      if (ch === " " || ch === "\t" || ch === "\r" || ch === "\n" || ch === "\uFEFF" || ch === "\u00A0") {
+        this.advance()
+      } else if (ch === "/" && this.peek(1) === "/") {
+        while (this.pos < this.source.length && this.peek() !== "\n") this.advance()
+      } else if (ch === "/" && this.peek(1) === "*") {
+        const start = this.position()
+        this.advance()
+        this.advance()
+        while (this.pos < this.source.length && !(this.peek() === "*" && this.peek(1) === "/")) this.advance()
+        if (this.pos >= this.source.length) {
+          this.error("Unterminated block comment", start, this.position())
+        } else {
+          this.advance()
+          this.advance()
+        }
+      } else {
+        break
+      }
+    }
+  }
+
+  private peek(ahead = 0): string {
+    return this.source.charAt(this.pos + ahead)
+  }
+
+  private advance(): string {
+    const ch = this.source.charAt(this.pos++)
+    if (ch === "\n") {
+      this.line++
+      this.column = 1
+      this.sawNewline = true
+    } else {
+      this.column++
+    }
+    return ch
+  }
+
+  private position(): SaaamSourcePosition {
+    return { line: this.line, column: this.column, offset: this.pos }
+  }
+
+  private makeToken(type: SaaamTokenType, value: string, start: SaaamSourcePosition): SaaamToken {
+    return {
+      type,
+      value,
+      range: { start, end: this.position() },
+      newlineBefore: this.sawNewline,
+    }
+  }
+
+  private error(message: string, start: SaaamSourcePosition, end: SaaamSourcePosition) {
+    this.diagnostics.push({ severity: "error", message, range: { start, end } })
+  }
+}
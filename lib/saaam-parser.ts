@@ -0,0 +1,1642 @@
+// SAAAM Parser - Recursive-descent parser producing a typed AST for .saaam scripts
+
+import { SaaamLexer, type SaaamDiagnostic, type SaaamSourceRange, type SaaamToken } from "./saaam-lexer"
+
+// Define types for the SAAAM AST
+type BaseNode<T extends string> = {
+  type: T
+  range: SaaamSourceRange
+}
+
+export type SaaamIdentifier = BaseNode<"Identifier"> & { name: string }
+
+export type SaaamLiteral = BaseNode<"Literal"> & {
+  value: string | number | boolean | null
+  raw: string
+}
+
+export type SaaamRegexLiteral = BaseNode<"RegexLiteral"> & { raw: string }
+
+export type SaaamTemplateLiteral = BaseNode<"TemplateLiteral"> & {
+  quasis: string[]
+  expressions: SaaamExpression[]
+}
+
+export type SaaamTaggedTemplateExpression = BaseNode<"TaggedTemplateExpression"> & {
+  tag: SaaamExpression
+  quasi: SaaamTemplateLiteral
+}
+
+export type SaaamThisExpression = BaseNode<"ThisExpression">
+
+// `#name` of a class member, after "." or before `in`; the name is without the "#"
+export type SaaamPrivateIdentifier = BaseNode<"PrivateIdentifier"> & { name: string }
+
+export type SaaamSuper = BaseNode<"Super">
+
+// `new.target`
+export type SaaamMetaProperty = BaseNode<"MetaProperty"> & { meta: SaaamIdentifier; property: SaaamIdentifier }
+
+export type SaaamSpreadElement = BaseNode<"SpreadElement"> & { argument: SaaamExpression }
+
+export type SaaamArrayExpression = BaseNode<"ArrayExpression"> & {
+  elements: Array<SaaamExpression | SaaamSpreadElement | null>
+}
+
+export type SaaamProperty = BaseNode<"Property"> & {
+  key: SaaamExpression
+  value: SaaamExpression
+  kind: "init" | "get" | "set"
+  computed: boolean
+  shorthand: boolean
+  method: boolean
+}
+
+export type SaaamObjectExpression = BaseNode<"ObjectExpression"> & {
+  properties: Array<SaaamProperty | SaaamSpreadElement>
+}
+
+export type SaaamFunctionExpression = BaseNode<"FunctionExpression"> & {
+  id: SaaamIdentifier | null
+  params: SaaamPattern[]
+  body: SaaamBlockStatement
+  async: boolean
+  generator: boolean
+}
+
+export type SaaamArrowFunctionExpression = BaseNode<"ArrowFunctionExpression"> & {
+  params: SaaamPattern[]
+  body: SaaamBlockStatement | SaaamExpression
+  expression: boolean
+  async: boolean
+}
+
+// Class members; method values are functions whose range starts at the parameter list
+export type SaaamMethodDefinition = BaseNode<"MethodDefinition"> & {
+  key: SaaamExpression
+  value: SaaamFunctionExpression
+  kind: "constructor" | "method" | "get" | "set"
+  computed: boolean
+  static: boolean
+}
+
+export type SaaamPropertyDefinition = BaseNode<"PropertyDefinition"> & {
+  key: SaaamExpression
+  value: SaaamExpression | null
+  computed: boolean
+  static: boolean
+}
+
+// `static { ... }`, run once when the class is defined
+export type SaaamStaticBlock = BaseNode<"StaticBlock"> & { body: SaaamStatement[] }
+
+export type SaaamClassBody = BaseNode<"ClassBody"> & {
+  body: Array<SaaamMethodDefinition | SaaamPropertyDefinition | SaaamStaticBlock>
+}
+
+export type SaaamClassExpression = BaseNode<"ClassExpression"> & {
+  id: SaaamIdentifier | null
+  superClass: SaaamExpression | null
+  body: SaaamClassBody
+}
+
+export type SaaamAwaitExpression = BaseNode<"AwaitExpression"> & { argument: SaaamExpression }
+
+export type SaaamYieldExpression = BaseNode<"YieldExpression"> & {
+  argument: SaaamExpression | null
+  delegate: boolean
+}
+
+export type SaaamUnaryExpression = BaseNode<"UnaryExpression"> & {
+  operator: string
+  argument: SaaamExpression
+}
+
+export type SaaamUpdateExpression = BaseNode<"UpdateExpression"> & {
+  operator: "++" | "--"
+  prefix: boolean
+  argument: SaaamExpression
+}
+
+export type SaaamBinaryExpression = BaseNode<"BinaryExpression"> & {
+  operator: string
+  left: SaaamExpression
+  right: SaaamExpression
+}
+
+export type SaaamLogicalExpression = BaseNode<"LogicalExpression"> & {
+  operator: "&&" | "||" | "??"
+  left: SaaamExpression
+  right: SaaamExpression
+}
+
+export type SaaamAssignmentExpression = BaseNode<"AssignmentExpression"> & {
+  operator: string
+  left: SaaamPattern | SaaamMemberExpression
+  right: SaaamExpression
+}
+
+export type SaaamConditionalExpression = BaseNode<"ConditionalExpression"> & {
+  test: SaaamExpression
+  consequent: SaaamExpression
+  alternate: SaaamExpression
+}
+
+export type SaaamCallExpression = BaseNode<"CallExpression"> & {
+  callee: SaaamExpression
+  arguments: Array<SaaamExpression | SaaamSpreadElement>
+  optional: boolean
+}
+
+export type SaaamNewExpression = BaseNode<"NewExpression"> & {
+  callee: SaaamExpression
+  arguments: Array<SaaamExpression | SaaamSpreadElement>
+}
+
+export type SaaamMemberExpression = BaseNode<"MemberExpression"> & {
+  object: SaaamExpression
+  property: SaaamExpression
+  computed: boolean
+  optional: boolean
+}
+
+export type SaaamSequenceExpression = BaseNode<"SequenceExpression"> & { expressions: SaaamExpression[] }
+
+export type SaaamExpression =
+  | SaaamIdentifier
+  | SaaamLiteral
+  | SaaamRegexLiteral
+  | SaaamTemplateLiteral
+  | SaaamTaggedTemplateExpression
+  | SaaamThisExpression
+  | SaaamPrivateIdentifier
+  | SaaamSuper
+  | SaaamMetaProperty
+  | SaaamArrayExpression
+  | SaaamObjectExpression
+  | SaaamFunctionExpression
+  | SaaamArrowFunctionExpression
+  | SaaamClassExpression
+  | SaaamAwaitExpression
+  | SaaamYieldExpression
+  | SaaamUnaryExpression
+  | SaaamUpdateExpression
+  | SaaamBinaryExpression
+  | SaaamLogicalExpression
+  | SaaamAssignmentExpression
+  | SaaamConditionalExpression
+  | SaaamCallExpression
+  | SaaamNewExpression
+  | SaaamMemberExpression
+  | SaaamSequenceExpression
+
+// Binding patterns (variable declarations, parameters, destructuring)
+export type SaaamObjectPattern = BaseNode<"ObjectPattern"> & {
+  properties: Array<
+    { key: SaaamExpression; value: SaaamPattern; computed: boolean; shorthand: boolean } | SaaamRestElement
+  >
+}
+
+export type SaaamArrayPattern = BaseNode<"ArrayPattern"> & { elements: Array<SaaamPattern | null> }
+
+export type SaaamAssignmentPattern = BaseNode<"AssignmentPattern"> & {
+  left: SaaamPattern
+  right: SaaamExpression
+}
+
+export type SaaamRestElement = BaseNode<"RestElement"> & { argument: SaaamPattern }
+
+export type SaaamPattern =
+  | SaaamIdentifier
+  | SaaamObjectPattern
+  | SaaamArrayPattern
+  | SaaamAssignmentPattern
+  | SaaamRestElement
+  | SaaamMemberExpression
+
+export type SaaamVariableDeclarator = BaseNode<"VariableDeclarator"> & {
+  id: SaaamPattern
+  init: SaaamExpression | null
+}
+
+export type SaaamVariableDeclaration = BaseNode<"VariableDeclaration"> & {
+  kind: "var" | "let" | "const"
+  declarations: SaaamVariableDeclarator[]
+}
+
+export type SaaamFunctionDeclaration = BaseNode<"FunctionDeclaration"> & {
+  id: SaaamIdentifier
+  params: SaaamPattern[]
+  body: SaaamBlockStatement
+  async: boolean
+  generator: boolean
+}
+
+export type SaaamClassDeclaration = BaseNode<"ClassDeclaration"> & {
+  id: SaaamIdentifier
+  superClass: SaaamExpression | null
+  body: SaaamClassBody
+}
+
+export type SaaamBlockStatement = BaseNode<"BlockStatement"> & { body: SaaamStatement[] }
+export type SaaamExpressionStatement = BaseNode<"ExpressionStatement"> & { expression: SaaamExpression }
+export type SaaamEmptyStatement = BaseNode<"EmptyStatement">
+export type SaaamReturnStatement = BaseNode<"ReturnStatement"> & { argument: SaaamExpression | null }
+export type SaaamBreakStatement = BaseNode<"BreakStatement"> & { label: SaaamIdentifier | null }
+export type SaaamContinueStatement = BaseNode<"ContinueStatement"> & { label: SaaamIdentifier | null }
+export type SaaamThrowStatement = BaseNode<"ThrowStatement"> & { argument: SaaamExpression }
+
+export type SaaamIfStatement = BaseNode<"IfStatement"> & {
+  test: SaaamExpression
+  consequent: SaaamStatement
+  alternate: SaaamStatement | null
+}
+
+export type SaaamForStatement = BaseNode<"ForStatement"> & {
+  init: SaaamVariableDeclaration | SaaamExpression | null
+  test: SaaamExpression | null
+  update: SaaamExpression | null
+  body: SaaamStatement
+}
+
+export type SaaamForInOfStatement = BaseNode<"ForOfStatement" | "ForInStatement"> & {
+  left: SaaamVariableDeclaration | SaaamPattern
+  right: SaaamExpression
+  body: SaaamStatement
+}
+
+export type SaaamWhileStatement = BaseNode<"WhileStatement" | "DoWhileStatement"> & {
+  test: SaaamExpression
+  body: SaaamStatement
+}
+
+export type SaaamSwitchCase = BaseNode<"SwitchCase"> & {
+  test: SaaamExpression | null
+  consequent: SaaamStatement[]
+}
+
+export type SaaamSwitchStatement = BaseNode<"SwitchStatement"> & {
+  discriminant: SaaamExpression
+  cases: SaaamSwitchCase[]
+}
+
+export type SaaamTryStatement = BaseNode<"TryStatement"> & {
+  block: SaaamBlockStatement
+  param: SaaamPattern | null
+  handler: SaaamBlockStatement | null
+  finalizer: SaaamBlockStatement | null
+}
+
+export type SaaamLabeledStatement = BaseNode<"LabeledStatement"> & {
+  label: SaaamIdentifier
+  body: SaaamStatement
+}
+
+export type SaaamStatement =
+  | SaaamVariableDeclaration
+  | SaaamFunctionDeclaration
+  | SaaamClassDeclaration
+  | SaaamBlockStatement
+  | SaaamExpressionStatement
+  | SaaamEmptyStatement
+  | SaaamReturnStatement
+  | SaaamBreakStatement
+  | SaaamContinueStatement
+  | SaaamThrowStatement
+  | SaaamIfStatement
+  | SaaamForStatement
+  | SaaamForInOfStatement
+  | SaaamWhileStatement
+  | SaaamSwitchStatement
+  | SaaamTryStatement
+  | SaaamLabeledStatement
+
+export type SaaamProgram = BaseNode<"Program"> & { body: SaaamStatement[] }
+
+export type SaaamNode =
+  | SaaamProgram
+  | SaaamStatement
+  | SaaamExpression
+  | SaaamPattern
+  | SaaamVariableDeclarator
+  | SaaamSwitchCase
+  | SaaamProperty
+  | SaaamSpreadElement
+  | SaaamClassBody
+  | SaaamMethodDefinition
+  | SaaamPropertyDefinition
+  | SaaamStaticBlock
+
+export type SaaamParseResult = {
+  ast: SaaamProgram
+  diagnostics: SaaamDiagnostic[]
+}
+
+// Thrown internally to unwind to the nearest statement boundary
+class SaaamSyntaxError extends Error {
+  constructor(
+    message: string,
+    public range: SaaamSourceRange,
+  ) {
+    super(message)
+    this.name = "SaaamSyntaxError"
+  }
+}
+
+const ASSIGNMENT_OPERATORS = new Set([
+  "=",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "**=",
+  "<<=",
+  ">>=",
+  ">>>=",
+  "&=",
+  "|=",
+  "^=",
+  "&&=",
+  "||=",
+  "??=",
+])
+
+// Binary operator precedence (higher binds tighter)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1,
+  "||": 2,
+  "&&": 3,
+  "|": 4,
+  "^": 5,
+  "&": 6,
+  "==": 7,
+  "!=": 7,
+  "===": 7,
+  "!==": 7,
+  "<": 8,
+  ">": 8,
+  "<=": 8,
+  ">=": 8,
+  instanceof: 8,
+  in: 8,
+  "<<": 9,
+  ">>": 9,
+  ">>>": 9,
+  "+": 10,
+  "-": 10,
+  "*": 11,
+  "/": 11,
+  "%": 11,
+  "**": 12,
+}
+
+const UNARY_OPERATORS = new Set(["!", "-", "+", "~", "typeof", "void", "delete"])
+
+// Create the SAAAM parser
+export class SaaamParser {
+  private tokens: SaaamToken[]
+  private index = 0
+  private diagnostics: SaaamDiagnostic[]
+  // Disallows `in` as a binary operator while parsing a for-loop head
+  private noIn = false
+  // `await` and `yield` are only operators inside async functions and generators
+  private inAsync = false
+  private inGenerator = false
+
+  constructor(source: string | SaaamToken[], diagnostics: SaaamDiagnostic[] = []) {
+    if (typeof source === "string") {
+      const lexer = new SaaamLexer(source)
+      this.tokens = lexer.tokenize()
+      this.diagnostics = [...diagnostics, ...lexer.diagnostics]
+    } else {
+      this.tokens = source
+      this.diagnostics = diagnostics
+    }
+  }
+
+  // Parse a whole script, recovering from errors at statement boundaries
+  public parseProgram(): SaaamParseResult {
+    const start = this.current().range.start
+    const body: SaaamStatement[] = []
+
+    while (!this.isEof()) {
+      const statement = this.parseStatementWithRecovery()
+      if (statement) body.push(statement)
+    }
+
+    return {
+      ast: { type: "Program", body, range: { start, end: this.current().range.end } },
+      diagnostics: this.diagnostics,
+    }
+  }
+
+  // Parse a standalone expression (used for template literal parts)
+  public parseStandaloneExpression(): SaaamExpression {
+    const expression = this.parseExpression()
+    if (!this.isEof()) {
+      this.fail(`Unexpected ${this.describeToken(this.current())}`)
+    }
+    return expression
+  }
+
+  private parseStatementWithRecovery(): SaaamStatement | null {
+    const startIndex = this.index
+    try {
+      return this.parseStatement()
+    } catch (error) {
+      if (!(error instanceof SaaamSyntaxError)) throw error
+      this.report("error", error.message, error.range)
+      this.synchronize(startIndex)
+      return null
+    }
+  }
+
+  // Skip ahead to the next likely statement start after a syntax error. Braces the broken statement opened are
+  // skipped with it, but a "}" it did not open is left for the enclosing block, so that is not reported unclosed
+  private synchronize(startIndex: number) {
+    if (this.index === startIndex) this.index++
+    let depth = 0
+    for (let i = startIndex; i < this.index; i++) {
+      if (this.tokens[i].type !== "punctuator") continue
+      if (this.tokens[i].value === "{") depth++
+      if (this.tokens[i].value === "}") depth = Math.max(depth - 1, 0)
+    }
+
+    while (!this.isEof()) {
+      const token = this.current()
+      if (depth === 0 && this.is("}")) return
+      if (depth === 0 && (this.is(";") || (token.newlineBefore && this.index > startIndex))) {
+        if (this.is(";")) this.index++
+        return
+      }
+      if (this.is("{")) depth++
+      if (this.is("}")) depth--
+      this.index++
+    }
+  }
+
+  // Statements
+
+  private parseStatement(): SaaamStatement {
+    const token = this.current()
+
+    if (token.type === "punctuator") {
+      if (token.value === "{") return this.parseBlock()
+      if (token.value === ";") {
+        this.index++
+        return { type: "EmptyStatement", range: token.range }
+      }
+    }
+
+    if (token.type === "keyword") {
+      switch (token.value) {
+        case "var":
+        case "let":
+        case "const": {
+          const declaration = this.parseVariableDeclaration()
+          this.consumeSemicolon()
+          return declaration
+        }
+        case "function":
+          return this.parseFunctionDeclaration()
+        case "class":
+          return this.parseClassDeclaration()
+        case "if":
+          return this.parseIfStatement()
+        case "for":
+          return this.parseForStatement()
+        case "while":
+          return this.parseWhileStatement()
+        case "do":
+          return this.parseDoWhileStatement()
+        case "return":
+          return this.parseReturnStatement()
+        case "break":
+        case "continue":
+          return this.parseJumpStatement()
+        case "throw":
+          return this.parseThrowStatement()
+        case "switch":
+          return this.parseSwitchStatement()
+        case "try":
+          return this.parseTryStatement()
+      }
+    }
+
+    if (this.isAsyncFunctionStart()) {
+      return this.parseFunctionDeclaration()
+    }
+
+    if (token.type === "identifier" && this.peek(1).value === ":" && this.peek(1).type === "punctuator") {
+      const label = this.parseIdentifier()
+      this.expect(":")
+      const body = this.parseStatement()
+      return { type: "LabeledStatement", label, body, range: this.rangeFrom(token) }
+    }
+
+    const expression = this.parseExpression()
+    this.consumeSemicolon()
+    return { type: "ExpressionStatement", expression, range: this.rangeFrom(token) }
+  }
+
+  private parseBlock(): SaaamBlockStatement {
+    const start = this.expect("{")
+    const body: SaaamStatement[] = []
+
+    while (!this.is("}")) {
+      if (this.isEof()) {
+        this.report("error", "Missing closing '}'", start.range)
+        return { type: "BlockStatement", body, range: this.rangeFrom(start) }
+      }
+      const statement = this.parseStatementWithRecovery()
+      if (statement) body.push(statement)
+    }
+    this.expect("}")
+
+    return { type: "BlockStatement", body, range: this.rangeFrom(start) }
+  }
+
+  private parseVariableDeclaration(): SaaamVariableDeclaration {
+    const start = this.next()
+    const kind = start.value as SaaamVariableDeclaration["kind"]
+    const declarations: SaaamVariableDeclarator[] = []
+
+    do {
+      const declStart = this.current()
+      const id = this.parseBindingTarget()
+      let init: SaaamExpression | null = null
+      if (this.eat("=")) {
+        init = this.parseAssignment()
+      } else if (kind === "const" && !this.isForInOfHead()) {
+        this.report("error", `Missing initializer in const declaration '${this.describePattern(id)}'`, id.range)
+      }
+      declarations.push({ type: "VariableDeclarator", id, init, range: this.rangeFrom(declStart) })
+    } while (this.eat(","))
+
+    return { type: "VariableDeclaration", kind, declarations, range: this.rangeFrom(start) }
+  }
+
+  private parseFunctionDeclaration(): SaaamFunctionDeclaration {
+    const start = this.current()
+    const isAsync = this.isAsyncFunctionStart()
+    if (isAsync) this.index++
+    this.expect("function")
+    const generator = this.eat("*")
+    const id = this.parseIdentifier()
+    const { params, body } = this.parseFunctionRest(isAsync, generator)
+    return { type: "FunctionDeclaration", id, params, body, async: isAsync, generator, range: this.rangeFrom(start) }
+  }
+
+  // Parameters and body of a function; what `await` and `yield` mean inside depends on the kind of function
+  private parseFunctionRest(
+    isAsync: boolean,
+    generator: boolean,
+  ): { params: SaaamPattern[]; body: SaaamBlockStatement } {
+    const previousAsync = this.inAsync
+    const previousGenerator = this.inGenerator
+    this.inAsync = isAsync
+    this.inGenerator = generator
+    try {
+      const params = this.parseParams()
+      const body = this.parseBlock()
+      return { params, body }
+    } finally {
+      this.inAsync = previousAsync
+      this.inGenerator = previousGenerator
+    }
+  }
+
+  private parseClassDeclaration(): SaaamClassDeclaration {
+    const start = this.expect("class")
+    const id = this.parseIdentifier()
+    const superClass = this.eat("extends") ? this.parseCallOrMember() : null
+    const body = this.parseClassBody()
+    return { type: "ClassDeclaration", id, superClass, body, range: this.rangeFrom(start) }
+  }
+
+  private parseParams(): SaaamPattern[] {
+    const params: SaaamPattern[] = []
+    this.expect("(")
+    while (!this.is(")")) {
+      params.push(this.parseBindingElement())
+      if (!this.is(")")) this.expect(",")
+    }
+    this.expect(")")
+    return params
+  }
+
+  private parseIfStatement(): SaaamIfStatement {
+    const start = this.expect("if")
+    const test = this.parseParenthesized()
+    const consequent = this.parseStatement()
+    const alternate = this.eat("else") ? this.parseStatement() : null
+    return { type: "IfStatement", test, consequent, alternate, range: this.rangeFrom(start) }
+  }
+
+  private parseForStatement(): SaaamForStatement | SaaamForInOfStatement {
+    const start = this.expect("for")
+    this.expect("(")
+
+    let init: SaaamVariableDeclaration | SaaamExpression | null = null
+    const previousNoIn = this.noIn
+    this.noIn = true
+    try {
+      if (this.is("var") || this.is("let") || this.is("const")) {
+        init = this.parseVariableDeclaration()
+      } else if (!this.is(";")) {
+        init = this.parseExpression()
+      }
+    } finally {
+      this.noIn = previousNoIn
+    }
+
+    if (init && (this.is("of") || this.is("in"))) {
+      const type = this.next().value === "of" ? "ForOfStatement" : "ForInStatement"
+      const right = type === "ForOfStatement" ? this.parseAssignment() : this.parseExpression()
+      this.expect(")")
+      const body = this.parseStatement()
+      const left = init.type === "VariableDeclaration" ? init : this.toPattern(init)
+      return { type, left, right, body, range: this.rangeFrom(start) }
+    }
+
+    this.expect(";")
+    const test = this.is(";") ? null : this.parseExpression()
+    this.expect(";")
+    const update = this.is(")") ? null : this.parseExpression()
+    this.expect(")")
+    const body = this.parseStatement()
+
+    return { type: "ForStatement", init, test, update, body, range: this.rangeFrom(start) }
+  }
+
+  private parseWhileStatement(): SaaamWhileStatement {
+    const start = this.expect("while")
+    const test = this.parseParenthesized()
+    const body = this.parseStatement()
+    return { type: "WhileStatement", test, body, range: this.rangeFrom(start) }
+  }
+
+  private parseDoWhileStatement(): SaaamWhileStatement {
+    const start = this.expect("do")
+    const body = this.parseStatement()
+    this.expect("while")
+    const test = this.parseParenthesized()
+    this.eat(";")
+    return { type: "DoWhileStatement", test, body, range: this.rangeFrom(start) }
+  }
+
+  private parseReturnStatement(): SaaamReturnStatement {
+    const start = this.expect("return")
+    const argument = this.canEndStatement() ? null : this.parseExpression()
+    this.consumeSemicolon()
+    return { type: "ReturnStatement", argument, range: this.rangeFrom(start) }
+  }
+
+  private parseJumpStatement(): SaaamBreakStatement | SaaamContinueStatement {
+    const start = this.next()
+    const label = this.current().type === "identifier" && !this.current().newlineBefore ? this.parseIdentifier() : null
+    this.consumeSemicolon()
+    const type = start.value === "break" ? "BreakStatement" : "ContinueStatement"
+    return { type, label, range: this.rangeFrom(start) }
+  }
+
+  private parseThrowStatement(): SaaamThrowStatement {
+    const start = this.expect("throw")
+    if (this.current().newlineBefore) {
+      this.fail("Illegal newline after throw")
+    }
+    const argument = this.parseExpression()
+    this.consumeSemicolon()
+    return { type: "ThrowStatement", argument, range: this.rangeFrom(start) }
+  }
+
+  private parseSwitchStatement(): SaaamSwitchStatement {
+    const start = this.expect("switch")
+    const discriminant = this.parseParenthesized()
+    const cases: SaaamSwitchCase[] = []
+    this.expect("{")
+
+    while (!this.is("}")) {
+      const caseStart = this.current()
+      let test: SaaamExpression | null = null
+      if (this.eat("default")) {
+        if (cases.some((c) => c.test === null)) {
+          this.report("error", "More than one default clause in switch statement", caseStart.range)
+        }
+      } else {
+        this.expect("case")
+        test = this.parseExpression()
+      }
+      this.expect(":")
+
+      const consequent: SaaamStatement[] = []
+      while (!this.is("case") && !this.is("default") && !this.is("}")) {
+        if (this.isEof()) this.fail("Missing closing '}' for switch statement")
+        const statement = this.parseStatementWithRecovery()
+        if (statement) consequent.push(statement)
+      }
+      cases.push({ type: "SwitchCase", test, consequent, range: this.rangeFrom(caseStart) })
+    }
+    this.expect("}")
+
+    return { type: "SwitchStatement", discriminant, cases, range: this.rangeFrom(start) }
+  }
+
+  private parseTryStatement(): SaaamTryStatement {
+    const start = this.expect("try")
+    const block = this.parseBlock()
+    let param: SaaamPattern | null = null
+    let handler: SaaamBlockStatement | null = null
+    let finalizer: SaaamBlockStatement | null = null
+
+    if (this.eat("catch")) {
+      if (this.eat("(")) {
+        param = this.parseBindingTarget()
+        this.expect(")")
+      }
+      handler = this.parseBlock()
+    }
+    if (this.eat("finally")) {
+      finalizer = this.parseBlock()
+    }
+    if (!handler && !finalizer) {
+      this.fail("Missing catch or finally after try")
+    }
+
+    return { type: "TryStatement", block, param, handler, finalizer, range: this.rangeFrom(start) }
+  }
+
+  // Expressions
+
+  private parseExpression(): SaaamExpression {
+    const start = this.current()
+    const first = this.parseAssignment()
+    if (!this.is(",")) return first
+
+    const expressions = [first]
+    while (this.eat(",")) {
+      expressions.push(this.parseAssignment())
+    }
+    return { type: "SequenceExpression", expressions, range: this.rangeFrom(start) }
+  }
+
+  private parseAssignment(): SaaamExpression {
+    const start = this.current()
+
+    if (this.inGenerator && start.type === "identifier" && start.value === "yield") {
+      return this.parseYield()
+    }
+
+    if (this.isArrowFunctionStart()) {
+      return this.parseArrowFunction()
+    }
+
+    const left = this.parseConditional()
+
+    if (this.current().type === "punctuator" && ASSIGNMENT_OPERATORS.has(this.current().value)) {
+      const operator = this.next().value
+      const target = operator === "=" ? this.toPattern(left) : this.toSimpleTarget(left)
+      const right = this.parseAssignment()
+      return { type: "AssignmentExpression", operator, left: target, right, range: this.rangeFrom(start) }
+    }
+
+    return left
+  }
+
+  private parseYield(): SaaamYieldExpression {
+    const start = this.next()
+    const delegate = !this.current().newlineBefore && this.eat("*")
+    // A bare `yield` ends where no expression can follow
+    const bare = this.canEndStatement() || [")", "]", ",", ":"].some((value) => this.is(value))
+    const argument = delegate || !bare ? this.parseAssignment() : null
+    return { type: "YieldExpression", argument, delegate, range: this.rangeFrom(start) }
+  }
+
+  private parseConditional(): SaaamExpression {
+    const start = this.current()
+    const test = this.parseBinary(0)
+    if (!this.eat("?")) return test
+
+    const previousNoIn = this.noIn
+    this.noIn = false
+    const consequent = this.parseAssignment()
+    this.noIn = previousNoIn
+    this.expect(":")
+    const alternate = this.parseAssignment()
+
+    return { type: "ConditionalExpression", test, consequent, alternate, range: this.rangeFrom(start) }
+  }
+
+  private parseBinary(minPrecedence: number): SaaamExpression {
+    const start = this.current()
+    let left = this.parseUnary()
+
+    while (true) {
+      const token = this.current()
+      const isOperator =
+        (token.type === "punctuator" || token.value === "instanceof" || token.value === "in") &&
+        token.value in BINARY_PRECEDENCE &&
+        !(this.noIn && token.value === "in")
+      if (!isOperator) break
+
+      const precedence = BINARY_PRECEDENCE[token.value]
+      if (precedence <= minPrecedence) break
+      // `-x ** 2` could mean either grouping, so JavaScript wants parentheses; `(-x) ** 2` starts with "("
+      if (
+        token.value === "**" &&
+        (left.type === "UnaryExpression" || left.type === "AwaitExpression") &&
+        !(start.type === "punctuator" && start.value === "(")
+      ) {
+        this.fail(`Unary operator before '**' needs parentheses`)
+      }
+      this.index++
+
+      // Exponentiation is right-associative
+      const right = this.parseBinary(token.value === "**" ? precedence - 1 : precedence)
+      const range = this.rangeFrom(start)
+      if (token.value === "&&" || token.value === "||" || token.value === "??") {
+        left = { type: "LogicalExpression", operator: token.value, left, right, range }
+      } else {
+        left = { type: "BinaryExpression", operator: token.value, left, right, range }
+      }
+    }
+
+    return left
+  }
+
+  private parseUnary(): SaaamExpression {
+    const start = this.current()
+
+    if (UNARY_OPERATORS.has(start.value) && (start.type === "punctuator" || start.type === "keyword")) {
+      this.index++
+      const argument = this.parseUnary()
+      return { type: "UnaryExpression", operator: start.value, argument, range: this.rangeFrom(start) }
+    }
+
+    if (this.inAsync && start.type === "identifier" && start.value === "await") {
+      this.index++
+      const argument = this.parseUnary()
+      return { type: "AwaitExpression", argument, range: this.rangeFrom(start) }
+    }
+
+    if (this.is("++") || this.is("--")) {
+      this.index++
+      const argument = this.toSimpleTarget(this.parseUnary())
+      const operator = start.value as "++" | "--"
+      return { type: "UpdateExpression", operator, prefix: true, argument, range: this.rangeFrom(start) }
+    }
+
+    const expression = this.parseCallOrMember()
+
+    if ((this.is("++") || this.is("--")) && !this.current().newlineBefore) {
+      const operator = this.next().value as "++" | "--"
+      const argument = this.toSimpleTarget(expression)
+      return { type: "UpdateExpression", operator, prefix: false, argument, range: this.rangeFrom(start) }
+    }
+
+    return expression
+  }
+
+  private parseCallOrMember(): SaaamExpression {
+    const start = this.current()
+    let expression = this.is("new") ? this.parseNewOrMeta() : this.parsePrimary()
+
+    while (true) {
+      if (this.eat(".")) {
+        const property = this.parseMemberName()
+        expression = {
+          type: "MemberExpression",
+          object: expression,
+          property,
+          computed: false,
+          optional: false,
+          range: this.rangeFrom(start),
+        }
+      } else if (this.is("?.")) {
+        this.index++
+        if (this.is("(")) {
+          const args = this.parseArguments()
+          expression = {
+            type: "CallExpression",
+            callee: expression,
+            arguments: args,
+            optional: true,
+            range: this.rangeFrom(start),
+          }
+        } else if (this.eat("[")) {
+          const property = this.parseExpression()
+          this.expect("]")
+          expression = {
+            type: "MemberExpression",
+            object: expression,
+            property,
+            computed: true,
+            optional: true,
+            range: this.rangeFrom(start),
+          }
+        } else {
+          const property = this.parseMemberName()
+          expression = {
+            type: "MemberExpression",
+            object: expression,
+            property,
+            computed: false,
+            optional: true,
+            range: this.rangeFrom(start),
+          }
+        }
+      } else if (this.is("[")) {
+        this.index++
+        const previousNoIn = this.noIn
+        this.noIn = false
+        const property = this.parseExpression()
+        this.noIn = previousNoIn
+        this.expect("]")
+        expression = {
+          type: "MemberExpression",
+          object: expression,
+          property,
+          computed: true,
+          optional: false,
+          range: this.rangeFrom(start),
+        }
+      } else if (this.is("(")) {
+        const args = this.parseArguments()
+        expression = {
+          type: "CallExpression",
+          callee: expression,
+          arguments: args,
+          optional: false,
+          range: this.rangeFrom(start),
+        }
+      } else if (this.current().type === "template") {
+        const quasi = this.parseTemplate(this.next())
+        expression = { type: "TaggedTemplateExpression", tag: expression, quasi, range: this.rangeFrom(start) }
+      } else {
+        break
+      }
+    }
+
+    return expression
+  }
+
+  private parseNewOrMeta(): SaaamNewExpression | SaaamMetaProperty {
+    if (this.peek(1).value !== ".") return this.parseNew()
+
+    const start = this.next()
+    this.expect(".")
+    const property = this.parseIdentifier()
+    if (property.name !== "target") {
+      throw new SaaamSyntaxError(`Unknown meta property 'new.${property.name}'`, property.range)
+    }
+    const meta: SaaamIdentifier = { type: "Identifier", name: "new", range: start.range }
+    return { type: "MetaProperty", meta, property, range: this.rangeFrom(start) }
+  }
+
+  private parseNew(): SaaamNewExpression {
+    const start = this.expect("new")
+    let callee: SaaamExpression = this.is("new") ? this.parseNewOrMeta() : this.parsePrimary()
+
+    while (this.is(".") || this.is("[")) {
+      if (this.eat(".")) {
+        const property = this.parseMemberName()
+        callee = {
+          type: "MemberExpression",
+          object: callee,
+          property,
+          computed: false,
+          optional: false,
+          range: this.rangeFrom(start),
+        }
+      } else {
+        this.index++
+        const property = this.parseExpression()
+        this.expect("]")
+        callee = {
+          type: "MemberExpression",
+          object: callee,
+          property,
+          computed: true,
+          optional: false,
+          range: this.rangeFrom(start),
+        }
+      }
+    }
+
+    const args = this.is("(") ? this.parseArguments() : []
+    return { type: "NewExpression", callee, arguments: args, range: this.rangeFrom(start) }
+  }
+
+  private parseArguments(): Array<SaaamExpression | SaaamSpreadElement> {
+    const args: Array<SaaamExpression | SaaamSpreadElement> = []
+    const previousNoIn = this.noIn
+    this.noIn = false
+    this.expect("(")
+    while (!this.is(")")) {
+      args.push(this.parseSpreadOrAssignment())
+      if (!this.is(")")) this.expect(",")
+    }
+    this.expect(")")
+    this.noIn = previousNoIn
+    return args
+  }
+
+  private parseSpreadOrAssignment(): SaaamExpression | SaaamSpreadElement {
+    const start = this.current()
+    if (this.eat("...")) {
+      const argument = this.parseAssignment()
+      return { type: "SpreadElement", argument, range: this.rangeFrom(start) }
+    }
+    return this.parseAssignment()
+  }
+
+  private parsePrimary(): SaaamExpression {
+    const token = this.current()
+
+    switch (token.type) {
+      case "identifier":
+        if (this.isAsyncFunctionStart()) return this.parseFunctionExpression()
+        return this.parseIdentifier()
+      case "private":
+        // Only as the left side of `#name in object`
+        if (this.peek(1).value !== "in") break
+        return this.parsePrivateName()
+      case "number":
+        this.index++
+        return { type: "Literal", value: Number(token.value.replace(/_/g, "")), raw: token.value, range: token.range }
+      case "string":
+        this.index++
+        return { type: "Literal", value: token.value, raw: JSON.stringify(token.value), range: token.range }
+      case "regex":
+        this.index++
+        return { type: "RegexLiteral", raw: token.value, range: token.range }
+      case "template":
+        this.index++
+        return this.parseTemplate(token)
+      case "keyword":
+        switch (token.value) {
+          case "true":
+          case "false":
+            this.index++
+            return { type: "Literal", value: token.value === "true", raw: token.value, range: token.range }
+          case "null":
+            this.index++
+            return { type: "Literal", value: null, raw: token.value, range: token.range }
+          case "this":
+            this.index++
+            return { type: "ThisExpression", range: token.range }
+          case "super":
+            this.index++
+            return { type: "Super", range: token.range }
+          case "function":
+            return this.parseFunctionExpression()
+          case "class":
+            return this.parseClassExpression()
+        }
+        break
+      case "punctuator":
+        switch (token.value) {
+          case "(": {
+            this.index++
+            const previousNoIn = this.noIn
+            this.noIn = false
+            const expression = this.parseExpression()
+            this.noIn = previousNoIn
+            this.expect(")")
+            return expression
+          }
+          case "[":
+            return this.parseArrayLiteral()
+          case "{":
+            return this.parseObjectLiteral()
+        }
+        break
+      case "eof":
+        this.fail("Unexpected end of input")
+    }
+
+    this.fail(`Unexpected ${this.describeToken(token)}`)
+  }
+
+  private parseTemplate(token: SaaamToken): SaaamTemplateLiteral {
+    const expressions = (token.expressions || []).map((tokens) => {
+      const eofToken = this.tokens[this.tokens.length - 1]
+      const end = tokens.length > 0 ? tokens[tokens.length - 1].range.end : token.range.end
+      const parser = new SaaamParser([...tokens, { ...eofToken, range: { start: end, end } }], this.diagnostics)
+      if (tokens.length === 0) {
+        this.report("error", "Empty template expression", token.range)
+        return { type: "Literal", value: "", raw: '""', range: token.range } as SaaamLiteral
+      }
+      try {
+        return parser.parseStandaloneExpression()
+      } catch (error) {
+        if (!(error instanceof SaaamSyntaxError)) throw error
+        this.report("error", error.message, error.range)
+        return { type: "Literal", value: "", raw: '""', range: token.range } as SaaamLiteral
+      }
+    })
+    return { type: "TemplateLiteral", quasis: token.quasis || [""], expressions, range: token.range }
+  }
+
+  private parseFunctionExpression(): SaaamFunctionExpression {
+    const start = this.current()
+    const isAsync = this.isAsyncFunctionStart()
+    if (isAsync) this.index++
+    this.expect("function")
+    const generator = this.eat("*")
+    const id = this.current().type === "identifier" ? this.parseIdentifier() : null
+    const { params, body } = this.parseFunctionRest(isAsync, generator)
+    return { type: "FunctionExpression", id, params, body, async: isAsync, generator, range: this.rangeFrom(start) }
+  }
+
+  // A method's function; like in ESTree, its range starts at the parameter list rather than at the name
+  private parseMethodFunction(isAsync: boolean, generator: boolean): SaaamFunctionExpression {
+    const start = this.current()
+    const { params, body } = this.parseFunctionRest(isAsync, generator)
+    return {
+      type: "FunctionExpression",
+      id: null,
+      params,
+      body,
+      async: isAsync,
+      generator,
+      range: this.rangeFrom(start),
+    }
+  }
+
+  private parseClassExpression(): SaaamClassExpression {
+    const start = this.expect("class")
+    const id = this.current().type === "identifier" ? this.parseIdentifier() : null
+    const superClass = this.eat("extends") ? this.parseCallOrMember() : null
+    const body = this.parseClassBody()
+    return { type: "ClassExpression", id, superClass, body, range: this.rangeFrom(start) }
+  }
+
+  private parseClassBody(): SaaamClassBody {
+    const start = this.expect("{")
+    const body: SaaamClassBody["body"] = []
+
+    while (!this.is("}")) {
+      if (this.isEof()) this.fail("Missing closing '}' for class body")
+      if (this.eat(";")) continue
+      body.push(this.parseClassMember())
+    }
+    this.expect("}")
+
+    return { type: "ClassBody", body, range: this.rangeFrom(start) }
+  }
+
+  private parseClassMember(): SaaamMethodDefinition | SaaamPropertyDefinition | SaaamStaticBlock {
+    const start = this.current()
+    if (start.value === "static" && start.type === "identifier" && this.peek(1).value === "{") {
+      this.index++
+      const { body } = this.parseBlock()
+      return { type: "StaticBlock", body, range: this.rangeFrom(start) }
+    }
+
+    const isStatic = start.value === "static" && start.type === "identifier" && this.startsPropertyKey(1)
+    if (isStatic) this.index++
+
+    const { kind, isAsync, generator } = this.parseMethodModifiers()
+    const { key, computed } =
+      this.current().type === "private" ? { key: this.parsePrivateName(), computed: false } : this.parseObjectKey()
+
+    if (kind !== "init" || isAsync || generator || this.is("(")) {
+      const value = this.parseMethodFunction(isAsync, generator)
+      const named = (name: string) =>
+        !computed &&
+        ((key.type === "Identifier" && key.name === name) || (key.type === "Literal" && key.value === name))
+      const isConstructor = !isStatic && kind === "init" && named("constructor")
+      return {
+        type: "MethodDefinition",
+        key,
+        value,
+        kind: isConstructor ? "constructor" : kind === "init" ? "method" : kind,
+        computed,
+        static: isStatic,
+        range: this.rangeFrom(start),
+      }
+    }
+
+    // A field, with or without an initializer
+    const value = this.eat("=") ? this.parseAssignment() : null
+    if (!this.eat(";") && !this.is("}") && !this.current().newlineBefore) {
+      this.fail(`Unexpected ${this.describeToken(this.current())}, expected ';'`)
+    }
+    return { type: "PropertyDefinition", key, value, computed, static: isStatic, range: this.rangeFrom(start) }
+  }
+
+  // `get`, `set`, `async` and `*` in front of a method name. Each is an ordinary name when no name follows
+  // it (`{ get() {} }`, `{ async: true }`)
+  private parseMethodModifiers(): { kind: SaaamProperty["kind"]; isAsync: boolean; generator: boolean } {
+    const token = this.current()
+    let kind: SaaamProperty["kind"] = "init"
+    let isAsync = false
+
+    if (token.type === "identifier" && this.startsPropertyKey(1)) {
+      if (token.value === "get" || token.value === "set") {
+        this.index++
+        kind = token.value
+      } else if (token.value === "async" && !this.peek(1).newlineBefore) {
+        this.index++
+        isAsync = true
+      }
+    }
+
+    const generator = kind === "init" && this.eat("*")
+    return { kind, isAsync, generator }
+  }
+
+  private startsPropertyKey(ahead: number): boolean {
+    const token = this.peek(ahead)
+    if (token.type === "punctuator") return token.value === "[" || token.value === "*"
+    return ["identifier", "private", "keyword", "string", "number"].includes(token.type)
+  }
+
+  // `async function`, with no line break between the two
+  private isAsyncFunctionStart(): boolean {
+    const token = this.current()
+    const next = this.peek(1)
+    return (
+      token.type === "identifier" &&
+      token.value === "async" &&
+      next.type === "keyword" &&
+      next.value === "function" &&
+      !next.newlineBefore
+    )
+  }
+
+  // Detect `x =>`, `(...) =>` and their `async` forms by scanning ahead to the matching parenthesis
+  private isArrowFunctionStart(): boolean {
+    const token = this.current()
+    if (token.type === "identifier" && token.value === "async" && !this.peek(1).newlineBefore) {
+      if (this.isArrowAt(this.index + 1)) return true
+    }
+    return this.isArrowAt(this.index)
+  }
+
+  private isArrowAt(index: number): boolean {
+    const token = this.tokens[Math.min(index, this.tokens.length - 1)]
+    if (token.type === "identifier") {
+      const next = this.tokens[Math.min(index + 1, this.tokens.length - 1)]
+      return next.value === "=>" && !next.newlineBefore
+    }
+    if (!(token.type === "punctuator" && token.value === "(")) return false
+
+    let depth = 0
+    for (let i = index; i < this.tokens.length; i++) {
+      const t = this.tokens[i]
+      if (t.type === "eof") return false
+      if (t.type !== "punctuator") continue
+      if (t.value === "(" || t.value === "[" || t.value === "{") depth++
+      if (t.value === ")" || t.value === "]" || t.value === "}") depth--
+      if (depth === 0) {
+        const next = this.tokens[i + 1]
+        return !!next && next.value === "=>" && next.type === "punctuator" && !next.newlineBefore
+      }
+    }
+    return false
+  }
+
+  private parseArrowFunction(): SaaamArrowFunctionExpression {
+    const start = this.current()
+    // `async => 1` is an arrow with a parameter called async
+    const isAsync = start.value === "async" && this.peek(1).value !== "=>"
+    if (isAsync) this.index++
+
+    const previousAsync = this.inAsync
+    const previousGenerator = this.inGenerator
+    this.inAsync = isAsync
+    this.inGenerator = false
+    try {
+      const params = this.is("(") ? this.parseParams() : [this.parseIdentifier()]
+      this.expect("=>")
+
+      const expression = !this.is("{")
+      const body = expression ? this.parseAssignment() : this.parseBlock()
+      return { type: "ArrowFunctionExpression", params, body, expression, async: isAsync, range: this.rangeFrom(start) }
+    } finally {
+      this.inAsync = previousAsync
+      this.inGenerator = previousGenerator
+    }
+  }
+
+  private parseArrayLiteral(): SaaamArrayExpression {
+    const start = this.expect("[")
+    const elements: Array<SaaamExpression | SaaamSpreadElement | null> = []
+    const previousNoIn = this.noIn
+    this.noIn = false
+
+    while (!this.is("]")) {
+      if (this.is(",")) {
+        this.index++
+        elements.push(null)
+        continue
+      }
+      elements.push(this.parseSpreadOrAssignment())
+      if (!this.is("]")) this.expect(",")
+    }
+    this.expect("]")
+    this.noIn = previousNoIn
+
+    return { type: "ArrayExpression", elements, range: this.rangeFrom(start) }
+  }
+
+  private parseObjectLiteral(): SaaamObjectExpression {
+    const start = this.expect("{")
+    const properties: Array<SaaamProperty | SaaamSpreadElement> = []
+    const previousNoIn = this.noIn
+    this.noIn = false
+
+    while (!this.is("}")) {
+      const propStart = this.current()
+
+      if (this.eat("...")) {
+        const argument = this.parseAssignment()
+        properties.push({ type: "SpreadElement", argument, range: this.rangeFrom(propStart) })
+      } else {
+        const { kind, isAsync, generator } = this.parseMethodModifiers()
+        const { key, computed } = this.parseObjectKey()
+
+        if (kind !== "init" || isAsync || generator || this.is("(")) {
+          const value = this.parseMethodFunction(isAsync, generator)
+          properties.push({
+            type: "Property",
+            key,
+            value,
+            kind,
+            computed,
+            shorthand: false,
+            method: kind === "init",
+            range: this.rangeFrom(propStart),
+          })
+        } else if (this.eat(":")) {
+          const value = this.parseAssignment()
+          properties.push({
+            type: "Property",
+            key,
+            value,
+            kind,
+            computed,
+            shorthand: false,
+            method: false,
+            range: this.rangeFrom(propStart),
+          })
+        } else if (key.type === "Identifier" && !computed) {
+          // Shorthand `{ x }`, or `{ x = 1 }` which is only valid once converted to a pattern
+          let value: SaaamExpression = key
+          if (this.is("=")) {
+            this.index++
+            const right = this.parseAssignment()
+            value = { type: "AssignmentExpression", operator: "=", left: key, right, range: this.rangeFrom(propStart) }
+          }
+          properties.push({
+            type: "Property",
+            key,
+            value,
+            kind,
+            computed: false,
+            shorthand: true,
+            method: false,
+            range: this.rangeFrom(propStart),
+          })
+        } else {
+          this.fail(`Expected ':' after property key`)
+        }
+      }
+
+      if (!this.is("}")) this.expect(",")
+    }
+    this.expect("}")
+    this.noIn = previousNoIn
+
+    return { type: "ObjectExpression", properties, range: this.rangeFrom(start) }
+  }
+
+  private parseObjectKey(): { key: SaaamExpression; computed: boolean } {
+    const token = this.current()
+
+    if (this.eat("[")) {
+      const key = this.parseAssignment()
+      this.expect("]")
+      return { key, computed: true }
+    }
+    if (token.type === "string" || token.type === "number") {
+      this.index++
+      const value = token.type === "number" ? Number(token.value) : token.value
+      return { key: { type: "Literal", value, raw: token.value, range: token.range }, computed: false }
+    }
+    if (token.type === "identifier" || token.type === "keyword") {
+      this.index++
+      return { key: { type: "Identifier", name: token.value, range: token.range }, computed: false }
+    }
+
+    this.fail(`Unexpected ${this.describeToken(token)} in object literal`)
+  }
+
+  // Property names after "." may be keywords (e.g. `SAAAM.vk.default`)
+  private parsePropertyName(): SaaamIdentifier {
+    const token = this.current()
+    if (token.type !== "identifier" && token.type !== "keyword") {
+      this.fail(`Expected property name but found ${this.describeToken(token)}`)
+    }
+    this.index++
+    return { type: "Identifier", name: token.value, range: token.range }
+  }
+
+  // A name after "." or "?.", which may also be a class's private member
+  private parseMemberName(): SaaamIdentifier | SaaamPrivateIdentifier {
+    return this.current().type === "private" ? this.parsePrivateName() : this.parsePropertyName()
+  }
+
+  private parsePrivateName(): SaaamPrivateIdentifier {
+    const token = this.next()
+    return { type: "PrivateIdentifier", name: token.value.slice(1), range: token.range }
+  }
+
+  private parseIdentifier(): SaaamIdentifier {
+    const token = this.current()
+    if (token.type !== "identifier") {
+      this.fail(`Expected identifier but found ${this.describeToken(token)}`)
+    }
+    this.index++
+    return { type: "Identifier", name: token.value, range: token.range }
+  }
+
+  // Patterns
+
+  private parseBindingTarget(): SaaamPattern {
+    if (this.is("[") || this.is("{")) {
+      return this.toPattern(this.parsePrimary())
+    }
+    return this.parseIdentifier()
+  }
+
+  private parseBindingElement(): SaaamPattern {
+    const start = this.current()
+    if (this.eat("...")) {
+      const argument = this.parseBindingTarget()
+      return { type: "RestElement", argument, range: this.rangeFrom(start) }
+    }
+    const target = this.parseBindingTarget()
+    if (this.eat("=")) {
+      const right = this.parseAssignment()
+      return { type: "AssignmentPattern", left: target, right, range: this.rangeFrom(start) }
+    }
+    return target
+  }
+
+  // Reinterpret an already-parsed expression as an assignment/binding pattern
+  private toPattern(node: SaaamExpression | SaaamSpreadElement): SaaamPattern {
+    switch (node.type) {
+      case "Identifier":
+      case "MemberExpression":
+        return node
+      case "AssignmentExpression":
+        if (node.operator === "=") {
+          return { type: "AssignmentPattern", left: node.left as SaaamPattern, right: node.right, range: node.range }
+        }
+        break
+      case "SpreadElement":
+        return { type: "RestElement", argument: this.toPattern(node.argument), range: node.range }
+      case "ArrayExpression":
+        return {
+          type: "ArrayPattern",
+          elements: node.elements.map((element) => (element ? this.toPattern(element) : null)),
+          range: node.range,
+        }
+      case "ObjectExpression":
+        return {
+          type: "ObjectPattern",
+          properties: node.properties.map((property) =>
+            property.type === "SpreadElement"
+              ? { type: "RestElement" as const, argument: this.toPattern(property.argument), range: property.range }
+              : {
+                  key: property.key,
+                  value: this.toPattern(property.value),
+                  computed: property.computed,
+                  shorthand: property.shorthand,
+                },
+          ),
+          range: node.range,
+        }
+    }
+    throw new SaaamSyntaxError("Invalid assignment target", node.range)
+  }
+
+  private toSimpleTarget(node: SaaamExpression): SaaamIdentifier | SaaamMemberExpression {
+    if (node.type === "Identifier" || node.type === "MemberExpression") return node
+    throw new SaaamSyntaxError("Invalid assignment target", node.range)
+  }
+
+  // Helpers
+
+  private parseParenthesized(): SaaamExpression {
+    this.expect("(")
+    const expression = this.parseExpression()
+    this.expect(")")
+    return expression
+  }
+
+  private isForInOfHead(): boolean {
+    return this.noIn && (this.is("of") || this.is("in"))
+  }
+
+  private canEndStatement(): boolean {
+    return this.is(";") || this.is("}") || this.isEof() || this.current().newlineBefore
+  }
+
+  // Automatic semicolon insertion: a missing ";" is fine before "}", end of input or a line break
+  private consumeSemicolon() {
+    if (this.eat(";") || this.canEndStatement()) return
+
+    this.fail(`Unexpected ${this.describeToken(this.current())}, expected ';'`)
+  }
+
+  private describePattern(pattern: SaaamPattern): string {
+    return pattern.type === "Identifier" ? pattern.name : "pattern"
+  }
+
+  private describeToken(token: SaaamToken): string {
+    return token.type === "eof" ? "end of input" : `token '${token.value}'`
+  }
+
+  private current(): SaaamToken {
+    return this.tokens[Math.min(this.index, this.tokens.length - 1)]
+  }
+
+  private peek(ahead: number): SaaamToken {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)]
+  }
+
+  private next(): SaaamToken {
+    const token = this.current()
+    if (this.index < this.tokens.length - 1) this.index++
+    return token
+  }
+
+  private isEof(): boolean {
+    return this.current().type === "eof"
+  }
+
+  private is(value: string): boolean {
+    const token = this.current()
+    if (token.type === "punctuator" || token.type === "keyword") return token.value === value
+    // Contextual keywords such as `of` are lexed as identifiers
+    return token.type === "identifier" && value === "of" && token.value === "of"
+  }
+
+  private eat(value: string): boolean {
+    if (!this.is(value)) return false
+    this.index++
+    return true
+  }
+
+  private expect(value: string): SaaamToken {
+    if (!this.is(value)) {
+      const token = this.current()
+      this.fail(`Expected '${value}' but found ${this.describeToken(token)}`)
+    }
+    return this.next()
+  }
+
+  private rangeFrom(start: SaaamToken): SaaamSourceRange {
+    const previous = this.tokens[Math.max(this.index - 1, 0)]
+    return { start: start.range.start, end: previous.range.end }
+  }
+
+  private report(severity: SaaamDiagnostic["severity"], message: string, range: SaaamSourceRange) {
+    this.diagnostics.push({ severity, message, range })
+  }
+
+  private fail(message: string): never {
+    throw new SaaamSyntaxError(message, this.current().range)
+  }
+}
+
+// Parse a .saaam source file into an AST plus diagnostics
+export function parseSaaam(source: string): SaaamParseResult {
+  return new SaaamParser(source).parseProgram()
+}
+
+// Visit every node of a SAAAM AST depth-first, parents before children
+export function walkSaaamAst(node: SaaamNode, visit: (node: SaaamNode, parent: SaaamNode | null) => void) {
+  const walk = (current: SaaamNode, parent: SaaamNode | null) => {
+    visit(current, parent)
+    for (const key of Object.keys(current)) {
+      if (key === "range") continue
+      const value = (current as any)[key]
+      if (Array.isArray(value)) {
+        for (const child of value) {
+          if (child && typeof child === "object" && "type" in child) walk(child, current)
+          // Object pattern properties are plain records holding key/value nodes
+          else if (child && typeof child === "object" && "value" in child) walk(child.value, current)
+        }
+      } else if (value && typeof value === "object" && "type" in value) {
+        walk(value, current)
+      }
+    }
+  }
+  walk(node, null)
+}
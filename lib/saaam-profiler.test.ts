@@ -0,0 +1,30 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { SaaamHeadlessRunner } from "./saaam-headless"
+import { SaaamProfiler } from "./saaam-profiler"
+
+const script = `
+let t = 0
+SAAAM.registerStep(function (dt) { t += dt })
+SAAAM.registerDraw(function () { SAAAM.drawRectangle(t, 0, 10, 10, "#ff0000") })
+`
+
+// The script worker removes performance from its global scope, and passes the clock it kept instead
+test("profiles a run after the global performance is removed", () => {
+  const now = performance.now.bind(performance)
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, "performance")!
+  delete (globalThis as any).performance
+  try {
+    assert.throws(() => new SaaamProfiler(), /needs a clock/)
+
+    const runner = new SaaamHeadlessRunner()
+    runner.runtime.setProfiler(new SaaamProfiler(undefined, now))
+    assert.equal(runner.load(script), true)
+    assert.equal(runner.run(300), 300)
+    assert.deepEqual(runner.getErrors(), [])
+    assert.equal(runner.runtime.getProfile()!.frames.length, 300)
+  } finally {
+    Object.defineProperty(globalThis, "performance", descriptor)
+  }
+})
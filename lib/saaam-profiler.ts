@@ -0,0 +1,162 @@
+// SAAAM Profiler - Measures where a running game spends its frames, for the IDE's profiler view
+
+import { SaaamRingBuffer } from "./saaam-snapshot"
+
+// A span of a frame. Consecutive calls of the same function (a step event of 100 instances) are merged into
+// one span, so `duration` is their total time and `calls` how many there were
+export type SaaamProfileSpan = {
+  name: string
+  // Milliseconds since the start of the frame
+  start: number
+  duration: number
+  calls: number
+  children: SaaamProfileSpan[]
+}
+
+export type SaaamProfileFrame = {
+  frame: number
+  // Milliseconds, as measured by performance.now in the runtime
+  start: number
+  duration: number
+  // Steps run in the frame (0 while paused, several when a fixed timestep catches up)
+  steps: number
+  // SAAAM.draw* calls
+  drawCalls: number
+  objects: number
+  spans: SaaamProfileSpan[]
+}
+
+// Time spent in a function over the whole capture; self time leaves out the spans it called
+export type SaaamProfileFunction = {
+  name: string
+  calls: number
+  totalTime: number
+  selfTime: number
+}
+
+export type SaaamProfile = {
+  version: 1
+  // The most recent frames, oldest first
+  frames: SaaamProfileFrame[]
+  // Every function measured since profiling started, by self time
+  functions: SaaamProfileFunction[]
+}
+
+// Frames kept by default: 5 seconds at 60 fps
+const DEFAULT_CAPACITY = 300
+
+// Spans recorded per frame before the rest only count towards the function totals
+const MAX_SPANS_PER_FRAME = 2000
+
+type OpenSpan = {
+  name: string
+  span: SaaamProfileSpan | null
+  start: number
+  // Time spent in spans opened inside this one
+  childTime: number
+}
+
+export class SaaamProfiler {
+  private frames: SaaamRingBuffer<SaaamProfileFrame>
+  private functions: Map<string, SaaamProfileFunction> = new Map()
+  private current: SaaamProfileFrame | null = null
+  private spanCount = 0
+  private stack: OpenSpan[] = []
+  private now: () => number
+
+  // Without a clock, the one of the global performance is taken now, so removing the global later does not break it
+  constructor(capacity = DEFAULT_CAPACITY, now?: () => number) {
+    if (!now && typeof performance === "undefined") {
+      throw new Error("SaaamProfiler needs a clock: pass one, as there is no global performance here")
+    }
+    this.now = now || performance.now.bind(performance)
+    this.frames = new SaaamRingBuffer(capacity)
+  }
+
+  // Start recording a frame; spans opened outside of frames (e.g. create while loading) only count in totals
+  public beginFrame(frame: number) {
+    this.current = { frame, start: this.now(), duration: 0, steps: 0, drawCalls: 0, objects: 0, spans: [] }
+    this.spanCount = 0
+    this.stack = []
+  }
+
+  // Finish the frame, closing spans an error left open
+  public endFrame(steps: number, objects: number) {
+    while (this.stack.length > 0) this.end()
+    const frame = this.current
+    if (!frame) return
+
+    frame.duration = this.now() - frame.start
+    frame.steps = steps
+    frame.objects = objects
+    this.frames.push(frame)
+    this.current = null
+  }
+
+  // Open a span; every begin needs an end
+  public begin(name: string) {
+    const start = this.now()
+    const parent = this.stack[this.stack.length - 1]
+    const siblings = parent ? parent.span?.children : this.current?.spans
+
+    let span: SaaamProfileSpan | null = null
+    const previous = siblings?.[siblings.length - 1]
+    if (previous?.name === name) {
+      span = previous
+      span.calls++
+    } else if (siblings && this.current && this.spanCount < MAX_SPANS_PER_FRAME) {
+      span = { name, start: start - this.current.start, duration: 0, calls: 1, children: [] }
+      siblings.push(span)
+      this.spanCount++
+    }
+
+    this.stack.push({ name, span, start, childTime: 0 })
+  }
+
+  public end() {
+    const open = this.stack.pop()
+    if (!open) return
+
+    const elapsed = this.now() - open.start
+    if (open.span) open.span.duration += elapsed
+    const parent = this.stack[this.stack.length - 1]
+    if (parent) parent.childTime += elapsed
+
+    let totals = this.functions.get(open.name)
+    if (!totals) {
+      totals = { name: open.name, calls: 0, totalTime: 0, selfTime: 0 }
+      this.functions.set(open.name, totals)
+    }
+    totals.calls++
+    totals.totalTime += elapsed
+    totals.selfTime += elapsed - open.childTime
+  }
+
+  public countDrawCall() {
+    if (this.current) this.current.drawCalls++
+  }
+
+  // Get the recorded frames and totals
+  public getProfile(): SaaamProfile {
+    const frames: SaaamProfileFrame[] = []
+    for (let i = 0; i < this.frames.length; i++) frames.push(this.frames.get(i)!)
+    return {
+      version: 1,
+      frames,
+      functions: [...this.functions.values()].map((totals) => ({ ...totals })).sort((a, b) => b.selfTime - a.selfTime),
+    }
+  }
+
+  // Forget everything recorded so far
+  public clear() {
+    this.frames.clear()
+    this.functions.clear()
+    this.current = null
+    this.stack = []
+  }
+}
+
+// Turn a profile into JSON, e.g. to save a capture to a file
+export function serializeProfile(profile: SaaamProfile): string {
+  return JSON.stringify(profile)
+}
@@ -0,0 +1,69 @@
+// SAAAM Random - Seedable random number generator, so a game can be replayed with the same rolls
+
+// Turn any text (a seed typed by a player, a stream name) into a 32-bit seed
+export function hashSeed(text: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// A fresh seed for runs that do not ask for one
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000)
+}
+
+// Create a generator (mulberry32); its whole state is one 32-bit number, which keeps snapshots small
+export class SaaamRandom {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  // Float in [0, 1), like Math.random
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  // Float in [min, max)
+  public range(min: number, max: number): number {
+    return this.next() * (max - min) + min
+  }
+
+  // Integer in [min, max], both ends included
+  public int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min
+  }
+
+  // One of the items, or undefined if there are none
+  public choose<T>(items: T[]): T | undefined {
+    return items.length > 0 ? items[Math.floor(this.next() * items.length)] : undefined
+  }
+
+  // A shuffled copy of the items (Fisher-Yates)
+  public shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items]
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1))
+      ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+    }
+    return shuffled
+  }
+
+  public getState(): number {
+    return this.state
+  }
+
+  public setState(state: number) {
+    this.state = state >>> 0
+    return this
+  }
+}
@@ -0,0 +1,153 @@
+// SAAAM Replay - Records the input of a run so it can be played back step for step, e.g. from a bug report
+
+import { hashSeed } from "./saaam-random"
+import type { SaaamInputEvent } from "./saaam-runtime"
+
+// Steps between state checksums; playback compares them to notice when it stops matching the recording
+export const REPLAY_CHECKSUM_INTERVAL = 60
+
+// What changed at one step: the input events it consumed and, if it differs from the step before, its delta time
+export type SaaamReplayStep = {
+  tick: number
+  deltaTime?: number
+  events?: SaaamInputEvent[]
+}
+
+export type SaaamReplay = {
+  version: 1
+  // Hash of the script the run was recorded with (see hashScript)
+  scriptHash: string
+  seed: number
+  // Number of steps recorded
+  length: number
+  // Only the steps where something changed
+  steps: SaaamReplayStep[]
+  // [tick, checksum] pairs every REPLAY_CHECKSUM_INTERVAL steps
+  checksums: Array<[number, number]>
+}
+
+export function hashScript(code: string): string {
+  return hashSeed(code).toString(16).padStart(8, "0")
+}
+
+export function serializeReplay(replay: SaaamReplay): string {
+  return JSON.stringify(replay)
+}
+
+// Read a replay written by serializeReplay
+export function parseReplay(json: string): SaaamReplay {
+  const replay = JSON.parse(json)
+  if (replay?.version !== 1 || !Array.isArray(replay.steps) || typeof replay.seed !== "number") {
+    throw new Error("Not a SAAAM replay")
+  }
+  return replay
+}
+
+// Collect the input and delta time of every step of a run
+export class SaaamReplayRecorder {
+  private steps: Map<number, SaaamReplayStep> = new Map()
+  private checksums: Array<[number, number]> = []
+  private length = 0
+  private lastDeltaTime: number | null = null
+
+  constructor(
+    private scriptHash: string,
+    private seed: number,
+  ) {}
+
+  // Record an event to be consumed by the step with the given tick
+  public recordInput(tick: number, event: SaaamInputEvent) {
+    const step = this.getStep(tick)
+    step.events = [...(step.events ?? []), event]
+  }
+
+  // Record that a step ran, with its delta time and (every few steps) a checksum of the state after it
+  public recordStep(tick: number, deltaTime: number, checksum?: number) {
+    if (deltaTime !== this.lastDeltaTime) {
+      this.getStep(tick).deltaTime = deltaTime
+      this.lastDeltaTime = deltaTime
+    }
+    if (checksum !== undefined) this.checksums.push([tick, checksum])
+    this.length = tick
+  }
+
+  // Forget everything after a tick, e.g. when a rewound game resumes from it
+  public truncate(tick: number) {
+    for (const key of [...this.steps.keys()]) {
+      if (key > tick) this.steps.delete(key)
+    }
+    this.checksums = this.checksums.filter(([checksumTick]) => checksumTick <= tick)
+    this.length = Math.min(this.length, tick)
+
+    // The next step must record its delta time again unless the last kept one already says it
+    const lastDeltaTime = [...this.steps.values()].filter((step) => step.deltaTime !== undefined).pop()
+    this.lastDeltaTime = lastDeltaTime?.deltaTime ?? null
+  }
+
+  public getReplay(): SaaamReplay {
+    return {
+      version: 1,
+      scriptHash: this.scriptHash,
+      seed: this.seed,
+      length: this.length,
+      steps: [...this.steps.values()]
+        .sort((a, b) => a.tick - b.tick)
+        .map((step) => ({ ...step, events: step.events && [...step.events] })),
+      checksums: [...this.checksums],
+    }
+  }
+
+  private getStep(tick: number): SaaamReplayStep {
+    let step = this.steps.get(tick)
+    if (!step) {
+      step = { tick }
+      this.steps.set(tick, step)
+    }
+    return step
+  }
+}
+
+// Look up what a replay recorded for each step; lookups work in any order, so rewinding during playback is fine
+export class SaaamReplayPlayer {
+  private events: Map<number, SaaamInputEvent[]> = new Map()
+  // [tick, deltaTime] whenever the delta time changed, in tick order
+  private deltaTimes: Array<[number, number]> = []
+  private checksums: Map<number, number>
+
+  constructor(public replay: SaaamReplay) {
+    for (const step of [...replay.steps].sort((a, b) => a.tick - b.tick)) {
+      if (step.events) this.events.set(step.tick, step.events)
+      if (step.deltaTime !== undefined) this.deltaTimes.push([step.tick, step.deltaTime])
+    }
+    this.checksums = new Map(replay.checksums)
+  }
+
+  public getEvents(tick: number): SaaamInputEvent[] {
+    return this.events.get(tick) ?? []
+  }
+
+  // Delta time of a step: the last one recorded at or before it
+  public getDeltaTime(tick: number): number {
+    let low = 0
+    let high = this.deltaTimes.length - 1
+    let found = 1 / 60
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (this.deltaTimes[middle][0] <= tick) {
+        found = this.deltaTimes[middle][1]
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+    return found
+  }
+
+  public getChecksum(tick: number): number | undefined {
+    return this.checksums.get(tick)
+  }
+
+  public isFinished(tick: number): boolean {
+    return tick >= this.replay.length
+  }
+}
@@ -0,0 +1,237 @@
+// SAAAM Runtime Worker - Hosts a SaaamRuntime in a locked-down worker realm; see SaaamSandboxedRuntime
+
+import { SaaamDebugger, waitForDebugCommand } from "./saaam-debugger"
+import { SaaamProfiler } from "./saaam-profiler"
+import { SaaamRuntime } from "./saaam-runtime"
+import type { SaaamWorkerRequest, SaaamWorkerResponse } from "./saaam-sandboxed-runtime"
+
+// Globals left in the worker scope; everything else is removed. Scripts get SAAAM, console and Math from the
+// sandbox env, but run in the same realm as the worker's own code, so what that code still uses has to stay
+const SAFE_GLOBALS = new Set([
+  // Used by the runtime, checker, debugger and snapshots after lockdown. Object, Array, Number, String, Symbol
+  // and Error are also reachable from any literal's constructor, so removing them would isolate nothing
+  "Object",
+  "Array",
+  "Number",
+  "String",
+  "Symbol",
+  "Error",
+  "Map",
+  "Set",
+  "JSON",
+  "Math",
+  "parseInt",
+  "Infinity",
+  "NaN",
+  "undefined",
+  "console",
+  // The runtime compiles scripts with it; any function's constructor leads to it anyway
+  "Function",
+  // The debugger tells a script's global `this` from an object by it; afterwards it holds only this list
+  "globalThis",
+])
+
+const FRAME_INTERVAL = 1000 / 60
+
+type WorkerScope = {
+  postMessage(message: SaaamWorkerResponse, transfer?: Transferable[]): void
+  addEventListener(type: "message", listener: (e: MessageEvent<SaaamWorkerRequest>) => void): void
+  requestAnimationFrame?: (callback: (time: number) => void) => number
+}
+
+const scope = self as unknown as WorkerScope
+
+// Keep private references to what the host needs before the globals are removed
+const post = scope.postMessage.bind(scope)
+const now = performance.now.bind(performance)
+const setTimer = setTimeout
+const requestFrame = scope.requestAnimationFrame?.bind(scope)
+const atomics = Atomics
+
+const canvas = new OffscreenCanvas(800, 600)
+const context = canvas.getContext("2d") as unknown as CanvasRenderingContext2D
+const runtime = new SaaamRuntime()
+  .initializeHeadless(context, canvas.width, canvas.height)
+  .onError((message, trace) => post({ type: "error", message, trace }))
+  .onLog((message) => post({ type: "log", message }))
+  .onAudio((command) => post({ type: "audio", command }))
+
+let running = false
+let loopId = 0
+
+// Shared with the page; a paused script blocks on it until the page sends a command
+let debugChannel: Int32Array | null = null
+// Set when a script stopped without a channel to block on; the game is paused once the frame is done instead
+let pauseAfterFrame = false
+
+const scriptDebugger = new SaaamDebugger((pause) => {
+  if (!debugChannel) {
+    post({ type: "paused", pause, blocking: false })
+    pauseAfterFrame = true
+    return "detach"
+  }
+
+  post({ type: "paused", pause, blocking: true })
+  const { command, breakpoints } = waitForDebugCommand(debugChannel, atomics)
+  scriptDebugger.setBreakpoints(breakpoints)
+  return command
+})
+
+// Schedule the next frame, falling back to a timer where workers have no requestAnimationFrame
+function scheduleFrame(callback: (time: number) => void) {
+  if (requestFrame) {
+    requestFrame(callback)
+  } else {
+    setTimer(() => callback(now()), FRAME_INTERVAL)
+  }
+}
+
+function startLoop() {
+  const id = ++loopId
+  let lastTime = now()
+  running = true
+
+  const frame = (time: number) => {
+    if (!running || id !== loopId) return
+
+    const deltaTime = (time - lastTime) / 1000
+    lastTime = time
+    const ok = runtime.tick(deltaTime)
+    if (pauseAfterFrame) {
+      pauseAfterFrame = false
+      if (!runtime.isPaused()) runtime.togglePause()
+    }
+
+    // Every frame doubles as the watchdog's heartbeat
+    const bitmap = canvas.transferToImageBitmap()
+    post(
+      {
+        type: "frame",
+        bitmap,
+        fps: runtime.getFps(),
+        frameCount: runtime.getFrameCount(),
+        timeline: runtime.getTimeline(),
+        replay: runtime.getReplayStatus(),
+      },
+      [bitmap],
+    )
+
+    if (!ok) {
+      running = false
+      post({ type: "stopped" })
+      return
+    }
+
+    scheduleFrame(frame)
+  }
+
+  scheduleFrame(frame)
+}
+
+function resize(width: number, height: number) {
+  canvas.width = width
+  canvas.height = height
+  runtime.initializeHeadless(context, width, height)
+}
+
+function handleRequest(request: SaaamWorkerRequest) {
+  switch (request.type) {
+    case "init":
+      resize(request.width, request.height)
+      runtime.setOptions(request.options)
+      runtime.sandboxEnv.SAAAM.setDebugMode(request.debugMode)
+      break
+    case "load":
+      post({
+        type: "loaded",
+        success: runtime.executeCode(request.code, request.replay, request.sourceMap),
+        actions: runtime.getDefinedActions(),
+      })
+      break
+    case "reload":
+      post({
+        type: "loaded",
+        success: runtime.hotReload(request.code, request.sourceMap),
+        actions: runtime.getDefinedActions(),
+      })
+      break
+    case "start":
+      startLoop()
+      break
+    case "stop":
+      running = false
+      runtime.stop()
+      break
+    case "togglePause":
+      runtime.togglePause()
+      break
+    case "rewind":
+      runtime.rewindTo(request.position)
+      break
+    case "getReplay":
+      post({ type: "replay", replay: runtime.getReplay() })
+      break
+    case "setReplaySpeed":
+      runtime.setReplaySpeed(request.speed)
+      break
+    case "stopReplay":
+      runtime.stopReplay()
+      break
+    case "debug":
+      debugChannel = request.channel
+      if (request.breakpoints) scriptDebugger.setBreakpoints(request.breakpoints)
+      runtime.setDebugger(request.breakpoints ? scriptDebugger : null)
+      break
+    case "debugResume":
+      scriptDebugger.setBreakpoints(request.breakpoints).resume()
+      if (runtime.isPaused()) runtime.togglePause()
+      break
+    case "setProfiling":
+      runtime.setProfiler(request.enabled ? new SaaamProfiler(undefined, now) : null)
+      break
+    case "getProfile":
+      post({ type: "profile", profile: runtime.getProfile() })
+      break
+    case "setDebugMode":
+      runtime.sandboxEnv.SAAAM.setDebugMode(request.enabled)
+      break
+    case "setOptions":
+      runtime.setOptions(request.options)
+      break
+    case "resize":
+      resize(request.width, request.height)
+      break
+    case "input":
+      runtime.injectInput(request.event)
+      break
+    case "sprites":
+      runtime.clearSprites()
+      for (const sprite of request.sprites) runtime.addSprite(sprite)
+      break
+  }
+}
+
+// Remove every global not in SAFE_GLOBALS (fetch, importScripts, postMessage, indexedDB, ...) from the worker
+// scope and its prototype chain. Scripts then reach the sandbox env (SAAAM, console, Math) and the built-ins
+// in SAFE_GLOBALS. Syntax is not a global: import() still works here, and only the Content-Security-Policy the
+// worker is served with (see next.config.mjs) keeps it from loading code from elsewhere
+function lockDownGlobals() {
+  for (let target: any = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of Object.getOwnPropertyNames(target)) {
+      if (SAFE_GLOBALS.has(name)) continue
+      try {
+        const descriptor = Object.getOwnPropertyDescriptor(target, name)
+        if (descriptor?.configurable) {
+          delete target[name]
+        } else if (descriptor?.writable) {
+          target[name] = undefined
+        }
+      } catch {
+        // Some hosts refuse to remove certain globals; those are left as they are
+      }
+    }
+  }
+}
+
+scope.addEventListener("message", (e) => handleRequest(e.data))
+lockDownGlobals()
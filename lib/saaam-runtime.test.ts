@@ -0,0 +1,36 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { SaaamHeadlessRunner } from "./saaam-headless"
+import { SAAAM_API, findSaaamApiMismatches } from "./saaam-runtime"
+
+// The checker reads SAAAM_API, scripts get the SAAAM object; the two must describe the same functions
+test("SAAAM_API matches the SAAAM object scripts get", () => {
+  const runner = new SaaamHeadlessRunner()
+  assert.deepEqual(findSaaamApiMismatches(runner.runtime.sandboxEnv.SAAAM), [])
+})
+
+test("findSaaamApiMismatches reports missing, extra and wrongly sized members", () => {
+  const camera = new (class {
+    x = 0
+    setZoom(zoom: number) {}
+    update(deltaTime: number) {}
+  })()
+  const saaam = { draw: (x: number, y: number) => {}, extra: () => {}, camera, vk: { left: 37 } }
+  const table = {
+    draw: { kind: "function", minArgs: 3, maxArgs: 4 },
+    gone: { kind: "function", minArgs: 0, maxArgs: 0 },
+    camera: {
+      kind: "object",
+      members: { x: { kind: "value" }, setZoom: { kind: "function", minArgs: 1, maxArgs: 1 }, y: { kind: "value" } },
+    },
+    vk: { kind: "value" },
+  } satisfies typeof SAAAM_API
+
+  assert.deepEqual(findSaaamApiMismatches(saaam, table), [
+    "SAAAM.draw takes 2 parameters but is declared with 3 to 4",
+    "SAAAM.gone has an entry but does not exist",
+    "SAAAM.camera.y has an entry but does not exist",
+    "SAAAM.extra has no entry",
+  ])
+})
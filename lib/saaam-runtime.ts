@@ -1,5 +1,42 @@
 // SAAAM Runtime - Core engine for executing SAAAM code in a sandboxed environment
 
+import { SaaamCamera, type SaaamCameraSnapshot, type SaaamRect } from "./saaam-camera"
+import { DEBUG_HOOKS, instrumentSaaam, type SaaamDebugger } from "./saaam-debugger"
+import type { SaaamProfile, SaaamProfiler } from "./saaam-profiler"
+import { SaaamRandom, createSeed, hashSeed } from "./saaam-random"
+import {
+  createSourceMap,
+  formatSourceLocation,
+  parseStackPositions,
+  toSourceLocation,
+  type SaaamSourceMap,
+  type SaaamStackFrame,
+} from "./saaam-source-map"
+import {
+  REPLAY_CHECKSUM_INTERVAL,
+  SaaamReplayPlayer,
+  SaaamReplayRecorder,
+  hashScript,
+  type SaaamReplay,
+} from "./saaam-replay"
+import {
+  SaaamSpatialHash,
+  getCollisionShape,
+  getShapeBounds,
+  segmentHitsShape,
+  shapeContainsPoint,
+  shapesOverlap,
+  type SaaamCollisionMask,
+  type SaaamCollisionShape,
+} from "./saaam-collision"
+import {
+  SaaamRingBuffer,
+  decodeSnapshotGraph,
+  encodeSnapshotGraph,
+  type SaaamSnapshot,
+  type SaaamSnapshotValue,
+} from "./saaam-snapshot"
+
 // Define types for the SAAAM runtime
 export type SaaamVector2 = {
   x: number
@@ -24,15 +61,149 @@ export type SaaamKeyCode = {
 
 export type SaaamGameObject = {
   id: string
+  // Object type from SAAAM.defineObject, or null for plain objects
+  type: string | null
   x: number
   y: number
   width: number
   height: number
   rotation: number
   visible: boolean
+  // Draw order: higher depth is further back and drawn first, as in GameMaker
+  depth: number
+  // Set by destroyObject; the object is removed (and its destroy event fired) at the next safe point
+  destroyed?: boolean
+  // Shape used by collision queries; defaults to the x/y/width/height box
+  mask?: SaaamCollisionMask | null
+  [key: string]: any
+}
+
+// An object type for SAAAM.defineObject. Events get the instance as `this` and as their first argument;
+// any other fields are copied (shallowly) onto each new instance as starting values
+export type SaaamObjectType = {
+  create?: (self: SaaamGameObject) => void
+  step?: (self: SaaamGameObject, deltaTime: number) => void
+  draw?: (self: SaaamGameObject, ctx: CanvasRenderingContext2D) => void
+  destroy?: (self: SaaamGameObject) => void
   [key: string]: any
 }
 
+const OBJECT_EVENTS = ["create", "step", "draw", "destroy"]
+
+// Lines runScript puts in front of the script inside the function body
+const SCRIPT_PREFIX_LINES = 1
+
+let scriptFirstLine: number | null = null
+
+// Line a script's first line has in stack traces. Engines put the parameter list of a `new Function` above its
+// body and not all in the same way, so measure it once with a function that throws
+function getScriptFirstLine(): number {
+  if (scriptFirstLine === null) {
+    let bodyLine = 3
+    try {
+      new Function("probe", "throw new Error()")()
+    } catch (error) {
+      const [position] = parseStackPositions(String((error as Error).stack ?? ""))
+      if (position) bodyLine = position.line
+    }
+    scriptFirstLine = bodyLine + SCRIPT_PREFIX_LINES
+  }
+  return scriptFirstLine
+}
+
+// Box and mask an object had when it was last put in the collision hash; a symbol keeps it out of
+// Object.keys and JSON
+const HASHED_PLACEMENT = Symbol("hashedPlacement")
+
+type SaaamHashedObject = SaaamGameObject & {
+  [HASHED_PLACEMENT]?: SaaamRect & { mask: SaaamGameObject["mask"]; generation: number }
+}
+
+// Input as one step sees it: what is held now, what was held at the previous step, and every press and
+// release in between (so a tap shorter than a step still counts)
+export type SaaamInputSnapshot<K extends string | number = number> = {
+  current: Record<K, boolean>
+  previous: Record<K, boolean>
+  pressed: Record<K, boolean>
+  released: Record<K, boolean>
+}
+
+type SaaamPendingInput<K extends string | number = number> = {
+  pressed: Record<K, boolean>
+  released: Record<K, boolean>
+}
+
+// A key code, "mouse:<button>" or "pad:<control>", e.g. SAAAM.vk.space, "mouse:0", "pad:A" or "pad:LX-"
+export type SaaamInputBinding = number | string
+
+// Bindings per action name
+export type SaaamInputBindings = Record<string, SaaamInputBinding[]>
+
+export type SaaamGamepadState = {
+  buttons: number[]
+  axes: number[]
+}
+
+// An active touch or pen contact
+export type SaaamTouch = {
+  id: number
+  x: number
+  y: number
+  startX: number
+  startY: number
+  // Event time in milliseconds when the contact started
+  startTime: number
+  pointerType: string
+}
+
+export type SaaamGesture =
+  | { type: "tap"; x: number; y: number }
+  | { type: "swipe"; direction: "left" | "right" | "up" | "down"; x: number; y: number; dx: number; dy: number }
+
+// A decoded sprite image; frames are laid out left to right in a horizontal strip
+export type SaaamSprite = {
+  id: string
+  name: string
+  image: CanvasImageSource & { width: number; height: number }
+  // Defaults to getSpriteFrameCount(name)
+  frameCount?: number
+}
+
+export type SaaamSpriteDrawOptions = {
+  // Point in the frame (in pixels from its top-left corner) that is placed at x, y and rotated around
+  originX?: number
+  originY?: number
+  scaleX?: number
+  scaleY?: number
+  // Radians, clockwise
+  rotation?: number
+  alpha?: number
+  flipX?: boolean
+  flipY?: boolean
+}
+
+export type SaaamAudioBus = "master" | "music" | "sfx"
+
+// Sound commands for the page's audio engine (see SaaamAudioEngine); the runtime itself plays nothing, which
+// keeps it usable in workers and headless runs. Voice ids double as the handles scripts get back
+export type SaaamAudioCommand =
+  | { type: "playSound"; id: number; sound: string; volume: number; loop: boolean }
+  | { type: "playMusic"; id: number; sound: string; volume: number; loop: boolean; crossfade: number }
+  | { type: "stopMusic"; fade: number }
+  | { type: "stop" | "pause" | "resume"; id: number }
+  | { type: "setVoiceVolume"; id: number; volume: number }
+  | { type: "setVolume"; bus: SaaamAudioBus; volume: number }
+  | { type: "pauseAll" | "resumeAll" | "stopAll" | "reset" }
+
+// What SAAAM.playSound and SAAAM.playMusic return
+export type SaaamSoundHandle = {
+  id: number
+  stop: () => void
+  pause: () => void
+  resume: () => void
+  setVolume: (volume: number) => void
+}
+
 export type SaaamRuntimeState = {
   canvas: HTMLCanvasElement | null
   ctx: CanvasRenderingContext2D | null
@@ -43,28 +214,433 @@ export type SaaamRuntimeState = {
   deltaTime: number
   fps: number
   frameCount: number
+  tickCount: number
+  accumulator: number
+  interpolationAlpha: number
   keys: Record<number, boolean>
   mousePosition: SaaamVector2
   mouseButtons: Record<number, boolean>
+  gamepads: Record<number, SaaamGamepadState>
+  // Digital gamepad controls ("A", "LX-", ...) held on any connected pad
+  padControls: Record<string, boolean>
+  keySnapshot: SaaamInputSnapshot
+  mouseSnapshot: SaaamInputSnapshot
+  padSnapshot: SaaamInputSnapshot<string>
+  gamepadSnapshot: Record<number, SaaamGamepadState>
+  actionSnapshot: SaaamInputSnapshot<string>
+  touches: Record<number, SaaamTouch>
+  touchSnapshot: SaaamTouch[]
+  gestureSnapshot: SaaamGesture[]
+  // Presses and releases since the last snapshot was taken
+  pendingKeys: SaaamPendingInput
+  pendingMouseButtons: SaaamPendingInput
+  pendingPadControls: SaaamPendingInput<string>
+  pendingGestures: SaaamGesture[]
+  // Default bindings from SAAAM.defineAction
+  actions: SaaamInputBindings
+  audioVolumes: Record<SaaamAudioBus, number>
+  nextSoundId: number
   debugMode: boolean
   paused: boolean
   createFn: Function | null
   stepFn: Function | null
   drawFn: Function | null
+  // Drawn after the viewports, without any camera transform
+  drawGuiFn: Function | null
+  // One camera per viewport, drawn in order; the first is SAAAM.camera and covers the canvas by default
+  cameras: SaaamCamera[]
+  // Camera the draw function is currently running for
+  activeCamera: SaaamCamera
   destroyFn: Function | null
+  objectTypes: Record<string, SaaamObjectType>
+  nextObjectId: number
+  // Objects passed to destroyObject since the last safe point
+  pendingDestroy: SaaamGameObject[]
+  // Values registered with SAAAM.persistent; they survive hot reloads
+  persistent: Record<string, any>
+}
+
+// Input events, either from DOM listeners or injected by tests and tools
+export type SaaamInputEvent =
+  | { type: "keydown" | "keyup"; keyCode: number }
+  | { type: "mousedown" | "mouseup"; button: number }
+  | { type: "mousemove"; x: number; y: number }
+  | { type: "gamepad"; index: number; connected: boolean; buttons: number[]; axes: number[] }
+  | {
+      type: "pointerdown" | "pointermove" | "pointerup" | "pointercancel"
+      id: number
+      pointerType: string
+      // The first pointer of a gesture; it also drives the mouse position and left button
+      primary: boolean
+      button: number
+      x: number
+      y: number
+      // Event time in milliseconds
+      time: number
+    }
+
+export type SaaamRuntimeOptions = {
+  // Run step at a fixed rate instead of once per animation frame
+  fixedTimestep: boolean
+  // Fixed steps per second when fixedTimestep is enabled
+  tickRate: number
+  // Maximum fixed steps per frame; any time beyond that is dropped so a slow frame cannot snowball
+  maxCatchUpSteps: number
+  // Gamepad axis values closer to zero than this read as zero
+  gamepadDeadZone: number
+  // Player remapping; replaces the bindings a script passes to SAAAM.defineAction for the same action
+  inputBindings: SaaamInputBindings
+  // Seconds of recent steps kept as snapshots for rewinding; 0 turns recording off
+  rewindSeconds: number
+  // Seed for SAAAM.random and friends at the start of a run; null picks a new one every run
+  seed: number | null
+}
+
+export const DEFAULT_RUNTIME_OPTIONS: SaaamRuntimeOptions = {
+  fixedTimestep: false,
+  tickRate: 60,
+  maxCatchUpSteps: 5,
+  gamepadDeadZone: 0.2,
+  inputBindings: {},
+  rewindSeconds: 0,
+  seed: null,
+}
+
+// Progress of a replay being played back
+export type SaaamReplayStatus = {
+  playing: boolean
+  tick: number
+  length: number
+  speed: number
+  // The replay was recorded with a different script, so it may not play back the same
+  scriptChanged: boolean
+  // First step whose state did not match the recording's checksum
+  divergedAt: number | null
+}
+
+// Recorded steps available for rewinding; position is the one on screen (length - 1 while playing live)
+export type SaaamTimelineInfo = {
+  length: number
+  position: number
+}
+
+export const SAAAM_KEY_CODES: SaaamKeyCode = {
+  left: 37,
+  right: 39,
+  up: 38,
+  down: 40,
+  space: 32,
+  enter: 13,
+  escape: 27,
+  shift: 16,
+  ctrl: 17,
+  alt: 18,
+  a: 65,
+  b: 66,
+  c: 67,
+  d: 68,
+  e: 69,
+  f: 70,
+  g: 71,
+  h: 72,
+  i: 73,
+  j: 74,
+  k: 75,
+  l: 76,
+  m: 77,
+  n: 78,
+  o: 79,
+  p: 80,
+  q: 81,
+  r: 82,
+  s: 83,
+  t: 84,
+  u: 85,
+  v: 86,
+  w: 87,
+  x: 88,
+  y: 89,
+  z: 90,
+  num0: 48,
+  num1: 49,
+  num2: 50,
+  num3: 51,
+  num4: 52,
+  num5: 53,
+  num6: 54,
+  num7: 55,
+  num8: 56,
+  num9: 57,
+}
+
+// Gamepad controls in the standard mapping order (https://w3c.github.io/gamepad/#remapping)
+export const SAAAM_PAD_BUTTONS = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Back",
+  "Start",
+  "LS",
+  "RS",
+  "Up",
+  "Down",
+  "Left",
+  "Right",
+  "Home",
+]
+export const SAAAM_PAD_AXES = ["LX", "LY", "RX", "RY"]
+
+// Analog values at or beyond this count as held for digital checks and actions
+const PAD_PRESS_THRESHOLD = 0.5
+
+// Gesture recognition limits (pixels and milliseconds)
+const TAP_MAX_DISTANCE = 10
+const TAP_MAX_DURATION = 250
+const SWIPE_MIN_DISTANCE = 50
+const SWIPE_MAX_DURATION = 500
+
+// Frame count implied by a sprite's file name: "player_strip4.png" is a strip of 4 frames
+export function getSpriteFrameCount(name: string): number {
+  const strip = name.match(/_strip(\d+)(\.\w+)?$/)
+  return strip ? Math.max(1, Number(strip[1])) : 1
+}
+
+// Parse a binding as typed by a player: a key name ("space"), a key code, "mouse:0" or "pad:A"
+export function parseInputBinding(text: string): SaaamInputBinding | null {
+  const value = text.trim()
+  if (/^\d+$/.test(value)) return Number(value)
+  if (/^mouse:\d+$/.test(value)) return value
+
+  const pad = value.match(/^pad:(.+)$/)
+  if (pad) {
+    const control = pad[1]
+    const isAxis = SAAAM_PAD_AXES.some((axis) => control === `${axis}-` || control === `${axis}+`)
+    return SAAAM_PAD_BUTTONS.includes(control) || isAxis ? value : null
+  }
+
+  const keyCode = SAAAM_KEY_CODES[value.toLowerCase()]
+  return keyCode === undefined ? null : keyCode
+}
+
+// Format a binding the way parseInputBinding reads it
+export function formatInputBinding(binding: SaaamInputBinding): string {
+  if (typeof binding === "string") return binding
+  const name = Object.keys(SAAAM_KEY_CODES).find((key) => SAAAM_KEY_CODES[key] === binding)
+  return name ?? String(binding)
+}
+
+// What scripts can reach through SAAAM, for the checker: functions with the number of arguments they take,
+// objects to look into, and plain values
+export type SaaamApiEntry =
+  | { kind: "function"; minArgs: number; maxArgs: number }
+  | { kind: "object"; members: Record<string, SaaamApiEntry> }
+  | { kind: "value" }
+
+export type SaaamApiTable = Record<string, SaaamApiEntry>
+
+const apiFunction = (minArgs: number, maxArgs = minArgs): SaaamApiEntry => ({ kind: "function", minArgs, maxArgs })
+const apiValue: SaaamApiEntry = { kind: "value" }
+
+// The SAAAM object of initSandboxEnv, signature by signature; saaam-runtime.test.ts fails when the two are out of
+// step (see findSaaamApiMismatches). Optional parameters count towards maxArgs only
+export const SAAAM_API: SaaamApiTable = {
+  registerCreate: apiFunction(1),
+  registerStep: apiFunction(1),
+  registerDraw: apiFunction(1),
+  registerDestroy: apiFunction(1),
+  registerDrawGui: apiFunction(1),
+
+  addViewport: apiFunction(4),
+  removeViewport: apiFunction(1),
+  getViewports: apiFunction(0),
+  activeCamera: apiFunction(0),
+  screenToWorld: apiFunction(2),
+  worldToScreen: apiFunction(2, 3),
+  camera: {
+    kind: "object",
+    members: {
+      x: apiValue,
+      y: apiValue,
+      zoom: apiValue,
+      rotation: apiValue,
+      viewport: apiValue,
+      follow: apiFunction(1, 2),
+      unfollow: apiFunction(0),
+      setPosition: apiFunction(2),
+      setZoom: apiFunction(1),
+      setRotation: apiFunction(1),
+      shake: apiFunction(1, 2),
+      setBounds: apiFunction(4),
+      clearBounds: apiFunction(0),
+      setViewport: apiFunction(4),
+      screenToWorld: apiFunction(2),
+      worldToScreen: apiFunction(2),
+      getView: apiFunction(0),
+      containsScreenPoint: apiFunction(2),
+    },
+  },
+
+  drawRectangle: apiFunction(5),
+  drawCircle: apiFunction(4),
+  drawLine: apiFunction(5, 6),
+  drawText: apiFunction(4, 5),
+  drawSprite: apiFunction(4, 5),
+  loadSprite: apiFunction(1),
+
+  keyboardCheck: apiFunction(1),
+  keyboardCheckPressed: apiFunction(1),
+  keyboardCheckReleased: apiFunction(1),
+  mouseCheck: apiFunction(1),
+  mouseCheckPressed: apiFunction(1),
+  mouseCheckReleased: apiFunction(1),
+
+  defineAction: apiFunction(2),
+  actionDown: apiFunction(1),
+  actionPressed: apiFunction(1),
+  actionReleased: apiFunction(1),
+  actionValue: apiFunction(1),
+
+  gamepadConnected: apiFunction(0, 1),
+  gamepadButton: apiFunction(1, 2),
+  gamepadAxis: apiFunction(1, 2),
+
+  touches: apiFunction(0),
+  gestures: apiFunction(0),
+  tapped: apiFunction(0),
+  swiped: apiFunction(0, 1),
+  getMousePosition: apiFunction(0),
+  mousePressed: apiFunction(0),
+  mouseX: apiFunction(0),
+  mouseY: apiFunction(0),
+  getMouseWorldPosition: apiFunction(0),
+
+  random: apiFunction(2),
+  randomInt: apiFunction(2),
+  choose: apiFunction(1),
+  shuffle: apiFunction(1),
+  setSeed: apiFunction(1),
+  getSeed: apiFunction(0),
+  randomStream: apiFunction(1),
+  distance: apiFunction(4),
+  clamp: apiFunction(3),
+
+  defineObject: apiFunction(2),
+  createObject: apiFunction(1, 2),
+  destroyObject: apiFunction(1),
+  getObject: apiFunction(1),
+  getAllObjects: apiFunction(0),
+  placeMeeting: apiFunction(3, 4),
+  instancePlace: apiFunction(3, 4),
+  instancesInRect: apiFunction(4, 5),
+  collisionPoint: apiFunction(2, 4),
+  collisionLine: apiFunction(4, 6),
+  getInstances: apiFunction(1),
+  instanceCount: apiFunction(1),
+
+  persistent: apiFunction(2),
+
+  playSound: apiFunction(1, 3),
+  playMusic: apiFunction(1, 4),
+  stopMusic: apiFunction(0, 1),
+  stopSound: apiFunction(1),
+  stopAllSounds: apiFunction(0),
+  setVolume: apiFunction(2),
+  getVolume: apiFunction(0, 1),
+
+  setDebugMode: apiFunction(1),
+  log: apiFunction(1),
+
+  vk: { kind: "object", members: Object.fromEntries(Object.keys(SAAAM_KEY_CODES).map((key) => [key, apiValue])) },
+}
+
+// Where an API table does not describe the object scripts get: a function or value without an entry, an entry
+// without a member, a parameter count outside the declared range, or a member of another kind. Otherwise the
+// checker quietly stops reporting wrong argument counts, or reports right ones. Members of class instances
+// (SAAAM.camera) that have no entry are the runtime's own, e.g. update, and are not reported
+export function findSaaamApiMismatches(target: any, table: SaaamApiTable = SAAAM_API, path = "SAAAM"): string[] {
+  const mismatches: string[] = []
+  const isPlainObject = Object.getPrototypeOf(target) === Object.prototype
+  const names = new Set([...Object.keys(table), ...(isPlainObject ? Object.keys(target) : [])])
+
+  for (const name of names) {
+    const value = target[name]
+    const entry = table[name]
+    const member = `${path}.${name}`
+
+    if (!entry) {
+      mismatches.push(`${member} has no entry`)
+    } else if (!(name in target)) {
+      mismatches.push(`${member} has an entry but does not exist`)
+    } else if (entry.kind === "function") {
+      if (typeof value !== "function") {
+        mismatches.push(`${member} is declared a function but is not one`)
+      } else if (value.length < entry.minArgs || value.length > entry.maxArgs) {
+        const range = entry.minArgs === entry.maxArgs ? entry.minArgs : `${entry.minArgs} to ${entry.maxArgs}`
+        const parameters = value.length === 1 ? "parameter" : "parameters"
+        mismatches.push(`${member} takes ${value.length} ${parameters} but is declared with ${range}`)
+      }
+    } else if (typeof value === "function") {
+      mismatches.push(`${member} is a function but is declared a ${entry.kind}`)
+    } else if (entry.kind === "object") {
+      if (typeof value !== "object" || value === null) {
+        mismatches.push(`${member} is declared an object but is not one`)
+      } else {
+        mismatches.push(...findSaaamApiMismatches(value, entry.members, member))
+      }
+    }
+  }
+
+  return mismatches
 }
 
 // Create the SAAAM runtime
 export class SaaamRuntime {
   private state: SaaamRuntimeState
+  private options: SaaamRuntimeOptions
   private animationFrameId: number | null = null
   public sandboxEnv: Record<string, any> = {}
   private errors: string[] = []
   private logs: string[] = []
-  private onErrorCallback: ((error: string) => void) | null = null
+  private onErrorCallback: ((error: string, trace: SaaamStackFrame[]) => void) | null = null
   private onLogCallback: ((log: string) => void) | null = null
+  private onAudioCallback: ((command: SaaamAudioCommand) => void) | null = null
+  // Loaded sprites by id and by name; they outlive the script so reloading does not decode them again
+  private sprites: Map<string, Required<SaaamSprite>> = new Map()
+  private missingSprites: Set<string> = new Set()
+  // Buckets state.objects by position for collision queries; rebuilt when the objects array is replaced
+  private collisionHash = new SaaamSpatialHash<SaaamGameObject>(64)
+  private hashedObjects: SaaamGameObject[] | null = null
+  private hashGeneration = 0
+  // A snapshot after each recent step, while options.rewindSeconds is set
+  private timeline: SaaamRingBuffer<SaaamSnapshot> | null = null
+  // Timeline entry restored by rewindTo; later entries are dropped once the game resumes from it
+  private rewindPosition: number | null = null
+  // Seed of the run (or of the last SAAAM.setSeed); every random stream is derived from it
+  private seed = createSeed()
+  private randomStreams: Map<string, SaaamRandom> = new Map()
+  // Input of the current run, for replay files
+  private recorder: SaaamReplayRecorder | null = null
+  // Replay being played back; while set, live input is ignored and every step gets the recorded input
+  private replayPlayer: SaaamReplayPlayer | null = null
+  private replaySpeed = 1
+  private replayLength = 0
+  private replayScriptChanged = false
+  private replayDivergedAt: number | null = null
+  // Files the running script was linked from, to map errors back to them
+  private sourceMap: SaaamSourceMap | null = null
+  // While set, scripts are instrumented so they can stop at breakpoints
+  private scriptDebugger: SaaamDebugger | null = null
+  // While set, frames, script functions and SAAAM calls are timed
+  private profiler: SaaamProfiler | null = null
 
-  constructor() {
+  constructor(options: Partial<SaaamRuntimeOptions> = {}) {
+    this.options = { ...DEFAULT_RUNTIME_OPTIONS, ...options }
+    const mainCamera = this.createCamera({ x: 0, y: 0, width: 800, height: 600 })
     this.state = {
       canvas: null,
       ctx: null,
@@ -75,15 +651,42 @@ export class SaaamRuntime {
       deltaTime: 0,
       fps: 0,
       frameCount: 0,
+      tickCount: 0,
+      accumulator: 0,
+      interpolationAlpha: 1,
       keys: {},
       mousePosition: { x: 0, y: 0 },
       mouseButtons: {},
+      gamepads: {},
+      padControls: {},
+      keySnapshot: { current: {}, previous: {}, pressed: {}, released: {} },
+      mouseSnapshot: { current: {}, previous: {}, pressed: {}, released: {} },
+      padSnapshot: { current: {}, previous: {}, pressed: {}, released: {} },
+      gamepadSnapshot: {},
+      actionSnapshot: { current: {}, previous: {}, pressed: {}, released: {} },
+      pendingKeys: { pressed: {}, released: {} },
+      pendingMouseButtons: { pressed: {}, released: {} },
+      pendingPadControls: { pressed: {}, released: {} },
+      actions: {},
+      touches: {},
+      touchSnapshot: [],
+      gestureSnapshot: [],
+      pendingGestures: [],
+      audioVolumes: { master: 1, music: 1, sfx: 1 },
+      nextSoundId: 1,
       debugMode: false,
       paused: false,
       createFn: null,
       stepFn: null,
       drawFn: null,
+      drawGuiFn: null,
+      cameras: [mainCamera],
+      activeCamera: mainCamera,
       destroyFn: null,
+      objectTypes: {},
+      nextObjectId: 1,
+      pendingDestroy: [],
+      persistent: {},
     }
 
     // Initialize the sandbox environment with SAAAM API
@@ -107,6 +710,33 @@ export class SaaamRuntime {
       registerDestroy: (fn: Function) => {
         this.state.destroyFn = fn
       },
+      registerDrawGui: (fn: Function) => {
+        this.state.drawGuiFn = fn
+      },
+
+      // Cameras and viewports
+      addViewport: (x: number, y: number, width: number, height: number) => {
+        const camera = this.createCamera({ x, y, width, height })
+        this.state.cameras.push(camera)
+        return camera
+      },
+      removeViewport: (camera: SaaamCamera) => {
+        // The main camera always stays
+        if (camera === this.state.cameras[0]) return
+        this.state.cameras = this.state.cameras.filter((other) => other !== camera)
+      },
+      getViewports: () => {
+        return [...this.state.cameras]
+      },
+      activeCamera: () => {
+        return this.state.activeCamera
+      },
+      screenToWorld: (x: number, y: number) => {
+        return this.cameraAt(x, y).screenToWorld(x, y)
+      },
+      worldToScreen: (x: number, y: number, camera?: SaaamCamera) => {
+        return (camera ?? this.state.activeCamera).worldToScreen(x, y)
+      },
 
       // Drawing functions
       drawRectangle: (x: number, y: number, width: number, height: number, color: SaaamColor) => {
@@ -136,23 +766,126 @@ export class SaaamRuntime {
         this.state.ctx.font = font
         this.state.ctx.fillText(text, x, y)
       },
-      drawSprite: (sprite: string, x: number, y: number, width: number, height: number) => {
-        // In a real implementation, this would load and draw sprites
-        console.log(`Drawing sprite ${sprite} at (${x}, ${y})`)
+      drawSprite: (
+        sprite: string | { id: string },
+        imageIndex: number,
+        x: number,
+        y: number,
+        options: SaaamSpriteDrawOptions = {},
+      ) => {
+        if (!this.state.ctx) return
+        const entry = this.resolveSprite(sprite)
+        if (!entry) return
+
+        const { originX = 0, originY = 0, scaleX = 1, scaleY = 1, rotation = 0, alpha = 1 } = options
+        const frameWidth = entry.image.width / entry.frameCount
+        const frameHeight = entry.image.height
+        // Wrap so animations can just keep counting up
+        const frame = ((Math.floor(imageIndex || 0) % entry.frameCount) + entry.frameCount) % entry.frameCount
+
+        const ctx = this.state.ctx
+        ctx.save()
+        ctx.globalAlpha *= alpha
+        ctx.translate(x, y)
+        if (rotation) ctx.rotate(rotation)
+        ctx.scale(options.flipX ? -scaleX : scaleX, options.flipY ? -scaleY : scaleY)
+        ctx.drawImage(
+          entry.image,
+          frame * frameWidth,
+          0,
+          frameWidth,
+          frameHeight,
+          -originX,
+          -originY,
+          frameWidth,
+          frameHeight,
+        )
+        ctx.restore()
+      },
+      loadSprite: (sprite: string) => {
+        const entry = this.resolveSprite(sprite)
+        if (!entry) return null
+        return {
+          id: entry.id,
+          name: entry.name,
+          width: entry.image.width / entry.frameCount,
+          height: entry.image.height,
+          frameCount: entry.frameCount,
+        }
       },
 
-      // Input functions
+      // Input functions (read from the snapshot taken at the start of the current step)
       keyboardCheck: (keyCode: number) => {
-        return !!this.state.keys[keyCode]
+        return !!this.state.keySnapshot.current[keyCode]
+      },
+      keyboardCheckPressed: (keyCode: number) => {
+        return !!this.state.keySnapshot.pressed[keyCode]
+      },
+      keyboardCheckReleased: (keyCode: number) => {
+        return !!this.state.keySnapshot.released[keyCode]
       },
       mouseCheck: (button: number) => {
-        return !!this.state.mouseButtons[button]
+        return !!this.state.mouseSnapshot.current[button]
+      },
+      mouseCheckPressed: (button: number) => {
+        return !!this.state.mouseSnapshot.pressed[button]
+      },
+      mouseCheckReleased: (button: number) => {
+        return !!this.state.mouseSnapshot.released[button]
+      },
+
+      // Input actions
+      defineAction: (name: string, bindings: SaaamInputBinding[]) => {
+        this.state.actions[name] = [...bindings]
+      },
+      actionDown: (name: string) => {
+        return !!this.state.actionSnapshot.current[name]
+      },
+      actionPressed: (name: string) => {
+        return !!this.state.actionSnapshot.pressed[name]
+      },
+      actionReleased: (name: string) => {
+        return !!this.state.actionSnapshot.released[name]
+      },
+      actionValue: (name: string) => {
+        return Math.max(0, ...this.getBindings(name).map((binding) => this.bindingValue(binding)))
+      },
+
+      // Gamepad functions
+      gamepadConnected: (index = 0) => {
+        return !!this.state.gamepadSnapshot[index]
+      },
+      gamepadButton: (button: string | number, index = 0) => {
+        const buttonIndex = typeof button === "number" ? button : SAAAM_PAD_BUTTONS.indexOf(button)
+        return this.state.gamepadSnapshot[index]?.buttons[buttonIndex] ?? 0
+      },
+      gamepadAxis: (axis: string | number, index = 0) => {
+        const axisIndex = typeof axis === "number" ? axis : SAAAM_PAD_AXES.indexOf(axis)
+        return this.applyDeadZone(this.state.gamepadSnapshot[index]?.axes[axisIndex] ?? 0)
+      },
+
+      // Touch functions
+      touches: () => {
+        return this.state.touchSnapshot.map((touch) => ({ ...touch }))
+      },
+      gestures: () => {
+        return this.state.gestureSnapshot.map((gesture) => ({ ...gesture }))
+      },
+      tapped: () => {
+        const tap = this.state.gestureSnapshot.find((gesture) => gesture.type === "tap")
+        return tap ? { ...tap } : null
+      },
+      swiped: (direction?: "left" | "right" | "up" | "down") => {
+        const swipe = this.state.gestureSnapshot.find(
+          (gesture) => gesture.type === "swipe" && (!direction || gesture.direction === direction),
+        )
+        return swipe ? { ...swipe } : null
       },
       getMousePosition: () => {
         return { ...this.state.mousePosition }
       },
       mousePressed: () => {
-        return !!this.state.mouseButtons[0] // Left mouse button
+        return !!this.state.mouseSnapshot.current[0] // Left mouse button
       },
       mouseX: () => {
         return this.state.mousePosition.x
@@ -160,19 +893,39 @@ export class SaaamRuntime {
       mouseY: () => {
         return this.state.mousePosition.y
       },
-      keyboardCheckPressed: (keyCode: number) => {
-        // This requires tracking previous key state, which is not in current runtime.
-        // For simplicity, we'll simulate a "pressed" state by checking if it's currently down.
-        // A more robust solution would involve a `prevKeys` state.
-        return !!this.state.keys[keyCode] // Simple check for now
+      getMouseWorldPosition: () => {
+        const { x, y } = this.state.mousePosition
+        return this.cameraAt(x, y).screenToWorld(x, y)
       },
 
       // Utility functions
       random: (min: number, max: number) => {
-        return Math.random() * (max - min) + min
+        return this.getRandomStream().range(min, max)
       },
       randomInt: (min: number, max: number) => {
-        return Math.floor(Math.random() * (max - min + 1)) + min
+        return this.getRandomStream().int(min, max)
+      },
+      choose: <T>(items: T[]) => {
+        return this.getRandomStream().choose(items)
+      },
+      shuffle: <T>(items: T[]) => {
+        return this.getRandomStream().shuffle(items)
+      },
+      // Restart every random stream from a seed; text seeds are hashed
+      setSeed: (seed: number | string) => {
+        this.resetRandom(typeof seed === "number" && Number.isInteger(seed) ? seed : hashSeed(String(seed)))
+      },
+      getSeed: () => {
+        return this.seed
+      },
+      // A stream with its own sequence, so e.g. level generation rolls the same whatever else uses random
+      randomStream: (name: string) => {
+        return {
+          random: (min: number, max: number) => this.getRandomStream(name).range(min, max),
+          randomInt: (min: number, max: number) => this.getRandomStream(name).int(min, max),
+          choose: <T>(items: T[]) => this.getRandomStream(name).choose(items),
+          shuffle: <T>(items: T[]) => this.getRandomStream(name).shuffle(items),
+        }
       },
       distance: (x1: number, y1: number, x2: number, y2: number) => {
         return Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2)
@@ -182,28 +935,122 @@ export class SaaamRuntime {
       },
 
       // Game object management
-      createObject: (obj: Partial<SaaamGameObject>) => {
+      defineObject: (type: string, definition: SaaamObjectType) => {
+        this.state.objectTypes[type] = { ...definition }
+      },
+      // createObject({ x, y, ... }) makes a plain object; createObject("enemy", { x, y }) an instance of a type
+      createObject: (typeOrObj: string | Partial<SaaamGameObject>, props: Partial<SaaamGameObject> = {}) => {
+        const type = typeof typeOrObj === "string" ? typeOrObj : null
+        const definition = type !== null ? this.state.objectTypes[type] : null
+        if (type !== null && !definition) {
+          throw new Error(`Unknown object type '${type}'; define it with SAAAM.defineObject first`)
+        }
+
+        const defaults = Object.fromEntries(
+          Object.entries(definition ?? {}).filter(([key]) => !OBJECT_EVENTS.includes(key)),
+        )
         const gameObject: SaaamGameObject = {
-          id: `obj_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+          id: `obj_${this.state.nextObjectId++}`,
+          type,
           x: 0,
           y: 0,
           width: 32,
           height: 32,
           rotation: 0,
           visible: true,
-          ...obj,
+          depth: 0,
+          ...defaults,
+          ...(typeof typeOrObj === "string" ? props : typeOrObj),
         }
         this.state.objects.push(gameObject)
+
+        // Errors here surface in whichever function created the object
+        definition?.create?.call(gameObject, gameObject)
         return gameObject
       },
-      destroyObject: (id: string) => {
-        this.state.objects = this.state.objects.filter((obj) => obj.id !== id)
+      destroyObject: (target: string | SaaamGameObject) => {
+        const obj = typeof target === "string" ? this.state.objects.find((other) => other.id === target) : target
+        if (!obj || obj.destroyed) return
+        obj.destroyed = true
+        this.state.pendingDestroy.push(obj)
       },
       getObject: (id: string) => {
-        return this.state.objects.find((obj) => obj.id === id)
+        return this.state.objects.find((obj) => obj.id === id && !obj.destroyed)
       },
       getAllObjects: () => {
-        return [...this.state.objects]
+        return this.state.objects.filter((obj) => !obj.destroyed)
+      },
+      // Collision queries; `type` limits them to instances of one object type
+      placeMeeting: (obj: SaaamGameObject, x: number, y: number, type?: string) => {
+        return this.instancesAtPlace(obj, x, y, type).length > 0
+      },
+      instancePlace: (obj: SaaamGameObject, x: number, y: number, type?: string) => {
+        return this.instancesAtPlace(obj, x, y, type)[0] ?? null
+      },
+      instancesInRect: (x: number, y: number, width: number, height: number, type?: string) => {
+        const rect: SaaamCollisionShape = { type: "rect", x, y, width, height }
+        return this.collisionCandidates(rect, type).filter((obj) => shapesOverlap(getCollisionShape(obj), rect))
+      },
+      collisionPoint: (x: number, y: number, type?: string, exclude?: SaaamGameObject) => {
+        const candidates = this.collisionCandidates({ x, y, width: 0, height: 0 }, type, exclude)
+        return candidates.find((obj) => shapeContainsPoint(getCollisionShape(obj), x, y)) ?? null
+      },
+      // The instance the line from x1, y1 to x2, y2 hits first
+      collisionLine: (x1: number, y1: number, x2: number, y2: number, type?: string, exclude?: SaaamGameObject) => {
+        const bounds = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) }
+        let nearest: SaaamGameObject | null = null
+        let nearestT = Infinity
+        for (const obj of this.collisionCandidates(bounds, type, exclude)) {
+          const t = segmentHitsShape(getCollisionShape(obj), x1, y1, x2, y2)
+          if (t !== null && t < nearestT) {
+            nearest = obj
+            nearestT = t
+          }
+        }
+        return nearest
+      },
+      getInstances: (type: string) => {
+        return this.state.objects.filter((obj) => obj.type === type && !obj.destroyed)
+      },
+      instanceCount: (type: string) => {
+        return this.state.objects.filter((obj) => obj.type === type && !obj.destroyed).length
+      },
+
+      // Hot reload: the first call stores `initial` under the name; later calls, including ones from a
+      // reloaded script, get the stored value back
+      persistent: <T>(name: string, initial: T): T => {
+        if (!(name in this.state.persistent)) this.state.persistent[name] = initial
+        return this.state.persistent[name]
+      },
+
+      // Audio
+      playSound: (sound: string, volume = 1, loop = false): SaaamSoundHandle => {
+        const id = this.state.nextSoundId++
+        this.emitAudio({ type: "playSound", id, sound, volume, loop })
+        return this.createSoundHandle(id)
+      },
+      playMusic: (sound: string, volume = 1, loop = true, crossfade = 0): SaaamSoundHandle => {
+        const id = this.state.nextSoundId++
+        this.emitAudio({ type: "playMusic", id, sound, volume, loop, crossfade })
+        return this.createSoundHandle(id)
+      },
+      stopMusic: (fade = 0) => {
+        this.emitAudio({ type: "stopMusic", fade })
+      },
+      stopSound: (handle: SaaamSoundHandle | number) => {
+        const id = typeof handle === "number" ? handle : handle?.id
+        if (typeof id === "number") this.emitAudio({ type: "stop", id })
+      },
+      stopAllSounds: () => {
+        this.emitAudio({ type: "stopAll" })
+      },
+      setVolume: (bus: SaaamAudioBus, volume: number) => {
+        if (!(bus in this.state.audioVolumes)) return
+        this.state.audioVolumes[bus] = Math.max(0, volume)
+        this.emitAudio({ type: "setVolume", bus, volume: this.state.audioVolumes[bus] })
+      },
+      getVolume: (bus: SaaamAudioBus = "master") => {
+        return this.state.audioVolumes[bus] ?? 0
       },
 
       // Debug functions
@@ -219,56 +1066,30 @@ export class SaaamRuntime {
       },
 
       // Constants
-      vk: {
-        left: 37,
-        right: 39,
-        up: 38,
-        down: 40,
-        space: 32,
-        enter: 13,
-        escape: 27,
-        shift: 16,
-        ctrl: 17,
-        alt: 18,
-        a: 65,
-        b: 66,
-        c: 67,
-        d: 68,
-        e: 69,
-        f: 70,
-        g: 71,
-        h: 72,
-        i: 73,
-        j: 74,
-        k: 75,
-        l: 76,
-        m: 77,
-        n: 78,
-        o: 79,
-        p: 80,
-        q: 81,
-        r: 82,
-        s: 83,
-        t: 84,
-        u: 85,
-        v: 86,
-        w: 87,
-        x: 88,
-        y: 89,
-        z: 90,
-        num0: 48,
-        num1: 49,
-        num2: 50,
-        num3: 51,
-        num4: 52,
-        num5: 53,
-        num6: 54,
-        num7: 55,
-        num8: 56,
-        num9: 57,
-      } as SaaamKeyCode,
+      vk: { ...SAAAM_KEY_CODES },
+    }
+
+    // Time every SAAAM call while profiling; draw functions also count as draw calls. Wrappers keep the name
+    // and parameter count of the function they wrap
+    for (const [name, call] of Object.entries(this.sandboxEnv.SAAAM)) {
+      if (typeof call !== "function") continue
+      const isDrawCall = name.startsWith("draw")
+      const wrapper = (...args: any[]) => {
+        if (!this.profiler) return call(...args)
+        if (isDrawCall) this.profiler.countDrawCall()
+        return this.profile(`SAAAM.${name}`, () => call(...args))
+      }
+      Object.defineProperty(wrapper, "name", { value: call.name })
+      Object.defineProperty(wrapper, "length", { value: call.length })
+      this.sandboxEnv.SAAAM[name] = wrapper
     }
 
+    // The main camera is replaced on every run, so look it up whenever a script asks for it
+    Object.defineProperty(this.sandboxEnv.SAAAM, "camera", {
+      get: () => this.state.cameras[0],
+      enumerable: true,
+    })
+
     // Add console functions
     this.sandboxEnv.console = {
       log: (...args: any[]) => {
@@ -283,7 +1104,7 @@ export class SaaamRuntime {
         const message = args.map((arg) => (typeof arg === "object" ? JSON.stringify(arg) : String(arg))).join(" ")
         this.errors.push(message)
         if (this.onErrorCallback) {
-          this.onErrorCallback(message)
+          this.onErrorCallback(message, [])
         }
         console.error(`[SAAAM Console] ${message}`)
       },
@@ -297,8 +1118,10 @@ export class SaaamRuntime {
       },
     }
 
-    // Add Math functions
-    this.sandboxEnv.Math = { ...Math }
+    // Add Math functions (Math's members are non-enumerable, so a spread copy would be empty). Math.random rolls
+    // from the default stream like SAAAM.random, so SAAAM.setSeed and replays cover scripts that use it
+    this.sandboxEnv.Math = Object.fromEntries(Object.getOwnPropertyNames(Math).map((key) => [key, (Math as any)[key]]))
+    this.sandboxEnv.Math.random = () => this.getRandomStream().next()
   }
 
   // Initialize the runtime with a canvas
@@ -307,6 +1130,7 @@ export class SaaamRuntime {
     this.state.ctx = canvas.getContext("2d")
     this.state.width = canvas.width
     this.state.height = canvas.height
+    this.state.cameras[0].setViewport(0, 0, canvas.width, canvas.height)
 
     // Set up event listeners
     this.setupEventListeners()
@@ -320,28 +1144,25 @@ export class SaaamRuntime {
 
     // Keyboard events
     window.addEventListener("keydown", (e) => {
-      this.state.keys[e.keyCode] = true
+      this.injectInput({ type: "keydown", keyCode: e.keyCode })
     })
 
     window.addEventListener("keyup", (e) => {
-      this.state.keys[e.keyCode] = false
+      this.injectInput({ type: "keyup", keyCode: e.keyCode })
     })
 
     // Mouse events
     this.state.canvas.addEventListener("mousemove", (e) => {
       const rect = this.state.canvas!.getBoundingClientRect()
-      this.state.mousePosition = {
-        x: e.clientX - rect.left,
-        y: e.clientY - rect.top,
-      }
+      this.injectInput({ type: "mousemove", x: e.clientX - rect.left, y: e.clientY - rect.top })
     })
 
     this.state.canvas.addEventListener("mousedown", (e) => {
-      this.state.mouseButtons[e.button] = true
+      this.injectInput({ type: "mousedown", button: e.button })
     })
 
     this.state.canvas.addEventListener("mouseup", (e) => {
-      this.state.mouseButtons[e.button] = false
+      this.injectInput({ type: "mouseup", button: e.button })
     })
 
     // Prevent context menu on right-click
@@ -350,51 +1171,337 @@ export class SaaamRuntime {
     })
   }
 
-  // Execute SAAAM code in the sandbox
-  public executeCode(code: string): boolean {
+  // Initialize the runtime without a DOM canvas (tests, tools); draw calls go to the given context
+  public initializeHeadless(ctx: CanvasRenderingContext2D, width = 800, height = 600) {
+    this.state.canvas = null
+    this.state.ctx = ctx
+    this.state.width = width
+    this.state.height = height
+    this.state.cameras[0].setViewport(0, 0, width, height)
+
+    return this
+  }
+
+  // Camera whose viewport contains a canvas position; later viewports are drawn on top, so they win
+  private cameraAt(x: number, y: number): SaaamCamera {
+    const cameras = this.state.cameras
+    for (let i = cameras.length - 1; i > 0; i--) {
+      if (cameras[i].containsScreenPoint(x, y)) return cameras[i]
+    }
+    return cameras[0]
+  }
+
+  // Apply an input event to the runtime's key and mouse state. Ignored while a replay plays back
+  public injectInput(event: SaaamInputEvent) {
+    if (this.replayPlayer) return
+    // Events arriving between steps are consumed by the next one
+    this.recorder?.recordInput(this.state.tickCount + 1, event)
+    this.applyInput(event)
+  }
+
+  private applyInput(event: SaaamInputEvent) {
+    switch (event.type) {
+      case "keydown":
+        // Ignore auto-repeat while the key is held
+        if (!this.state.keys[event.keyCode]) this.state.pendingKeys.pressed[event.keyCode] = true
+        this.state.keys[event.keyCode] = true
+        break
+      case "keyup":
+        if (this.state.keys[event.keyCode]) this.state.pendingKeys.released[event.keyCode] = true
+        this.state.keys[event.keyCode] = false
+        break
+      case "mousedown":
+        if (!this.state.mouseButtons[event.button]) this.state.pendingMouseButtons.pressed[event.button] = true
+        this.state.mouseButtons[event.button] = true
+        break
+      case "mouseup":
+        if (this.state.mouseButtons[event.button]) this.state.pendingMouseButtons.released[event.button] = true
+        this.state.mouseButtons[event.button] = false
+        break
+      case "mousemove":
+        this.state.mousePosition = { x: event.x, y: event.y }
+        break
+      case "gamepad":
+        if (event.connected) {
+          this.state.gamepads[event.index] = { buttons: [...event.buttons], axes: [...event.axes] }
+        } else {
+          delete this.state.gamepads[event.index]
+        }
+        this.updatePadControls()
+        break
+      case "pointerdown":
+      case "pointermove":
+      case "pointerup":
+      case "pointercancel":
+        this.handlePointer(event)
+        break
+    }
+  }
+
+  // Track touch contacts, recognize gestures and let the primary pointer act as the mouse
+  private handlePointer(event: Extract<SaaamInputEvent, { id: number }>) {
+    const { id, x, y, time } = event
+
+    if (event.primary) {
+      this.injectInput({ type: "mousemove", x, y })
+      // Touch and pen contacts act as the left button
+      const button = event.pointerType === "mouse" ? event.button : 0
+      if (event.type === "pointerdown") this.injectInput({ type: "mousedown", button })
+      if (event.type === "pointerup" || event.type === "pointercancel") this.injectInput({ type: "mouseup", button })
+    }
+
+    if (event.type === "pointerdown") {
+      // Mouse pointers are tracked for gestures too, but left out of touches()
+      this.state.touches[id] = { id, x, y, startX: x, startY: y, startTime: time, pointerType: event.pointerType }
+      return
+    }
+
+    const touch = this.state.touches[id]
+    if (!touch) return
+
+    if (event.type === "pointermove") {
+      touch.x = x
+      touch.y = y
+      return
+    }
+
+    delete this.state.touches[id]
+    if (event.type === "pointerup") {
+      const gesture = this.recognizeGesture(touch, x, y, time)
+      if (gesture) this.state.pendingGestures.push(gesture)
+    }
+  }
+
+  private recognizeGesture(touch: SaaamTouch, x: number, y: number, time: number): SaaamGesture | null {
+    const dx = x - touch.startX
+    const dy = y - touch.startY
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    const duration = time - touch.startTime
+
+    if (distance <= TAP_MAX_DISTANCE && duration <= TAP_MAX_DURATION) {
+      return { type: "tap", x, y }
+    }
+    if (distance >= SWIPE_MIN_DISTANCE && duration <= SWIPE_MAX_DURATION) {
+      const direction = Math.abs(dx) > Math.abs(dy) ? (dx < 0 ? "left" : "right") : dy < 0 ? "up" : "down"
+      return { type: "swipe", direction, x: touch.startX, y: touch.startY, dx, dy }
+    }
+    return null
+  }
+
+  // Recompute which digital pad controls are held and record presses and releases
+  private updatePadControls() {
+    const controls: Record<string, boolean> = {}
+    for (const pad of Object.values(this.state.gamepads)) {
+      pad.buttons.forEach((value, index) => {
+        if (index < SAAAM_PAD_BUTTONS.length && value >= PAD_PRESS_THRESHOLD) {
+          controls[SAAAM_PAD_BUTTONS[index]] = true
+        }
+      })
+      pad.axes.forEach((value, index) => {
+        const axis = this.applyDeadZone(value)
+        if (index >= SAAAM_PAD_AXES.length || Math.abs(axis) < PAD_PRESS_THRESHOLD) return
+        controls[`${SAAAM_PAD_AXES[index]}${axis < 0 ? "-" : "+"}`] = true
+      })
+    }
+
+    const names = new Set([...Object.keys(controls), ...Object.keys(this.state.padControls)])
+    for (const name of names) {
+      if (controls[name] && !this.state.padControls[name]) this.state.pendingPadControls.pressed[name] = true
+      if (!controls[name] && this.state.padControls[name]) this.state.pendingPadControls.released[name] = true
+    }
+    this.state.padControls = controls
+  }
+
+  // Scale an axis so the dead zone reads as 0 and the rest still covers the full range
+  private applyDeadZone(value: number): number {
+    const deadZone = this.options.gamepadDeadZone
+    if (Math.abs(value) <= deadZone) return 0
+    return (Math.sign(value) * (Math.abs(value) - deadZone)) / (1 - deadZone)
+  }
+
+  // Bindings for an action: the player's remapping if there is one, otherwise the script's defaults
+  private getBindings(name: string): SaaamInputBinding[] {
+    return this.options.inputBindings[name] ?? this.state.actions[name] ?? []
+  }
+
+  // The snapshot and control a binding reads from
+  private resolveBinding(binding: SaaamInputBinding): { snapshot: SaaamInputSnapshot<any>; control: string | number } {
+    if (typeof binding === "number") return { snapshot: this.state.keySnapshot, control: binding }
+    if (binding.startsWith("mouse:")) return { snapshot: this.state.mouseSnapshot, control: Number(binding.slice(6)) }
+    if (binding.startsWith("pad:")) return { snapshot: this.state.padSnapshot, control: binding.slice(4) }
+    return { snapshot: this.state.keySnapshot, control: SAAAM_KEY_CODES[binding.toLowerCase()] }
+  }
+
+  // Analog strength of a binding this step: 0-1 for pad axes and triggers, 0 or 1 for everything else
+  private bindingValue(binding: SaaamInputBinding): number {
+    const control = typeof binding === "string" && binding.startsWith("pad:") ? binding.slice(4) : null
+    const pads = Object.values(this.state.gamepadSnapshot)
+
+    if (control && /[-+]$/.test(control)) {
+      const axisIndex = SAAAM_PAD_AXES.indexOf(control.slice(0, -1))
+      const sign = control.endsWith("-") ? -1 : 1
+      return Math.max(0, ...pads.map((pad) => sign * this.applyDeadZone(pad.axes[axisIndex] ?? 0)))
+    }
+    if (control) {
+      const buttonIndex = SAAAM_PAD_BUTTONS.indexOf(control)
+      return Math.max(0, ...pads.map((pad) => pad.buttons[buttonIndex] ?? 0))
+    }
+
+    const { snapshot, control: code } = this.resolveBinding(binding)
+    return snapshot.current[code] ? 1 : 0
+  }
+
+  // Execute SAAAM code in the sandbox. Scripts only see the sandbox env by name; isolation from the page
+  // comes from hosting the runtime in a locked-down worker (see SaaamSandboxedRuntime). With a replay, the
+  // run uses the replay's seed and input instead of live input. The source map names the files errors are
+  // reported in (see linkSaaamFiles)
+  public executeCode(
+    code: string,
+    replay: SaaamReplay | null = null,
+    sourceMap: SaaamSourceMap = createSourceMap("main.saaam", code),
+  ): boolean {
     this.errors = []
     this.logs = []
+    this.sourceMap = sourceMap
 
     try {
       // Reset lifecycle functions
+      this.state.objects = []
+      this.state.pendingDestroy = []
+      this.state.persistent = {}
+      this.scriptDebugger?.reset()
+      this.timeline?.clear()
+      this.rewindPosition = null
+      this.resetRandom(replay?.seed ?? this.options.seed ?? createSeed())
+      this.recorder = new SaaamReplayRecorder(hashScript(code), this.seed)
+      this.replayPlayer = replay && new SaaamReplayPlayer(replay)
+      this.replayLength = replay?.length ?? 0
+      this.replayScriptChanged = !!replay && replay.scriptHash !== hashScript(code)
+      this.replayDivergedAt = null
+      if (this.replayScriptChanged) {
+        this.sandboxEnv.console.warn("The script changed since this replay was recorded; playback may differ")
+      }
       this.state.createFn = null
       this.state.stepFn = null
       this.state.drawFn = null
       this.state.destroyFn = null
+      this.state.drawGuiFn = null
+      this.state.objectTypes = {}
+      this.state.cameras = [this.createCamera({ x: 0, y: 0, width: this.state.width, height: this.state.height })]
+      this.state.activeCamera = this.state.cameras[0]
+      this.state.actions = {}
+      this.state.audioVolumes = { master: 1, music: 1, sfx: 1 }
+      this.missingSprites.clear()
+      this.emitAudio({ type: "reset" })
 
-      // Create a function that executes the code in the sandbox environment
-      const sandboxFunction = new Function(
-        ...Object.keys(this.sandboxEnv),
-        `
-        try {
-          ${code}
-          return true;
-        } catch (error) {
-          throw error;
-        }
-        `,
-      )
-
-      // Execute the code with the sandbox environment
-      const result = sandboxFunction(...Object.values(this.sandboxEnv))
+      const result = this.runScript(code)
 
       // Call the create function if it was registered
       if (this.state.createFn) {
         try {
-          this.state.createFn()
+          this.profile("create", () => this.state.createFn?.())
         } catch (error) {
-          this.handleError(`Error in create function: ${error}`)
+          this.handleError(`Error in create function: ${error}`, error)
           return false
         }
       }
+      if (!this.flushDestroyedObjects()) return false
 
       return result === true
     } catch (error) {
-      this.handleError(`Error executing code: ${error}`)
+      this.handleError(`Error executing code: ${error}`, error)
+      return false
+    }
+  }
+
+  // Re-run a changed script in the running game. Objects, cameras and SAAAM.persistent values are kept; the
+  // new create/step/draw functions and object types replace the old ones, and create is not called again.
+  // If the new script throws while loading, the previous version keeps running
+  public hotReload(code: string, sourceMap: SaaamSourceMap = createSourceMap("main.saaam", code)): boolean {
+    const previousSourceMap = this.sourceMap
+    const previous = {
+      createFn: this.state.createFn,
+      stepFn: this.state.stepFn,
+      drawFn: this.state.drawFn,
+      drawGuiFn: this.state.drawGuiFn,
+      destroyFn: this.state.destroyFn,
+      objectTypes: this.state.objectTypes,
+      actions: this.state.actions,
+      objects: [...this.state.objects],
+      pendingDestroy: [...this.state.pendingDestroy],
+    }
+
+    try {
+      this.state.createFn = null
+      this.state.stepFn = null
+      this.state.drawFn = null
+      this.state.drawGuiFn = null
+      this.state.destroyFn = null
+      this.state.objectTypes = {}
+      this.state.actions = {}
+      this.missingSprites.clear()
+      this.sourceMap = sourceMap
+
+      return this.runScript(code) === true
+    } catch (error) {
+      Object.assign(this.state, previous)
+      this.handleError(`Hot reload failed, kept the previous version: ${error}`, error)
+      this.sourceMap = previousSourceMap
       return false
     }
   }
 
+  // Run a script's top level in the sandbox environment; throws whatever the script throws
+  private runScript(code: string) {
+    // With a debugger, the script reports its lines and calls to it (see instrumentSaaam)
+    const env = this.scriptDebugger
+      ? { ...this.sandboxEnv, [DEBUG_HOOKS]: this.scriptDebugger.getHooks() }
+      : this.sandboxEnv
+    let source = code
+    if (this.scriptDebugger) {
+      const instrumented = instrumentSaaam(code)
+      source = instrumented.source
+      if (instrumented.error) {
+        const { line } = instrumented.error.range.start
+        this.sandboxEnv.console.warn(
+          `Breakpoints and stepping are off for this run: the debugger cannot read line ${line} (${instrumented.error.message})`,
+        )
+      }
+    }
+
+    // Create a function that executes the code in the sandbox environment. The code starts on a line of its
+    // own, SCRIPT_PREFIX_LINES into the body, so stack traces can be mapped back to it
+    const sandboxFunction = new Function(
+      ...Object.keys(env),
+      `try {\n${source}\nreturn true;\n} catch (error) {\nthrow error;\n}`,
+    )
+
+    // Execute the code with the sandbox environment
+    const frame = this.scriptDebugger?.enter("(top level)", 1)
+    try {
+      return sandboxFunction(...Object.values(env))
+    } finally {
+      if (frame) this.scriptDebugger?.exit(frame)
+    }
+  }
+
+  // Start timing frames with a profiler, or stop (null)
+  public setProfiler(profiler: SaaamProfiler | null) {
+    this.profiler = profiler
+    return this
+  }
+
+  // Get what the profiler recorded, or null when not profiling
+  public getProfile(): SaaamProfile | null {
+    return this.profiler?.getProfile() ?? null
+  }
+
+  // Instrument scripts loaded from now on for a debugger, or stop instrumenting them (null)
+  public setDebugger(scriptDebugger: SaaamDebugger | null) {
+    this.scriptDebugger = scriptDebugger
+    return this
+  }
+
   // Start the game loop
   public start() {
     if (this.animationFrameId !== null) {
@@ -402,6 +1509,7 @@ export class SaaamRuntime {
     }
 
     this.state.lastFrameTime = performance.now()
+    this.state.accumulator = 0
     this.animationFrameId = requestAnimationFrame(this.gameLoop.bind(this))
   }
 
@@ -411,13 +1519,14 @@ export class SaaamRuntime {
       cancelAnimationFrame(this.animationFrameId)
       this.animationFrameId = null
     }
+    this.emitAudio({ type: "stopAll" })
 
     // Call the destroy function if it was registered
     if (this.state.destroyFn) {
       try {
-        this.state.destroyFn()
+        this.profile("destroy", () => this.state.destroyFn?.())
       } catch (error) {
-        this.handleError(`Error in destroy function: ${error}`)
+        this.handleError(`Error in destroy function: ${error}`, error)
       }
     }
   }
@@ -425,43 +1534,89 @@ export class SaaamRuntime {
   // Pause/unpause the game
   public togglePause() {
     this.state.paused = !this.state.paused
+    // Resuming from a rewound step makes it the present
+    if (!this.state.paused && this.rewindPosition !== null) {
+      this.timeline?.truncate(this.rewindPosition + 1)
+      this.recorder?.truncate(this.state.tickCount)
+      this.rewindPosition = null
+    }
+    this.emitAudio({ type: this.state.paused ? "pauseAll" : "resumeAll" })
   }
 
   // The main game loop
   private gameLoop(timestamp: number) {
     // Calculate delta time
-    this.state.deltaTime = (timestamp - this.state.lastFrameTime) / 1000
+    const deltaTime = (timestamp - this.state.lastFrameTime) / 1000
     this.state.lastFrameTime = timestamp
+
+    if (!this.runFrame(deltaTime)) return
+
+    // Continue the game loop
+    this.animationFrameId = requestAnimationFrame(this.gameLoop.bind(this))
+  }
+
+  // Advance the game by exactly one frame without requestAnimationFrame (headless mode, tests)
+  public tick(deltaTime = 1 / 60): boolean {
+    return this.runFrame(deltaTime)
+  }
+
+  // Run one frame, recording it in the profile while profiling
+  private runFrame(deltaTime: number): boolean {
+    if (!this.profiler) return this.updateAndDraw(deltaTime)
+
+    const tickCount = this.state.tickCount
+    this.profiler.beginFrame(this.state.frameCount + 1)
+    const ok = this.updateAndDraw(deltaTime)
+    this.profiler.endFrame(this.state.tickCount - tickCount, this.state.objects.length)
+    return ok
+  }
+
+  // Update, draw and debug overlay; returns false if an error stopped the game
+  private updateAndDraw(deltaTime: number): boolean {
+    this.state.deltaTime = deltaTime
     this.state.fps = 1 / this.state.deltaTime
     this.state.frameCount++
 
     // Clear the canvas
-    if (this.state.ctx && this.state.canvas) {
+    if (this.state.ctx) {
       this.state.ctx.clearRect(0, 0, this.state.width, this.state.height)
     }
 
     // Update game state if not paused
     if (!this.state.paused) {
-      // Call the step function if it was registered
-      if (this.state.stepFn) {
-        try {
-          this.state.stepFn(this.state.deltaTime)
-        } catch (error) {
-          this.handleError(`Error in step function: ${error}`)
-          this.stop()
-          return
-        }
-      }
+      if (!this.profile("update", () => this.runSteps())) return false
+    } else {
+      // Don't let paused time pile up into a burst of catch-up steps on resume
+      this.state.accumulator = 0
     }
 
-    // Draw the game
-    if (this.state.drawFn) {
+    if (!this.profile("render", () => this.render())) return false
+
+    // Objects destroyed while drawing go at the end of the frame
+    return this.flushDestroyedObjects()
+  }
+
+  // Draw every viewport, the HUD and the debug overlay
+  private render(): boolean {
+    // Draw the game once per viewport, through that viewport's camera
+    const ctx = this.state.ctx
+    for (const camera of this.state.cameras) {
+      this.state.activeCamera = camera
+      ctx?.save()
+      const ok = this.drawView(camera, ctx)
+      ctx?.restore()
+      if (!ok) return false
+    }
+    this.state.activeCamera = this.state.cameras[0]
+
+    // Draw the HUD in screen space, on top of every viewport
+    if (this.state.drawGuiFn) {
       try {
-        this.state.drawFn(this.state.ctx)
+        this.profile("drawGui", () => this.state.drawGuiFn?.(ctx))
       } catch (error) {
-        this.handleError(`Error in draw function: ${error}`)
+        this.handleError(`Error in draw GUI function: ${error}`, error)
         this.stop()
-        return
+        return false
       }
     }
 
@@ -469,9 +1624,325 @@ export class SaaamRuntime {
     if (this.state.debugMode && this.state.ctx) {
       this.drawDebugInfo()
     }
+    return true
+  }
 
-    // Continue the game loop
-    this.animationFrameId = requestAnimationFrame(this.gameLoop.bind(this))
+  // Run part of the frame as a span of the profile, when profiling
+  private profile<T>(name: string, run: () => T): T {
+    if (!this.profiler) return run()
+    this.profiler.begin(name)
+    try {
+      return run()
+    } finally {
+      this.profiler.end()
+    }
+  }
+
+  // Draw one viewport: the draw function first, then the visible instances on top
+  private drawView(camera: SaaamCamera, ctx: CanvasRenderingContext2D | null): boolean {
+    if (ctx) camera.applyTransform(ctx, this.options.fixedTimestep ? this.state.interpolationAlpha : 1)
+
+    if (this.state.drawFn) {
+      try {
+        if (this.options.fixedTimestep) {
+          this.profile("draw", () => this.state.drawFn?.(ctx, this.state.interpolationAlpha))
+        } else {
+          this.profile("draw", () => this.state.drawFn?.(ctx))
+        }
+      } catch (error) {
+        this.handleError(`Error in draw function: ${error}`, error)
+        this.stop()
+        return false
+      }
+    }
+
+    return this.drawObjects(ctx)
+  }
+
+  // Draw visible instances back to front. Types with a draw event draw themselves; others get their sprite
+  // (or a rectangle in their color, if they have one)
+  private drawObjects(ctx: CanvasRenderingContext2D | null): boolean {
+    const visible = this.state.objects
+      .filter((obj) => obj.visible && !obj.destroyed)
+      .sort((a, b) => (b.depth ?? 0) - (a.depth ?? 0))
+
+    for (const obj of visible) {
+      const definition = obj.type !== null ? this.state.objectTypes[obj.type] : undefined
+      if (typeof definition?.draw === "function") {
+        if (!this.callObjectEvent(obj, "draw", ctx)) return false
+      } else if (obj.sprite) {
+        this.sandboxEnv.SAAAM.drawSprite(obj.sprite, obj.imageIndex ?? 0, obj.x, obj.y, {
+          rotation: obj.rotation,
+          originX: obj.originX,
+          originY: obj.originY,
+          scaleX: obj.scaleX,
+          scaleY: obj.scaleY,
+          alpha: obj.alpha,
+        })
+      } else if (obj.color) {
+        this.sandboxEnv.SAAAM.drawRectangle(obj.x, obj.y, obj.width, obj.height, obj.color)
+      }
+    }
+    return true
+  }
+
+  // Instances (other than obj) that obj would overlap if it were at x, y
+  private instancesAtPlace(obj: SaaamGameObject, x: number, y: number, type?: string): SaaamGameObject[] {
+    const shape = getCollisionShape(obj, x, y)
+    return this.collisionCandidates(getShapeBounds(shape), type, obj).filter((other) =>
+      shapesOverlap(shape, getCollisionShape(other)),
+    )
+  }
+
+  // Live objects near some bounds, still to be tested exactly. Scripts move objects by assigning x/y, so
+  // every query first checks which objects moved (or got a new mask) and rehashes only those
+  private collisionCandidates(bounds: SaaamRect, type?: string, exclude?: SaaamGameObject): SaaamGameObject[] {
+    if (this.hashedObjects !== this.state.objects) {
+      this.collisionHash.clear()
+      this.hashedObjects = this.state.objects
+      this.hashGeneration++
+    }
+    for (const obj of this.state.objects as SaaamHashedObject[]) {
+      const last = obj[HASHED_PLACEMENT]
+      if (
+        last &&
+        last.generation === this.hashGeneration &&
+        last.x === obj.x &&
+        last.y === obj.y &&
+        last.width === obj.width &&
+        last.height === obj.height &&
+        last.mask === obj.mask
+      ) {
+        continue
+      }
+      obj[HASHED_PLACEMENT] = {
+        x: obj.x,
+        y: obj.y,
+        width: obj.width,
+        height: obj.height,
+        mask: obj.mask,
+        generation: this.hashGeneration,
+      }
+      this.collisionHash.update(obj, getShapeBounds(getCollisionShape(obj)))
+    }
+
+    const candidates: SaaamGameObject[] = []
+    this.collisionHash.query(bounds).forEach((obj) => {
+      if (obj !== exclude && !obj.destroyed && (!type || obj.type === type)) candidates.push(obj)
+    })
+    return candidates
+  }
+
+  // Call one of an instance's type events; an error stops the game like an error in the step function does
+  private callObjectEvent(obj: SaaamGameObject, event: string, ...args: any[]): boolean {
+    const handler = obj.type !== null ? this.state.objectTypes[obj.type]?.[event] : undefined
+    if (typeof handler !== "function") return true
+
+    try {
+      this.profile(`${obj.type}.${event}`, () => handler.call(obj, obj, ...args))
+      return true
+    } catch (error) {
+      this.handleError(`Error in ${obj.type} ${event} event: ${error}`, error)
+      this.stop()
+      return false
+    }
+  }
+
+  // The safe point for destroyObject: fire destroy events, then remove the objects. Destroy events may
+  // destroy further objects, which are handled in the same pass
+  private flushDestroyedObjects(): boolean {
+    while (this.state.pendingDestroy.length > 0) {
+      const destroyed = this.state.pendingDestroy
+      this.state.pendingDestroy = []
+
+      for (const obj of destroyed) {
+        if (!this.callObjectEvent(obj, "destroy")) return false
+      }
+      const removed = new Set(destroyed)
+      this.state.objects = this.state.objects.filter((obj) => !removed.has(obj))
+    }
+    return true
+  }
+
+  // Advance the simulation for this frame; returns false if a step failed and the loop was stopped
+  private runSteps(): boolean {
+    // Replays run a set number of recorded steps per frame, however long the frame took
+    if (this.replayPlayer) {
+      this.state.interpolationAlpha = 1
+      for (let i = 0; i < this.replaySpeed && this.replayPlayer; i++) {
+        if (!this.callStep(this.replayPlayer.getDeltaTime(this.state.tickCount + 1))) return false
+      }
+      return true
+    }
+
+    if (!this.options.fixedTimestep) {
+      this.state.interpolationAlpha = 1
+      return this.callStep(this.state.deltaTime)
+    }
+
+    const stepSize = 1 / this.options.tickRate
+    this.state.accumulator += this.state.deltaTime
+
+    let steps = 0
+    while (this.state.accumulator >= stepSize && steps < this.options.maxCatchUpSteps) {
+      if (!this.callStep(stepSize)) return false
+      this.state.accumulator -= stepSize
+      steps++
+    }
+
+    // Too far behind: drop the excess instead of trying to catch up forever
+    if (this.state.accumulator >= stepSize) {
+      this.state.accumulator %= stepSize
+    }
+
+    this.state.interpolationAlpha = this.state.accumulator / stepSize
+    return true
+  }
+
+  // Call the step function once with the given delta time
+  private callStep(deltaTime: number): boolean {
+    this.state.tickCount++
+    if (this.replayPlayer) {
+      for (const event of this.replayPlayer.getEvents(this.state.tickCount)) {
+        this.recorder?.recordInput(this.state.tickCount, event)
+        this.applyInput(event)
+      }
+    }
+    this.takeInputSnapshots()
+
+    if (this.state.stepFn) {
+      try {
+        this.profile("step", () => this.state.stepFn?.(deltaTime))
+      } catch (error) {
+        this.handleError(`Error in step function: ${error}`, error)
+        this.stop()
+        return false
+      }
+    }
+
+    // Instances step after the step function, in creation order; ones created this step wait for the next
+    for (const obj of [...this.state.objects]) {
+      if (!obj.destroyed && !this.callObjectEvent(obj, "step", deltaTime)) return false
+    }
+    if (!this.flushDestroyedObjects()) return false
+
+    // Cameras move after the step so they follow where objects ended up
+    for (const camera of this.state.cameras) camera.update(deltaTime)
+
+    this.recordTimeline()
+    this.recordReplayStep(deltaTime)
+    return true
+  }
+
+  // Add the step to the run's recording, and compare it against the replay being played back
+  private recordReplayStep(deltaTime: number) {
+    const tick = this.state.tickCount
+    const checksum = tick % REPLAY_CHECKSUM_INTERVAL === 0 ? this.getStateChecksum() : undefined
+    this.recorder?.recordStep(tick, deltaTime, checksum)
+
+    const player = this.replayPlayer
+    if (!player) return
+
+    const expected = player.getChecksum(tick)
+    if (expected !== undefined && expected !== checksum && this.replayDivergedAt === null) {
+      this.replayDivergedAt = tick
+      this.sandboxEnv.console.warn(`Replay diverged from the recording at step ${tick}`)
+    }
+
+    // Stop on the last recorded step, so whatever was reported can be looked at
+    if (player.isFinished(tick)) {
+      this.replayPlayer = null
+      this.sandboxEnv.console.log(`Replay finished after ${tick} steps; input is live again`)
+      if (!this.state.paused) this.togglePause()
+    }
+  }
+
+  // Hash of what replays must reproduce: object ids and positions, SAAAM.persistent values and where each
+  // random stream is. Variables in the script's own closures cannot be reached, so a replay that only differs
+  // there is not noticed until it shows in one of these
+  private getStateChecksum(): number {
+    const objects = this.state.objects.map((obj) => [obj.id, obj.x, obj.y])
+    const persistent = encodeSnapshotGraph(this.state.persistent).graph
+    const streams = [...this.randomStreams].map(([name, stream]) => [name, stream.getState()])
+    return hashSeed(JSON.stringify([objects, persistent, streams]))
+  }
+
+  // Keep a snapshot of this step for rewinding
+  private recordTimeline() {
+    if (this.options.rewindSeconds <= 0) {
+      this.timeline = null
+      return
+    }
+
+    // Variable timestep runs one step per animation frame, which is usually 60 a second
+    const stepsPerSecond = this.options.fixedTimestep ? this.options.tickRate : 60
+    const capacity = Math.ceil(this.options.rewindSeconds * stepsPerSecond)
+    if (this.timeline?.capacity !== capacity) this.timeline = new SaaamRingBuffer(capacity)
+    this.timeline.push(this.getSnapshot())
+  }
+
+  // Freeze input for the coming step, so pressed/released are true for exactly one step
+  private takeInputSnapshots() {
+    this.state.keySnapshot = this.nextSnapshot(this.state.keySnapshot, this.state.keys, this.state.pendingKeys)
+    this.state.mouseSnapshot = this.nextSnapshot(
+      this.state.mouseSnapshot,
+      this.state.mouseButtons,
+      this.state.pendingMouseButtons,
+    )
+    this.state.padSnapshot = this.nextSnapshot(
+      this.state.padSnapshot,
+      this.state.padControls,
+      this.state.pendingPadControls,
+    )
+    this.state.gamepadSnapshot = Object.fromEntries(
+      Object.entries(this.state.gamepads).map(([index, pad]) => [
+        index,
+        { buttons: [...pad.buttons], axes: [...pad.axes] },
+      ]),
+    )
+    this.state.actionSnapshot = this.nextActionSnapshot()
+
+    this.state.pendingKeys = { pressed: {}, released: {} }
+    this.state.pendingMouseButtons = { pressed: {}, released: {} }
+    this.state.pendingPadControls = { pressed: {}, released: {} }
+
+    this.state.touchSnapshot = Object.values(this.state.touches)
+      .filter((touch) => touch.pointerType !== "mouse")
+      .map((touch) => ({ ...touch }))
+    this.state.gestureSnapshot = this.state.pendingGestures
+    this.state.pendingGestures = []
+  }
+
+  private nextSnapshot<K extends string | number>(
+    snapshot: SaaamInputSnapshot<K>,
+    live: Record<K, boolean>,
+    pending: SaaamPendingInput<K>,
+  ): SaaamInputSnapshot<K> {
+    return {
+      current: { ...live },
+      previous: snapshot.current,
+      pressed: { ...pending.pressed },
+      released: { ...pending.released },
+    }
+  }
+
+  // An action is held while any of its bindings is; it is pressed/released when that changes
+  private nextActionSnapshot(): SaaamInputSnapshot<string> {
+    const previous = this.state.actionSnapshot.current
+    const snapshot: SaaamInputSnapshot<string> = { current: {}, previous, pressed: {}, released: {} }
+
+    for (const name of Object.keys(this.getActions())) {
+      const bindings = this.getBindings(name).map((binding) => this.resolveBinding(binding))
+      const down = bindings.some(({ snapshot, control }) => snapshot.current[control])
+      // A press and release within one step still counts as both
+      const tapped = bindings.some(({ snapshot, control }) => snapshot.pressed[control])
+
+      snapshot.current[name] = down
+      snapshot.pressed[name] = !previous[name] && (down || tapped)
+      snapshot.released[name] = !down && (!!previous[name] || tapped)
+    }
+
+    return snapshot
   }
 
   // Draw debug information
@@ -485,7 +1956,7 @@ export class SaaamRuntime {
 
     // Set up debug text style
     ctx.fillStyle = "rgba(0, 0, 0, 0.7)"
-    ctx.fillRect(0, 0, 200, 100)
+    ctx.fillRect(0, 0, 200, 140)
     ctx.font = "12px monospace"
     ctx.fillStyle = "#00FF00"
 
@@ -507,19 +1978,51 @@ export class SaaamRuntime {
 
     // Draw frame count
     ctx.fillText(`Frame: ${this.state.frameCount}`, padding, y)
+    y += lineHeight
+
+    // Draw timestep mode
+    ctx.fillText(
+      this.options.fixedTimestep
+        ? `Fixed: ${this.options.tickRate}Hz (alpha ${this.state.interpolationAlpha.toFixed(2)})`
+        : "Timestep: variable",
+      padding,
+      y,
+    )
+    y += lineHeight
+
+    // Draw the seed, so a run can be reproduced with SAAAM.setSeed
+    ctx.fillText(`Seed: ${this.seed}`, padding, y)
   }
 
-  // Handle errors
-  private handleError(error: string) {
+  // Handle errors; if the cause was thrown by the script, its stack trace is mapped to the script's files and
+  // the innermost location is added to the message
+  private handleError(message: string, cause?: unknown) {
+    const trace = this.mapStackTrace(cause)
+    const error = trace.length > 0 ? `${message} (${formatSourceLocation(trace[0])})` : message
     this.errors.push(error)
     if (this.onErrorCallback) {
-      this.onErrorCallback(error)
+      this.onErrorCallback(error, trace)
     }
     console.error(`[SAAAM Runtime] ${error}`)
   }
 
-  // Set error callback
-  public onError(callback: (error: string) => void) {
+  // Frames of an error's stack trace that are in the script, as file positions. Lines are exact even while the
+  // debugger instruments the script; columns then count its probes too
+  private mapStackTrace(cause: unknown): SaaamStackFrame[] {
+    const stack = (cause as { stack?: unknown } | null)?.stack
+    if (typeof stack !== "string" || !this.sourceMap) return []
+
+    const firstLine = getScriptFirstLine()
+    const trace: SaaamStackFrame[] = []
+    for (const position of parseStackPositions(stack)) {
+      const location = toSourceLocation(this.sourceMap, position.line - firstLine + 1, position.column)
+      if (location) trace.push({ ...location, name: position.name })
+    }
+    return trace
+  }
+
+  // Set error callback; the trace is empty for errors that did not come from the script
+  public onError(callback: (error: string, trace: SaaamStackFrame[]) => void) {
     this.onErrorCallback = callback
     return this
   }
@@ -530,6 +2033,26 @@ export class SaaamRuntime {
     return this
   }
 
+  // Set callback for sound commands; without one, scripts run silently
+  public onAudio(callback: (command: SaaamAudioCommand) => void) {
+    this.onAudioCallback = callback
+    return this
+  }
+
+  private emitAudio(command: SaaamAudioCommand) {
+    this.onAudioCallback?.(command)
+  }
+
+  private createSoundHandle(id: number): SaaamSoundHandle {
+    return {
+      id,
+      stop: () => this.emitAudio({ type: "stop", id }),
+      pause: () => this.emitAudio({ type: "pause", id }),
+      resume: () => this.emitAudio({ type: "resume", id }),
+      setVolume: (volume: number) => this.emitAudio({ type: "setVoiceVolume", id, volume }),
+    }
+  }
+
   // Get all errors
   public getErrors(): string[] {
     return [...this.errors]
@@ -556,6 +2079,249 @@ export class SaaamRuntime {
     this.state.height = height
   }
 
+  // Update runtime options (e.g. from project settings)
+  public setOptions(options: Partial<SaaamRuntimeOptions>) {
+    this.options = { ...this.options, ...options }
+    this.state.accumulator = 0
+    return this
+  }
+
+  // Get the current runtime options
+  public getOptions(): SaaamRuntimeOptions {
+    return { ...this.options }
+  }
+
+  // Get every action with the bindings it currently uses
+  public getActions(): SaaamInputBindings {
+    const names = new Set([...Object.keys(this.state.actions), ...Object.keys(this.options.inputBindings)])
+    return Object.fromEntries([...names].map((name) => [name, this.getBindings(name)]))
+  }
+
+  // Get the default bindings the script passed to SAAAM.defineAction
+  public getDefinedActions(): SaaamInputBindings {
+    return { ...this.state.actions }
+  }
+
+  // Make a sprite available to drawSprite/loadSprite by its id and its name
+  public addSprite(sprite: SaaamSprite) {
+    const entry = { ...sprite, frameCount: Math.max(1, sprite.frameCount ?? getSpriteFrameCount(sprite.name)) }
+    this.sprites.set(sprite.id, entry)
+    this.sprites.set(sprite.name, entry)
+    return this
+  }
+
+  // Forget all loaded sprites
+  public clearSprites() {
+    this.sprites.clear()
+    return this
+  }
+
+  // Look up a sprite by id, name or handle from loadSprite; warns once per missing sprite
+  private resolveSprite(sprite: string | { id: string }): Required<SaaamSprite> | null {
+    const key = typeof sprite === "string" ? sprite : sprite?.id
+    const entry = this.sprites.get(key)
+    if (entry) return entry
+
+    if (!this.missingSprites.has(key)) {
+      this.missingSprites.add(key)
+      this.sandboxEnv.console.warn(`Sprite '${key}' is not loaded; add it in the asset manager`)
+    }
+    return null
+  }
+
+  // Start every random stream over from a seed
+  private resetRandom(seed: number) {
+    this.seed = seed >>> 0
+    this.randomStreams.clear()
+  }
+
+  // Get a named random stream, seeded from the run's seed and its name
+  private getRandomStream(name = "default"): SaaamRandom {
+    let stream = this.randomStreams.get(name)
+    if (!stream) {
+      stream = new SaaamRandom(hashSeed(`${this.seed}:${name}`))
+      this.randomStreams.set(name, stream)
+    }
+    return stream
+  }
+
+  // Cameras shake with their own stream, so shaking does not change what the script rolls
+  private createCamera(viewport: SaaamRect): SaaamCamera {
+    return new SaaamCamera(viewport, () => this.getRandomStream("camera").next())
+  }
+
+  // Copy the objects, persistent values, cameras and input of the running game. Script variables outside
+  // SAAAM.persistent live in the script's closures and cannot be captured
+  public getSnapshot(): SaaamSnapshot {
+    const { graph, objects, functions } = encodeSnapshotGraph({
+      objects: this.state.objects,
+      persistent: this.state.persistent,
+      cameras: this.state.cameras.map((camera) => camera.getSnapshot()),
+      // What each step saw; device state follows separately since input events keep changing it
+      input: {
+        keySnapshot: this.state.keySnapshot,
+        mouseSnapshot: this.state.mouseSnapshot,
+        padSnapshot: this.state.padSnapshot,
+        gamepadSnapshot: this.state.gamepadSnapshot,
+        actionSnapshot: this.state.actionSnapshot,
+        touchSnapshot: this.state.touchSnapshot,
+        gestureSnapshot: this.state.gestureSnapshot,
+      },
+      // Copied, so restoring a snapshot in place never writes into the records input events update
+      devices: JSON.parse(
+        JSON.stringify({
+          keys: this.state.keys,
+          mousePosition: this.state.mousePosition,
+          mouseButtons: this.state.mouseButtons,
+          gamepads: this.state.gamepads,
+          padControls: this.state.padControls,
+          touches: this.state.touches,
+          pendingKeys: this.state.pendingKeys,
+          pendingMouseButtons: this.state.pendingMouseButtons,
+          pendingPadControls: this.state.pendingPadControls,
+          pendingGestures: this.state.pendingGestures,
+        }),
+      ),
+    })
+
+    return {
+      version: 1,
+      frameCount: this.state.frameCount,
+      tickCount: this.state.tickCount,
+      nextObjectId: this.state.nextObjectId,
+      nextSoundId: this.state.nextSoundId,
+      audioVolumes: { ...this.state.audioVolumes },
+      random: {
+        seed: this.seed,
+        streams: Object.fromEntries([...this.randomStreams].map(([name, stream]) => [name, stream.getState()])),
+      },
+      data: graph,
+      live: { objects, functions },
+    }
+  }
+
+  // Put the game back to a snapshot. Objects still alive are updated in place, so references scripts hold
+  // stay valid. With liveInput off, keys and buttons held right now are kept instead of the recorded ones
+  public restoreSnapshot(snapshot: SaaamSnapshot, options: { liveInput?: boolean } = {}): boolean {
+    try {
+      const data = decodeSnapshotGraph(snapshot.data, snapshot.live?.functions, this.snapshotTargets(snapshot))
+
+      this.state.objects = data.objects
+      this.state.pendingDestroy = []
+      // The objects array may have been refilled in place, which the collision hash would not notice
+      this.hashedObjects = null
+      this.state.persistent = data.persistent
+      this.state.frameCount = snapshot.frameCount
+      this.state.tickCount = snapshot.tickCount
+      this.state.nextObjectId = snapshot.nextObjectId
+      this.state.nextSoundId = snapshot.nextSoundId
+      this.resetRandom(snapshot.random.seed)
+      for (const [name, state] of Object.entries(snapshot.random.streams)) {
+        this.getRandomStream(name).setState(state)
+      }
+
+      data.cameras.forEach((cameraSnapshot: SaaamCameraSnapshot, index: number) => {
+        const camera = this.state.cameras[index] ?? this.createCamera(cameraSnapshot.viewport)
+        this.state.cameras[index] = camera.restoreSnapshot(cameraSnapshot)
+      })
+      this.state.cameras.length = Math.max(1, data.cameras.length)
+      this.state.activeCamera = this.state.cameras[0]
+
+      Object.assign(this.state, data.input)
+      if (options.liveInput !== false) Object.assign(this.state, data.devices)
+
+      for (const bus of ["master", "music", "sfx"] as const) {
+        this.sandboxEnv.SAAAM.setVolume(bus, snapshot.audioVolumes[bus])
+      }
+      return true
+    } catch (error) {
+      this.handleError(`Failed to restore snapshot: ${error}`)
+      return false
+    }
+  }
+
+  // Live objects a snapshot should be decoded into: the ones it was taken from, or (for a snapshot read from
+  // a file) current objects with the same id and current persistent values with the same name
+  private snapshotTargets(snapshot: SaaamSnapshot): Map<number, object> {
+    const targets: Map<number, object> = new Map()
+    if (snapshot.live) {
+      snapshot.live.objects.forEach((object, index) => targets.set(index, object))
+      return targets
+    }
+
+    const { heap, root } = snapshot.data
+    const node = (value: SaaamSnapshotValue | undefined) =>
+      value && typeof value === "object" && "ref" in value ? heap[value.ref] : undefined
+    const rootNode = node(root)
+    if (!rootNode || !("object" in rootNode)) return targets
+
+    const objectsNode = node(rootNode.object.objects)
+    if (objectsNode && "array" in objectsNode) {
+      const byId = new Map(this.state.objects.map((obj) => [obj.id, obj]))
+      for (const item of objectsNode.array) {
+        const objectNode = node(item)
+        const id = objectNode && "object" in objectNode ? objectNode.object.id : undefined
+        const current = typeof id === "string" ? byId.get(id) : undefined
+        if (current) targets.set((item as { ref: number }).ref, current)
+      }
+    }
+
+    const persistentNode = node(rootNode.object.persistent)
+    if (persistentNode && "object" in persistentNode) {
+      for (const [name, item] of Object.entries(persistentNode.object)) {
+        const current = this.state.persistent[name]
+        if (node(item) && current && typeof current === "object") targets.set((item as { ref: number }).ref, current)
+      }
+    }
+    return targets
+  }
+
+  // Get the input recorded since the script was loaded, as a replay of this run
+  public getReplay(): SaaamReplay | null {
+    return this.recorder?.getReplay() ?? null
+  }
+
+  // Get how far the replay being played back has got
+  public getReplayStatus(): SaaamReplayStatus {
+    return {
+      playing: this.replayPlayer !== null,
+      tick: this.state.tickCount,
+      length: this.replayLength,
+      speed: this.replaySpeed,
+      scriptChanged: this.replayScriptChanged,
+      divergedAt: this.replayDivergedAt,
+    }
+  }
+
+  // Play replays back faster (steps per frame)
+  public setReplaySpeed(speed: number) {
+    this.replaySpeed = Math.max(1, Math.floor(speed))
+    return this
+  }
+
+  // Stop playing a replay back and take live input from here on
+  public stopReplay() {
+    this.replayPlayer = null
+    return this
+  }
+
+  // Get how many steps are recorded for rewinding and which one is shown
+  public getTimeline(): SaaamTimelineInfo {
+    const length = this.timeline?.length ?? 0
+    return { length, position: this.rewindPosition ?? length - 1 }
+  }
+
+  // Pause and show a recorded step (0 is the oldest); resuming continues from there
+  public rewindTo(position: number): boolean {
+    const snapshot = this.timeline?.get(position)
+    if (!snapshot) return false
+
+    if (!this.state.paused) this.togglePause()
+    if (!this.restoreSnapshot(snapshot, { liveInput: false })) return false
+    this.rewindPosition = position
+    return true
+  }
+
   // Get the current state
   public getState(): SaaamRuntimeState {
     return { ...this.state }
@@ -565,4 +2331,13 @@ export class SaaamRuntime {
   getFps(): number {
     return this.state.fps || 0
   }
+
+  // Get the number of frames run so far
+  getFrameCount(): number {
+    return this.state.frameCount
+  }
+
+  public isPaused(): boolean {
+    return this.state.paused
+  }
 }
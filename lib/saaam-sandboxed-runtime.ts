@@ -0,0 +1,678 @@
+// SAAAM Sandboxed Runtime - Runs SAAAM scripts in an isolated Worker and shows the frames on a page canvas
+
+import { SaaamAudioEngine, type SaaamSoundSource } from "./saaam-audio"
+import { createDebugChannel, sendDebugCommand, type SaaamDebugCommand, type SaaamDebugPause } from "./saaam-debugger"
+import type { SaaamProfile } from "./saaam-profiler"
+import type { SaaamReplay } from "./saaam-replay"
+import { createSourceMap, type SaaamSourceMap, type SaaamStackFrame } from "./saaam-source-map"
+import {
+  DEFAULT_RUNTIME_OPTIONS,
+  type SaaamAudioCommand,
+  type SaaamInputBindings,
+  type SaaamInputEvent,
+  type SaaamRuntimeOptions,
+  type SaaamSprite,
+  type SaaamReplayStatus,
+  type SaaamTimelineInfo,
+} from "./saaam-runtime"
+
+export type SaaamSandboxOptions = SaaamRuntimeOptions & {
+  // How long a frame (or loading the script) may take before the worker is killed
+  watchdogTimeout: number
+}
+
+// A sprite image to make available to scripts; the page decodes it before the script loads
+export type SaaamSpriteSource = {
+  id: string
+  name: string
+  url: string
+  frameCount?: number
+}
+
+export const DEFAULT_SANDBOX_OPTIONS: SaaamSandboxOptions = {
+  ...DEFAULT_RUNTIME_OPTIONS,
+  watchdogTimeout: 2000,
+  // Keep recent steps so a bug that just happened can be rewound to
+  rewindSeconds: 5,
+}
+
+// Messages from the page to the worker
+export type SaaamWorkerRequest =
+  | { type: "init"; width: number; height: number; options: SaaamRuntimeOptions; debugMode: boolean }
+  | { type: "load"; code: string; replay: SaaamReplay | null; sourceMap: SaaamSourceMap }
+  | { type: "reload"; code: string; sourceMap: SaaamSourceMap }
+  | { type: "start" }
+  | { type: "stop" }
+  | { type: "togglePause" }
+  | { type: "rewind"; position: number }
+  | { type: "getReplay" }
+  | { type: "setReplaySpeed"; speed: number }
+  | { type: "stopReplay" }
+  // Breakpoints turn the debugger on for scripts loaded from then on; null turns it off
+  | { type: "debug"; channel: Int32Array | null; breakpoints: number[] | null }
+  // Continue after a pause that did not block (no debug channel)
+  | { type: "debugResume"; breakpoints: number[] }
+  | { type: "setProfiling"; enabled: boolean }
+  | { type: "getProfile" }
+  | { type: "setDebugMode"; enabled: boolean }
+  | { type: "setOptions"; options: Partial<SaaamRuntimeOptions> }
+  | { type: "resize"; width: number; height: number }
+  | { type: "input"; event: SaaamInputEvent }
+  | { type: "sprites"; sprites: Array<SaaamSprite & { image: ImageBitmap }> }
+
+// Messages from the worker to the page
+export type SaaamWorkerResponse =
+  | { type: "loaded"; success: boolean; actions: SaaamInputBindings }
+  | {
+      type: "frame"
+      bitmap: ImageBitmap
+      fps: number
+      frameCount: number
+      timeline: SaaamTimelineInfo
+      replay: SaaamReplayStatus
+    }
+  | { type: "replay"; replay: SaaamReplay | null }
+  | { type: "profile"; profile: SaaamProfile | null }
+  // The script stopped at a breakpoint or step. If blocking, it waits on the debug channel; if not, it ran on
+  // and the game was paused after the frame
+  | { type: "paused"; pause: SaaamDebugPause; blocking: boolean }
+  | { type: "stopped" }
+  | { type: "log"; message: string }
+  // Trace is the error's stack mapped to the script's files, innermost first (empty if it has none)
+  | { type: "error"; message: string; trace: SaaamStackFrame[] }
+  | { type: "audio"; command: SaaamAudioCommand }
+
+// Create the sandboxed SAAAM runtime
+export class SaaamSandboxedRuntime {
+  private options: SaaamSandboxOptions
+  private worker: Worker | null = null
+  private canvas: HTMLCanvasElement | null = null
+  private output: ImageBitmapRenderingContext | null = null
+  private width = 800
+  private height = 600
+  private debugMode = false
+  private running = false
+  private fps = 0
+  private frameCount = 0
+  private timeline: SaaamTimelineInfo = { length: 0, position: -1 }
+  private replayStatus: SaaamReplayStatus | null = null
+  private definedActions: SaaamInputBindings = {}
+  // Last gamepad state sent to the worker, per pad index
+  private sentGamepads: Map<number, string> = new Map()
+  private lastHeartbeat = 0
+  private watchdogId: ReturnType<typeof setInterval> | null = null
+  private pendingLoad: ((success: boolean) => void) | null = null
+  private pendingReplays: Array<(replay: SaaamReplay | null) => void> = []
+  private profiling = false
+  private pendingProfiles: Array<(profile: SaaamProfile | null) => void> = []
+  // Lines to stop at, or null while the debugger is off
+  private breakpoints: number[] | null = null
+  private debugChannel: Int32Array | null = null
+  private debugPause: { pause: SaaamDebugPause; blocking: boolean } | null = null
+  private errors: string[] = []
+  private logs: string[] = []
+  private onErrorCallback: ((error: string, trace: SaaamStackFrame[]) => void) | null = null
+  private onLogCallback: ((log: string) => void) | null = null
+  private onStopCallback: (() => void) | null = null
+  private onPauseCallback: ((pause: SaaamDebugPause | null, canStep: boolean) => void) | null = null
+  private detachListeners: (() => void) | null = null
+  private spriteSources: SaaamSpriteSource[] = []
+  // Decoded images by URL, so re-running a script does not decode them again
+  private spriteImages: Map<string, Promise<ImageBitmap | null>> = new Map()
+  private loadId = 0
+  // Workers have no Web Audio, so the script's sound commands are played here
+  private audio = new SaaamAudioEngine()
+
+  constructor(options: Partial<SaaamSandboxOptions> = {}) {
+    this.options = { ...DEFAULT_SANDBOX_OPTIONS, ...options }
+    this.audio.onWarning((message) => this.handleLog(`[WARN] ${message}`))
+  }
+
+  // Check whether this browser can run scripts in an isolated worker
+  public static isSupported(): boolean {
+    return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+  }
+
+  // Initialize the runtime with a canvas
+  public initialize(canvas: HTMLCanvasElement) {
+    this.attachCanvas(canvas)
+    return this
+  }
+
+  // Show frames on (and read input from) a canvas; can be called again when the canvas is re-mounted
+  public attachCanvas(canvas: HTMLCanvasElement) {
+    if (this.canvas === canvas) return this
+    this.detachCanvas()
+
+    this.canvas = canvas
+    this.output = canvas.getContext("bitmaprenderer")
+    this.width = canvas.width
+    this.height = canvas.height
+    this.post({ type: "resize", width: this.width, height: this.height })
+    this.setupEventListeners(canvas)
+
+    return this
+  }
+
+  // Stop showing frames and reading input
+  public detachCanvas() {
+    this.detachListeners?.()
+    this.detachListeners = null
+    this.canvas = null
+    this.output = null
+  }
+
+  // Forward DOM input to the worker
+  private setupEventListeners(canvas: HTMLCanvasElement) {
+    const onKeyDown = (e: KeyboardEvent) => this.injectInput({ type: "keydown", keyCode: e.keyCode })
+    const onKeyUp = (e: KeyboardEvent) => this.injectInput({ type: "keyup", keyCode: e.keyCode })
+    // Pointer events cover mouse, touch and pen; the runtime maps the primary pointer to the mouse
+    const onPointer = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect()
+      if (e.type === "pointerdown") canvas.setPointerCapture(e.pointerId)
+      this.injectInput({
+        type: e.type as "pointerdown" | "pointermove" | "pointerup" | "pointercancel",
+        id: e.pointerId,
+        pointerType: e.pointerType,
+        primary: e.isPrimary,
+        button: e.button,
+        x: e.clientX - rect.left,
+        y: e.clientY - rect.top,
+        time: e.timeStamp,
+      })
+    }
+    // Prevent context menu on right-click
+    const onContextMenu = (e: MouseEvent) => e.preventDefault()
+    const pointerEvents = ["pointerdown", "pointermove", "pointerup", "pointercancel"] as const
+
+    // Keep the browser from scrolling or zooming while playing with touch
+    const touchAction = canvas.style.touchAction
+    canvas.style.touchAction = "none"
+
+    window.addEventListener("keydown", onKeyDown)
+    window.addEventListener("keyup", onKeyUp)
+    pointerEvents.forEach((type) => canvas.addEventListener(type, onPointer))
+    canvas.addEventListener("contextmenu", onContextMenu)
+
+    this.detachListeners = () => {
+      window.removeEventListener("keydown", onKeyDown)
+      window.removeEventListener("keyup", onKeyUp)
+      pointerEvents.forEach((type) => canvas.removeEventListener(type, onPointer))
+      canvas.removeEventListener("contextmenu", onContextMenu)
+      canvas.style.touchAction = touchAction
+    }
+  }
+
+  // Apply an input event to the running script
+  public injectInput(event: SaaamInputEvent) {
+    this.post({ type: "input", event })
+  }
+
+  // Set the sprites scripts can draw; they are sent along the next time a script is loaded
+  public setSprites(sprites: SaaamSpriteSource[]) {
+    this.spriteSources = sprites
+    return this
+  }
+
+  // Set the sounds scripts can play; they are decoded before the next script is loaded
+  public setSounds(sounds: SaaamSoundSource[]) {
+    this.audio.setSounds(sounds)
+    return this
+  }
+
+  // Load a script in a fresh worker and run its create function, optionally playing a replay back. Errors are
+  // reported in the files of the source map (see linkSaaamFiles)
+  public async executeCode(
+    code: string,
+    replay: SaaamReplay | null = null,
+    sourceMap: SaaamSourceMap = createSourceMap("main.saaam", code),
+  ): Promise<boolean> {
+    this.errors = []
+    this.logs = []
+
+    if (!SaaamSandboxedRuntime.isSupported()) {
+      this.handleError("This browser cannot run SAAAM scripts in an isolated worker")
+      return false
+    }
+
+    // Still inside the click that ran the script, which browsers require before audio may start
+    this.audio.unlock()
+
+    // Decode sprites and sounds before the script starts so create can already use them
+    const loadId = ++this.loadId
+    const [sprites] = await Promise.all([this.loadSprites(), this.audio.preload()])
+    if (loadId !== this.loadId) return false
+
+    // Every script gets a clean realm; nothing from a previous run survives
+    this.terminate()
+    this.spawnWorker()
+    this.post({ type: "sprites", sprites })
+
+    return new Promise((resolve) => {
+      this.pendingLoad = resolve
+      this.lastHeartbeat = performance.now()
+      this.startWatchdog()
+      this.post({ type: "load", code, replay, sourceMap })
+    })
+  }
+
+  // Swap a changed script into the running game, keeping its objects and persistent values (see
+  // SaaamRuntime.hotReload); resolves false if nothing is running or the new script failed to load
+  public hotReload(code: string, sourceMap: SaaamSourceMap = createSourceMap("main.saaam", code)): Promise<boolean> {
+    if (!this.worker || !this.running) return Promise.resolve(false)
+
+    this.resolveLoad(false)
+    return new Promise((resolve) => {
+      this.pendingLoad = resolve
+      this.post({ type: "reload", code, sourceMap })
+    })
+  }
+
+  // Decode every sprite source, skipping (and reporting) the ones that fail
+  private async loadSprites(): Promise<Array<SaaamSprite & { image: ImageBitmap }>> {
+    const loaded = await Promise.all(
+      this.spriteSources.map(async (source) => {
+        const { url, ...sprite } = source
+        const image = await this.loadSpriteImage(source)
+        return image ? { ...sprite, image } : null
+      }),
+    )
+    return loaded.filter((sprite): sprite is SaaamSprite & { image: ImageBitmap } => sprite !== null)
+  }
+
+  private loadSpriteImage(source: SaaamSpriteSource): Promise<ImageBitmap | null> {
+    let image = this.spriteImages.get(source.url)
+    if (!image) {
+      image = new Promise<HTMLImageElement>((resolve, reject) => {
+        const element = new Image()
+        element.onload = () => resolve(element)
+        element.onerror = () => reject(new Error("the image could not be decoded"))
+        element.src = source.url
+      })
+        .then((element) => createImageBitmap(element))
+        .catch((e) => {
+          this.spriteImages.delete(source.url)
+          this.handleError(`Failed to load sprite '${source.name}': ${e.message}`)
+          return null
+        })
+      this.spriteImages.set(source.url, image)
+    }
+    return image
+  }
+
+  private spawnWorker() {
+    this.sentGamepads.clear()
+    this.timeline = { length: 0, position: -1 }
+    this.replayStatus = null
+    this.debugPause = null
+    this.debugChannel = createDebugChannel()
+    const worker = new Worker(new URL("./saaam-runtime-worker.ts", import.meta.url))
+    worker.onmessage = (e: MessageEvent<SaaamWorkerResponse>) => this.handleMessage(e.data)
+    worker.onerror = (e) => {
+      e.preventDefault()
+      this.handleError(`Sandbox worker failed: ${e.message}`)
+      this.kill()
+    }
+
+    this.worker = worker
+    this.post({
+      type: "init",
+      width: this.width,
+      height: this.height,
+      options: this.getOptions(),
+      debugMode: this.debugMode,
+    })
+    if (this.breakpoints) this.post({ type: "debug", channel: this.debugChannel, breakpoints: this.breakpoints })
+    if (this.profiling) this.post({ type: "setProfiling", enabled: true })
+  }
+
+  private handleMessage(message: SaaamWorkerResponse) {
+    switch (message.type) {
+      case "loaded":
+        this.definedActions = message.actions
+        this.resolveLoad(message.success)
+        if (!this.running) this.stopWatchdog()
+        break
+      case "frame":
+        this.lastHeartbeat = performance.now()
+        this.fps = message.fps
+        this.frameCount = message.frameCount
+        this.timeline = message.timeline
+        this.replayStatus = message.replay
+        this.pollGamepads()
+        if (this.output) {
+          this.output.transferFromImageBitmap(message.bitmap)
+        } else {
+          message.bitmap.close()
+        }
+        break
+      case "stopped":
+        this.running = false
+        this.stopWatchdog()
+        this.audio.stopAll()
+        this.onStopCallback?.()
+        break
+      case "replay":
+        this.pendingReplays.shift()?.(message.replay)
+        break
+      case "profile":
+        this.pendingProfiles.shift()?.(message.profile)
+        break
+      case "paused":
+        this.debugPause = { pause: message.pause, blocking: message.blocking }
+        this.onPauseCallback?.(message.pause, message.blocking)
+        break
+      case "log":
+        this.handleLog(message.message)
+        break
+      case "audio":
+        this.audio.handle(message.command)
+        break
+      case "error":
+        this.errors.push(message.message)
+        this.onErrorCallback?.(message.message, message.trace)
+        break
+    }
+  }
+
+  // The Gamepad API is not available in workers, so poll it here once per frame and forward changes
+  private pollGamepads() {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) return
+
+    const connected = new Set<number>()
+    for (const gamepad of navigator.getGamepads()) {
+      if (!gamepad) continue
+      connected.add(gamepad.index)
+
+      const buttons = gamepad.buttons.map((button) => button.value)
+      const axes = [...gamepad.axes]
+      const state = JSON.stringify([buttons, axes])
+      if (this.sentGamepads.get(gamepad.index) === state) continue
+
+      this.sentGamepads.set(gamepad.index, state)
+      this.injectInput({ type: "gamepad", index: gamepad.index, connected: true, buttons, axes })
+    }
+
+    for (const index of [...this.sentGamepads.keys()]) {
+      if (connected.has(index)) continue
+      this.sentGamepads.delete(index)
+      this.injectInput({ type: "gamepad", index, connected: false, buttons: [], axes: [] })
+    }
+  }
+
+  // Start the game loop
+  public start() {
+    if (!this.worker) return
+
+    this.running = true
+    this.lastHeartbeat = performance.now()
+    this.startWatchdog()
+    this.post({ type: "start" })
+  }
+
+  // Stop the game loop (calls the script's destroy function)
+  public stop() {
+    this.debugCommand("detach")
+    this.running = false
+    this.stopWatchdog()
+    this.post({ type: "stop" })
+  }
+
+  // Pause/unpause the game
+  public togglePause() {
+    this.post({ type: "togglePause" })
+  }
+
+  // Pause and show a recorded step (see SaaamRuntime.rewindTo)
+  public rewindTo(position: number) {
+    this.post({ type: "rewind", position })
+  }
+
+  // Get the input recorded since the script was loaded; resolves null if no script is loaded
+  public getReplay(): Promise<SaaamReplay | null> {
+    if (!this.worker) return Promise.resolve(null)
+
+    return new Promise((resolve) => {
+      this.pendingReplays.push(resolve)
+      this.post({ type: "getReplay" })
+    })
+  }
+
+  // Time frames, script functions and SAAAM calls (see SaaamProfiler); turning it on starts a new capture
+  public setProfiling(enabled: boolean) {
+    this.profiling = enabled
+    this.post({ type: "setProfiling", enabled })
+    return this
+  }
+
+  // Get the profile captured so far; resolves null if not profiling or no script is loaded
+  public getProfile(): Promise<SaaamProfile | null> {
+    if (!this.worker || !this.profiling) return Promise.resolve(null)
+
+    return new Promise((resolve) => {
+      this.pendingProfiles.push(resolve)
+      this.post({ type: "getProfile" })
+    })
+  }
+
+  // Get how far replay playback has got, as of the last frame
+  public getReplayStatus(): SaaamReplayStatus | null {
+    return this.replayStatus && { ...this.replayStatus }
+  }
+
+  // Play replays back faster (steps per frame)
+  public setReplaySpeed(speed: number) {
+    this.post({ type: "setReplaySpeed", speed })
+  }
+
+  // Stop playing a replay back and take live input from here on
+  public stopReplay() {
+    this.post({ type: "stopReplay" })
+  }
+
+  // Get the recorded steps as of the last frame
+  public getTimeline(): SaaamTimelineInfo {
+    return { ...this.timeline }
+  }
+
+  // Turn the step debugger on with the lines to stop at, or off (null). Turning it on or off takes effect
+  // when the next script is loaded; breakpoints of a debugged game are updated right away
+  public setBreakpoints(lines: number[] | null) {
+    this.breakpoints = lines && [...lines]
+    this.post({ type: "debug", channel: this.debugChannel, breakpoints: this.breakpoints })
+    return this
+  }
+
+  // Let a script paused by the debugger go on. A pause that did not block (the page has no debug channel, see
+  // createDebugChannel) can only be continued
+  public debugCommand(command: SaaamDebugCommand) {
+    const paused = this.debugPause
+    if (!paused) return
+
+    this.debugPause = null
+    this.lastHeartbeat = performance.now()
+    this.onPauseCallback?.(null, false)
+    if (paused.blocking && this.debugChannel) {
+      sendDebugCommand(this.debugChannel, command, this.breakpoints ?? [])
+    } else {
+      this.post({ type: "debugResume", breakpoints: this.breakpoints ?? [] })
+    }
+  }
+
+  // Get where the script is paused, if it is
+  public getDebugPause(): SaaamDebugPause | null {
+    return this.debugPause?.pause ?? null
+  }
+
+  // Show or hide the debug overlay
+  public setDebugMode(enabled: boolean) {
+    this.debugMode = enabled
+    this.post({ type: "setDebugMode", enabled })
+  }
+
+  // Kill the worker when it stops answering, e.g. because of an infinite loop in step
+  private startWatchdog() {
+    if (this.watchdogId !== null) return
+
+    this.watchdogId = setInterval(() => {
+      // Hidden tabs throttle the worker's animation frames, and a script paused in the debugger waits on
+      // purpose; neither is a hang
+      if (document.hidden || this.debugPause) {
+        this.lastHeartbeat = performance.now()
+        return
+      }
+
+      const elapsed = performance.now() - this.lastHeartbeat
+      if (elapsed > this.options.watchdogTimeout) {
+        this.handleError(
+          `Script stopped: no response for ${Math.round(elapsed)}ms (is there an infinite loop in create, step or draw?)`,
+        )
+        this.kill()
+      }
+    }, 250)
+  }
+
+  private stopWatchdog() {
+    if (this.watchdogId !== null) {
+      clearInterval(this.watchdogId)
+      this.watchdogId = null
+    }
+  }
+
+  // Terminate a hung worker and report the game as stopped
+  private kill() {
+    const wasRunning = this.running
+    this.terminate()
+    if (wasRunning) this.onStopCallback?.()
+  }
+
+  private terminate() {
+    this.stopWatchdog()
+    this.worker?.terminate()
+    this.worker = null
+    this.audio.stopAll()
+    this.running = false
+    if (this.debugPause) {
+      this.debugPause = null
+      this.onPauseCallback?.(null, false)
+    }
+    this.resolveLoad(false)
+    for (const resolve of this.pendingReplays.splice(0)) resolve(null)
+    for (const resolve of this.pendingProfiles.splice(0)) resolve(null)
+  }
+
+  private resolveLoad(success: boolean) {
+    const resolve = this.pendingLoad
+    this.pendingLoad = null
+    resolve?.(success)
+  }
+
+  private post(message: SaaamWorkerRequest) {
+    this.worker?.postMessage(message)
+  }
+
+  private handleLog(message: string) {
+    this.logs.push(message)
+    this.onLogCallback?.(message)
+  }
+
+  // Handle errors raised on the page side
+  private handleError(error: string) {
+    this.errors.push(error)
+    this.onErrorCallback?.(error, [])
+    console.error(`[SAAAM Runtime] ${error}`)
+  }
+
+  // Set error callback
+  public onError(callback: (error: string, trace: SaaamStackFrame[]) => void) {
+    this.onErrorCallback = callback
+    return this
+  }
+
+  // Set log callback
+  public onLog(callback: (log: string) => void) {
+    this.onLogCallback = callback
+    return this
+  }
+
+  // Set callback for when the game stops on its own (script error or watchdog)
+  public onStop(callback: () => void) {
+    this.onStopCallback = callback
+    return this
+  }
+
+  // Set callback for when a script stops in the debugger (and with null when it goes on); canStep is false
+  // for pauses that can only be continued
+  public onPause(callback: (pause: SaaamDebugPause | null, canStep: boolean) => void) {
+    this.onPauseCallback = callback
+    return this
+  }
+
+  // Get all errors
+  public getErrors(): string[] {
+    return [...this.errors]
+  }
+
+  // Get all logs
+  public getLogs(): string[] {
+    return [...this.logs]
+  }
+
+  // Clear all errors and logs
+  public clearLogsAndErrors() {
+    this.errors = []
+    this.logs = []
+  }
+
+  // Resize the canvas
+  public resize(width: number, height: number) {
+    this.width = width
+    this.height = height
+    if (this.canvas) {
+      this.canvas.width = width
+      this.canvas.height = height
+    }
+    this.post({ type: "resize", width, height })
+  }
+
+  // Update runtime options (e.g. from project settings)
+  public setOptions(options: Partial<SaaamSandboxOptions>) {
+    this.options = { ...this.options, ...options }
+    this.post({ type: "setOptions", options: this.getOptions() })
+    return this
+  }
+
+  // Get the runtime options the worker runs with
+  public getOptions(): SaaamRuntimeOptions {
+    const { watchdogTimeout, ...options } = this.options
+    return options
+  }
+
+  // Get the default bindings the loaded script passed to SAAAM.defineAction
+  public getDefinedActions(): SaaamInputBindings {
+    return { ...this.definedActions }
+  }
+
+  public isRunning(): boolean {
+    return this.running
+  }
+
+  getFps(): number {
+    return this.fps
+  }
+
+  // Get the number of frames run so far
+  getFrameCount(): number {
+    return this.frameCount
+  }
+
+  // Terminate the worker and remove all listeners
+  public destroy() {
+    // Abandon a load that is still waiting on sprites
+    this.loadId++
+    this.terminate()
+    this.detachCanvas()
+    this.spriteImages.clear()
+    this.audio.destroy()
+  }
+}
@@ -0,0 +1,207 @@
+// SAAAM Snapshot - Copies of a running game's data that can be saved as JSON and restored, and a ring buffer
+// of recent ones for rewinding
+
+import type { SaaamAudioBus } from "./saaam-runtime"
+
+// A value in a snapshot. JSON primitives are stored as they are; everything JSON cannot hold gets a tag
+export type SaaamSnapshotValue =
+  | string
+  | number
+  | boolean
+  | null
+  // An object or array in the heap, so references shared between objects stay shared (and cycles work)
+  | { ref: number }
+  // A function; it can only be restored in the runtime that took the snapshot
+  | { fn: number }
+  | { num: "NaN" | "Infinity" | "-Infinity" }
+  | { undef: true }
+
+export type SaaamSnapshotNode = { array: SaaamSnapshotValue[] } | { object: Record<string, SaaamSnapshotValue> }
+
+// Plain objects and arrays reachable from a root. Other objects (class instances, Maps, ...) keep only their
+// own enumerable fields
+export type SaaamSnapshotGraph = {
+  heap: SaaamSnapshotNode[]
+  root: SaaamSnapshotValue
+}
+
+export type SaaamSnapshot = {
+  version: 1
+  frameCount: number
+  tickCount: number
+  nextObjectId: number
+  nextSoundId: number
+  audioVolumes: Record<SaaamAudioBus, number>
+  // Seed of the run and the position of every random stream used so far
+  random: { seed: number; streams: Record<string, number> }
+  // Objects, persistent values, cameras and input, encoded together so references between them survive
+  data: SaaamSnapshotGraph
+  // The objects and functions the graph was taken from. Not serialized: restoring in the same runtime
+  // refills those objects in place, so scripts holding on to them see the restored values
+  live?: { objects: object[]; functions: Function[] }
+}
+
+// Encode everything reachable from a value
+export function encodeSnapshotGraph(root: unknown): {
+  graph: SaaamSnapshotGraph
+  objects: object[]
+  functions: Function[]
+} {
+  const heap: SaaamSnapshotNode[] = []
+  const objects: object[] = []
+  const functions: Function[] = []
+  const objectIds: Map<object, number> = new Map()
+  const functionIds: Map<Function, number> = new Map()
+
+  const encode = (value: unknown): SaaamSnapshotValue => {
+    if (value === null || typeof value === "string" || typeof value === "boolean") return value
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? value : { num: String(value) as "NaN" | "Infinity" | "-Infinity" }
+    }
+    if (typeof value === "function") {
+      let id = functionIds.get(value)
+      if (id === undefined) {
+        id = functions.length
+        functions.push(value)
+        functionIds.set(value, id)
+      }
+      return { fn: id }
+    }
+    // Symbols and bigints are dropped along with undefined
+    if (typeof value !== "object") return { undef: true }
+
+    const known = objectIds.get(value)
+    if (known !== undefined) return { ref: known }
+
+    const id = heap.length
+    objectIds.set(value, id)
+    objects.push(value)
+    if (Array.isArray(value)) {
+      const node = { array: [] as SaaamSnapshotValue[] }
+      heap.push(node)
+      for (const item of value) node.array.push(encode(item))
+    } else {
+      const node = { object: {} as Record<string, SaaamSnapshotValue> }
+      heap.push(node)
+      for (const key of Object.keys(value)) node.object[key] = encode((value as Record<string, unknown>)[key])
+    }
+    return { ref: id }
+  }
+
+  const encodedRoot = encode(root)
+  return { graph: { heap, root: encodedRoot }, objects, functions }
+}
+
+// Rebuild the value a graph was encoded from. Heap entries with a target are emptied and refilled instead of
+// being created anew; functions that are not available (e.g. after a JSON round trip) are left out
+export function decodeSnapshotGraph(
+  graph: SaaamSnapshotGraph,
+  functions: Function[] = [],
+  targets: Map<number, object> = new Map(),
+): any {
+  const missing = Symbol("missing")
+
+  // Create (or empty) every object first, so references can point at ones that are not filled in yet
+  const decoded = graph.heap.map((node, index) => {
+    const target = targets.get(index)
+    if ("array" in node) {
+      if (!Array.isArray(target)) return []
+      target.length = 0
+      return target
+    }
+    if (!target || Array.isArray(target)) return {}
+    for (const key of Object.keys(target)) delete (target as Record<string, unknown>)[key]
+    return target
+  })
+
+  const decode = (value: SaaamSnapshotValue): unknown => {
+    if (value === null || typeof value !== "object") return value
+    if ("ref" in value) return decoded[value.ref]
+    if ("fn" in value) return typeof functions[value.fn] === "function" ? functions[value.fn] : missing
+    if ("num" in value) return Number(value.num)
+    return undefined
+  }
+
+  graph.heap.forEach((node, index) => {
+    const target = decoded[index] as Record<string, unknown>
+    if ("array" in node) {
+      for (const item of node.array) {
+        const value = decode(item)
+        ;(target as unknown as unknown[]).push(value === missing ? undefined : value)
+      }
+      return
+    }
+    for (const [key, item] of Object.entries(node.object)) {
+      // A snapshot loaded from a file must not be able to swap an object's prototype
+      if (key === "__proto__") continue
+      const value = decode(item)
+      if (value !== missing) target[key] = value
+    }
+  })
+
+  const root = decode(graph.root)
+  return root === missing ? undefined : root
+}
+
+// Turn a snapshot into JSON (without its live references)
+export function serializeSnapshot(snapshot: SaaamSnapshot): string {
+  const { live, ...data } = snapshot
+  return JSON.stringify(data)
+}
+
+// Read a snapshot written by serializeSnapshot
+export function parseSnapshot(json: string): SaaamSnapshot {
+  const snapshot = JSON.parse(json)
+  if (snapshot?.version !== 1 || !Array.isArray(snapshot.data?.heap)) {
+    throw new Error("Not a SAAAM snapshot")
+  }
+  return snapshot
+}
+
+// Keeps the last `capacity` entries, dropping the oldest one when a new one is pushed into a full buffer
+export class SaaamRingBuffer<T> {
+  private entries: Array<T | undefined>
+  private start = 0
+  private count = 0
+
+  constructor(capacity: number) {
+    this.entries = new Array(Math.max(1, Math.floor(capacity)))
+  }
+
+  public get length(): number {
+    return this.count
+  }
+
+  public get capacity(): number {
+    return this.entries.length
+  }
+
+  public push(entry: T) {
+    const capacity = this.entries.length
+    this.entries[(this.start + this.count) % capacity] = entry
+    if (this.count < capacity) {
+      this.count++
+    } else {
+      this.start = (this.start + 1) % capacity
+    }
+  }
+
+  // Entry by age, 0 being the oldest one kept
+  public get(index: number): T | undefined {
+    if (index < 0 || index >= this.count) return undefined
+    return this.entries[(this.start + index) % this.entries.length]
+  }
+
+  // Drop every entry after the first `length`
+  public truncate(length: number) {
+    const keep = Math.max(0, Math.min(this.count, length))
+    for (let i = keep; i < this.count; i++) this.entries[(this.start + i) % this.entries.length] = undefined
+    this.count = keep
+  }
+
+  public clear() {
+    this.entries.fill(undefined)
+    this.start = 0
+    this.count = 0
+  }
+}
@@ -0,0 +1,98 @@
+// SAAAM Source Map - Links the files of a project into one script and maps positions in it (and in stack
+// traces of errors thrown by it) back to the files
+
+export type SaaamSourceFile = {
+  name: string
+  code: string
+}
+
+// 1-based line and column in a file
+export type SaaamSourceLocation = {
+  file: string
+  line: number
+  column: number
+}
+
+// One frame of a mapped stack trace, innermost first; name is null for anonymous functions and the top level
+export type SaaamStackFrame = SaaamSourceLocation & {
+  name: string | null
+}
+
+// Where each file starts in the linked script
+export type SaaamSourceMap = {
+  files: Array<{ name: string; line: number; lines: number }>
+}
+
+// A position in the script as it was run, before mapping
+export type SaaamScriptPosition = {
+  name: string | null
+  line: number
+  column: number
+}
+
+function countLines(code: string): number {
+  return code.split("\n").length
+}
+
+// Map for a script that is a single file
+export function createSourceMap(name: string, code: string): SaaamSourceMap {
+  return { files: [{ name, line: 1, lines: countLines(code) }] }
+}
+
+// Join the files of a project into one script, the entry file last so every other file has defined its
+// objects and functions by the time it runs
+export function linkSaaamFiles(files: SaaamSourceFile[], entry: string): { code: string; map: SaaamSourceMap } {
+  const ordered = [...files.filter((file) => file.name !== entry), ...files.filter((file) => file.name === entry)]
+  const map: SaaamSourceMap = { files: [] }
+  let line = 1
+  for (const file of ordered) {
+    const lines = countLines(file.code)
+    map.files.push({ name: file.name, line, lines })
+    line += lines
+  }
+  return { code: ordered.map((file) => file.code).join("\n"), map }
+}
+
+// File position of a line and column of the linked script, or null if it is outside every file
+export function toSourceLocation(map: SaaamSourceMap, line: number, column = 1): SaaamSourceLocation | null {
+  const file = map.files.find((entry) => line >= entry.line && line < entry.line + entry.lines)
+  return file ? { file: file.name, line: line - file.line + 1, column } : null
+}
+
+// Line of the linked script a file line ended up on, e.g. to set a breakpoint; null if the file is not linked
+export function toScriptLine(map: SaaamSourceMap, file: string, line: number): number | null {
+  const entry = map.files.find((candidate) => candidate.name === file)
+  return entry && line >= 1 && line <= entry.lines ? entry.line + line - 1 : null
+}
+
+// Frames of a stack trace that point into scripts created with `new Function`. Chrome writes them as
+// "at name (eval at ..., <anonymous>:5:11)", Firefox as "name@... line 12 > Function:5:11". Lines are those of
+// the function's generated source, which starts with its parameter list
+export function parseStackPositions(stack: string): SaaamScriptPosition[] {
+  const positions: SaaamScriptPosition[] = []
+  for (const text of stack.split("\n")) {
+    const chrome = text.match(/^\s*at (?:(?:async |new )?([^\s(]+) \()?.*<anonymous>:(\d+):(\d+)\)?$/)
+    const firefox = chrome ? null : text.match(/^([^@]*)@.*> Function:(\d+):(\d+)$/)
+    const found = chrome ?? firefox
+    if (!found) continue
+
+    // "eval" and "anonymous" are the names engines give the generated function itself, i.e. the top level;
+    // Chrome calls methods of object literals "Object.step"
+    const name = found[1] && found[1] !== "eval" && found[1] !== "anonymous" ? found[1].replace(/^Object\./, "") : null
+    positions.push({ name, line: Number(found[2]), column: Number(found[3]) })
+  }
+  return positions
+}
+
+export function formatSourceLocation(location: SaaamSourceLocation): string {
+  return `${location.file}:${location.line}:${location.column}`
+}
+
+// Character offset of a line and column in a file's code, e.g. to put a text cursor there
+export function getSourceOffset(code: string, line: number, column = 1): number {
+  const lines = code.split("\n")
+  let offset = 0
+  for (let i = 0; i < Math.min(line, lines.length) - 1; i++) offset += lines[i].length + 1
+  const text = lines[Math.min(line, lines.length) - 1] ?? ""
+  return offset + Math.min(Math.max(column - 1, 0), text.length)
+}
@@ -1,3 +1,13 @@
+// Pages that run the step debugger (the IDE and sandbox live on the home page)
+const ISOLATED_ROUTES = ["/"]
+// Where the script worker is served from; a worker started by an isolated page must send a matching COEP
+const WORKER_ROUTES = ["/_next/static/:path*"]
+
+const EMBEDDER_POLICY = { key: "Cross-Origin-Embedder-Policy", value: "credentialless" }
+// A worker runs under the policy of its own script. Scripts in the worker can reach import() however much of the
+// global scope is removed, so this lets it load code only from this site; the runtime compiles scripts with eval
+const WORKER_SCRIPT_POLICY = { key: "Content-Security-Policy", value: "script-src 'self' 'unsafe-eval'" }
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   eslint: {
@@ -9,6 +19,18 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Cross-origin isolation lets the page share memory with the script worker, which the step debugger
+  // needs to hold a script at a breakpoint. Only the page hosting the IDE and sandbox gets it, since it also
+  // cuts off cross-origin popups and embeds; elsewhere the debugger pauses after the frame instead
+  async headers() {
+    return [
+      ...ISOLATED_ROUTES.map((source) => ({
+        source,
+        headers: [{ key: "Cross-Origin-Opener-Policy", value: "same-origin" }, EMBEDDER_POLICY],
+      })),
+      ...WORKER_ROUTES.map((source) => ({ source, headers: [EMBEDDER_POLICY, WORKER_SCRIPT_POLICY] })),
+    ]
+  },
 }
 
-export default nextConfig
\ No newline at end of file
+export default nextConfig